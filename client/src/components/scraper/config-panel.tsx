@@ -1,4 +1,5 @@
-import { ScrapeConfig } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { LocaleInfo, ScrapeConfig, SearchFilters } from "@shared/schema";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
@@ -15,11 +16,24 @@ interface ConfigPanelProps {
   onChange: (config: Omit<ScrapeConfig, "url">) => void;
 }
 
+// Select value standing for "no override" (Radix selects can't use an empty string)
+const DEFAULT_LOCALE_VALUE = "default";
+
 export function ConfigPanel({ config, onChange }: ConfigPanelProps) {
+  const { data: localeData } = useQuery<{ locales: LocaleInfo[]; defaultLocale: string }>({
+    queryKey: ["/api/locales"],
+  });
+
   const updateConfig = (updates: Partial<Omit<ScrapeConfig, "url">>) => {
     onChange({ ...config, ...updates });
   };
 
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    const filters = { ...config.filters, [key]: value.trim() ? value : undefined };
+    const hasFilters = Object.values(filters).some((filterValue) => filterValue !== undefined);
+    updateConfig({ filters: hasFilters ? filters : undefined });
+  };
+
   return (
     <div className="space-y-4 pt-4 border-t border-border">
       <div className="space-y-2">
@@ -58,6 +72,45 @@ export function ConfigPanel({ config, onChange }: ConfigPanelProps) {
         </Select>
       </div>
 
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Search Filters</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            aria-label="Date from"
+            value={config.filters?.dateFrom || ""}
+            onChange={(e) => updateFilter("dateFrom", e.target.value)}
+            className="h-10"
+            data-testid="input-filter-date-from"
+          />
+          <Input
+            type="date"
+            aria-label="Date to"
+            value={config.filters?.dateTo || ""}
+            onChange={(e) => updateFilter("dateTo", e.target.value)}
+            className="h-10"
+            data-testid="input-filter-date-to"
+          />
+        </div>
+        <Input
+          placeholder="Photographer"
+          value={config.filters?.photographer || ""}
+          onChange={(e) => updateFilter("photographer", e.target.value)}
+          className="h-10"
+          data-testid="input-filter-photographer"
+        />
+        <Input
+          placeholder="Collection"
+          value={config.filters?.collection || ""}
+          onChange={(e) => updateFilter("collection", e.target.value)}
+          className="h-10"
+          data-testid="input-filter-collection"
+        />
+        <p className="text-xs text-muted-foreground">
+          Applied to search URLs together with the sort order before scraping starts
+        </p>
+      </div>
+
       <div className="flex items-center justify-between">
         <div className="space-y-0.5">
           <Label htmlFor="extractDetails" className="text-sm font-medium">
@@ -75,6 +128,23 @@ export function ConfigPanel({ config, onChange }: ConfigPanelProps) {
         />
       </div>
 
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label htmlFor="recheckKnownImages" className="text-sm font-medium">
+            Re-check Known Images
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Scrape already-seen images again and record metadata changes
+          </p>
+        </div>
+        <Switch
+          id="recheckKnownImages"
+          checked={config.recheckKnownImages || false}
+          onCheckedChange={(checked) => updateConfig({ recheckKnownImages: checked })}
+          data-testid="switch-recheck-known-images"
+        />
+      </div>
+
       <div className="flex items-center justify-between">
         <div className="space-y-0.5">
           <Label htmlFor="autoScroll" className="text-sm font-medium">
@@ -122,12 +192,12 @@ export function ConfigPanel({ config, onChange }: ConfigPanelProps) {
           min="1"
           max="20"
           value={config.concurrency}
-          onChange={(e) => updateConfig({ concurrency: parseInt(e.target.value) || 5 })}
+          onChange={(e) => updateConfig({ concurrency: parseInt(e.target.value) || 1 })}
           className="h-10"
           data-testid="input-concurrency"
         />
         <p className="text-xs text-muted-foreground">
-          Number of concurrent browser tabs for parallel processing (1-20, default: 5)
+          Concurrent browser tabs for metadata-only jobs (1-20, default: 1). Canvas extraction always uses 1 tab
         </p>
       </div>
 
@@ -213,6 +283,57 @@ export function ConfigPanel({ config, onChange }: ConfigPanelProps) {
           Extract canvas images from SmartFrame embeds (requires visible browser)
         </p>
       </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="metadataMode" className="text-sm font-medium">
+          Metadata Mode
+        </Label>
+        <Select
+          value={config.metadataMode || "browser"}
+          onValueChange={(value: any) => updateConfig({ metadataMode: value })}
+          disabled={config.canvasExtraction !== "none"}
+        >
+          <SelectTrigger className="h-10" data-testid="select-metadata-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="browser">Browser</SelectItem>
+            <SelectItem value="http">HTTP (no browser)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          HTTP mode reads image pages directly and only opens a browser tab when a page can't be parsed (metadata-only jobs)
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="captionLocale" className="text-sm font-medium">
+          Caption Language
+        </Label>
+        <Select
+          value={config.captionLocale || DEFAULT_LOCALE_VALUE}
+          onValueChange={(value) =>
+            updateConfig({ captionLocale: value === DEFAULT_LOCALE_VALUE ? undefined : value })
+          }
+        >
+          <SelectTrigger className="h-10" data-testid="select-caption-locale">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_LOCALE_VALUE}>
+              Default{localeData ? ` (${localeData.defaultLocale})` : ""}
+            </SelectItem>
+            {localeData?.locales.map((locale) => (
+              <SelectItem key={locale.code} value={locale.code}>
+                {locale.name} ({locale.code})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Language used to read Featuring/Where/When/Credit lines and dates in captions
+        </p>
+      </div>
     </div>
   );
 }
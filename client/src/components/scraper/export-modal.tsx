@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { ScrapeJob, ExportFormat } from "@shared/schema";
 import {
   Dialog,
@@ -9,10 +10,30 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Download, FileJson, FileSpreadsheet, Check, Copy, Link as LinkIcon } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, FileJson, FileSpreadsheet, FileArchive, Package, Check, Copy, Link as LinkIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
+// Select value for exports without a caption column
+const NO_CAPTION_TEMPLATE = "none";
+
+// XMP sidecars and bundles are delivered as ZIP archives
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  xmp: "zip",
+  zip: "zip",
+};
+
 interface ExportModalProps {
   job: ScrapeJob;
   onClose: () => void;
@@ -20,12 +41,26 @@ interface ExportModalProps {
 
 export function ExportModal({ job, onClose }: ExportModalProps) {
   const [format, setFormat] = useState<ExportFormat>("csv");
+  const [captionTemplate, setCaptionTemplate] = useState(NO_CAPTION_TEMPLATE);
+  const [includeXmp, setIncludeXmp] = useState(false);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const { data: templateData } = useQuery<{ templates: { name: string; template: string }[] }>({
+    queryKey: ["/api/caption-templates"],
+  });
+
+  const getExportPath = (fmt: ExportFormat) => {
+    const templateParam = captionTemplate !== NO_CAPTION_TEMPLATE
+      ? `&captionTemplate=${encodeURIComponent(captionTemplate)}`
+      : "";
+    const xmpParam = fmt === "zip" && includeXmp ? "&xmp=true" : "";
+    return `/api/export/${job.id}?format=${fmt}${templateParam}${xmpParam}`;
+  };
+
   const getApiUrl = (fmt: ExportFormat) => {
     const origin = window.location.origin;
-    return `${origin}/api/export/${job.id}?format=${fmt}`;
+    return `${origin}${getExportPath(fmt)}`;
   };
 
   const copyToClipboard = (url: string, fmt: ExportFormat) => {
@@ -41,14 +76,14 @@ export function ExportModal({ job, onClose }: ExportModalProps) {
 
   const handleExport = async () => {
     try {
-      const response = await fetch(`/api/export/${job.id}?format=${format}`);
+      const response = await fetch(getExportPath(format));
       if (!response.ok) throw new Error("Export failed");
 
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `smartframe-export-${job.id}.${format}`;
+      a.download = `smartframe-export-${job.id}.${FILE_EXTENSIONS[format]}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -137,6 +172,105 @@ export function ExportModal({ job, onClose }: ExportModalProps) {
                 </div>
               </div>
             </button>
+
+            <button
+              onClick={() => setFormat("xmp")}
+              className={cn(
+                "w-full flex items-center space-x-3 p-4 rounded-lg border transition-colors cursor-pointer",
+                format === "xmp"
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:border-primary/50"
+              )}
+              data-testid="radio-format-xmp"
+            >
+              <div className={cn(
+                "flex items-center justify-center w-5 h-5 rounded-full border-2",
+                format === "xmp"
+                  ? "border-primary bg-primary"
+                  : "border-muted-foreground"
+              )}>
+                {format === "xmp" && <Check className="w-3 h-3 text-primary-foreground" />}
+              </div>
+              <div className="flex items-center gap-3 flex-1">
+                <FileArchive className="w-5 h-5 text-primary" />
+                <div className="text-left">
+                  <p className="font-medium">XMP Sidecars</p>
+                  <p className="text-xs text-muted-foreground">
+                    ZIP of one .xmp file per image for Lightroom and other DAM tools
+                  </p>
+                </div>
+              </div>
+            </button>
+
+            <button
+              onClick={() => setFormat("zip")}
+              className={cn(
+                "w-full flex items-center space-x-3 p-4 rounded-lg border transition-colors cursor-pointer",
+                format === "zip"
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:border-primary/50"
+              )}
+              data-testid="radio-format-zip"
+            >
+              <div className={cn(
+                "flex items-center justify-center w-5 h-5 rounded-full border-2",
+                format === "zip"
+                  ? "border-primary bg-primary"
+                  : "border-muted-foreground"
+              )}>
+                {format === "zip" && <Check className="w-3 h-3 text-primary-foreground" />}
+              </div>
+              <div className="flex items-center gap-3 flex-1">
+                <Package className="w-5 h-5 text-primary" />
+                <div className="text-left">
+                  <p className="font-medium">ZIP Bundle</p>
+                  <p className="text-xs text-muted-foreground">
+                    CSV, JSON, extracted images and a checksum manifest
+                  </p>
+                </div>
+              </div>
+            </button>
+          </div>
+
+          {format === "zip" && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="includeXmp" className="text-sm font-medium">
+                  XMP Sidecars
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Add an .xmp file next to each image
+                </p>
+              </div>
+              <Switch
+                id="includeXmp"
+                checked={includeXmp}
+                onCheckedChange={setIncludeXmp}
+                data-testid="switch-include-xmp"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="captionTemplate" className="text-sm font-medium">
+              Caption Column
+            </Label>
+            <Select value={captionTemplate} onValueChange={setCaptionTemplate}>
+              <SelectTrigger id="captionTemplate" className="h-10" data-testid="select-caption-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CAPTION_TEMPLATE}>No caption column</SelectItem>
+                {templateData?.templates.map(({ name }) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Adds a caption rendered with one of the caption templates in scraper.config.json
+            </p>
           </div>
 
           <div className="bg-muted rounded-lg p-4">
@@ -150,6 +284,16 @@ export function ExportModal({ job, onClose }: ExportModalProps) {
   "totalImages": ${job.images?.length || 0},
   "images": [...]
 }`}</pre>
+              ) : format === "zip" ? (
+                <pre>{`smartframe-export-${job.id}.zip
+  smartframe-export-${job.id}.csv
+  smartframe-export-${job.id}.json
+  images/...
+  manifest.json`}</pre>
+              ) : format === "xmp" ? (
+                <pre>{`smartframe-xmp-${job.id}.zip
+  ${job.images?.[0]?.imageId || "..."}.xmp
+  ...`}</pre>
               ) : (
                 <pre>{`Image ID,Title,Authors,Subject,Tags
 "${job.images?.[0]?.smartframeId || "..."}","${job.images?.[0]?.titleField || "..."}","${job.images?.[0]?.authors || "..."}","${job.images?.[0]?.subjectField || "..."}","..."`}</pre>
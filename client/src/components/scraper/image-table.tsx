@@ -16,6 +16,11 @@ interface ImageTableProps {
   images: ScrapedImage[];
 }
 
+// Prefer the location as written on the page, else build it from city and country
+function formatLocation(image: ScrapedImage): string {
+  return image.location || [image.city, image.country].filter(Boolean).join(", ");
+}
+
 export function ImageTable({ images }: ImageTableProps) {
   const { toast } = useToast();
 
@@ -54,6 +59,10 @@ export function ImageTable({ images }: ImageTableProps) {
               <TableHead>Title</TableHead>
               <TableHead>Authors</TableHead>
               <TableHead>Subject</TableHead>
+              <TableHead>Featuring</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead>Content Partner</TableHead>
               <TableHead>Date Taken</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -78,6 +87,10 @@ export function ImageTable({ images }: ImageTableProps) {
                 <TableCell className="text-sm">{image.titleField || "—"}</TableCell>
                 <TableCell className="text-sm">{image.authors || "—"}</TableCell>
                 <TableCell className="text-sm">{image.subjectField || "—"}</TableCell>
+                <TableCell className="text-sm">{image.people?.join(", ") || image.featuring || "—"}</TableCell>
+                <TableCell className="text-sm">{image.event || "—"}</TableCell>
+                <TableCell className="text-sm">{formatLocation(image) || "—"}</TableCell>
+                <TableCell className="text-sm">{image.contentPartner || "—"}</TableCell>
                 <TableCell className="text-sm">{image.dateTaken || "—"}</TableCell>
                 <TableCell className="text-right">
                   <div className="flex items-center justify-end gap-2">
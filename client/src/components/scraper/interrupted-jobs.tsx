@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+
+interface InterruptedJob {
+  id: string;
+  url: string;
+  progress: number;
+  totalImages: number;
+  scrapedImages: number;
+  startedAt: string;
+}
+
+interface InterruptedJobsProps {
+  onSelect: (jobId: string) => void;
+}
+
+export function InterruptedJobs({ onSelect }: InterruptedJobsProps) {
+  const { data } = useQuery<{ jobs: InterruptedJob[] }>({
+    queryKey: ["/api/scrape/jobs/interrupted"],
+  });
+
+  if (!data || data.jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6" data-testid="card-interrupted-jobs">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-card-foreground">
+            Interrupted Jobs
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            These jobs were stopped by a server restart. Open one to resume or cancel it.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {data.jobs.map((job) => (
+            <div
+              key={job.id}
+              className="flex items-center justify-between gap-3 text-sm"
+              data-testid={`interrupted-job-${job.id}`}
+            >
+              <div className="min-w-0">
+                <p className="truncate text-foreground" title={job.url}>{job.url}</p>
+                <p className="text-xs text-muted-foreground">
+                  {job.scrapedImages} of {job.totalImages || "?"} images ({Math.round(job.progress)}%)
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 shrink-0"
+                onClick={() => onSelect(job.id)}
+                data-testid={`button-open-interrupted-${job.id}`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                Open
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -1,24 +1,59 @@
+import { useMutation } from "@tanstack/react-query";
 import { ScrapeJob } from "@shared/schema";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, CheckCircle2, AlertCircle, Pause, Play, Square } from "lucide-react";
 import { StatusBadge } from "./status-badge";
+import type { JobEventStats } from "@/hooks/use-job-events";
 
 interface ProgressIndicatorProps {
   job: ScrapeJob;
+  stats?: JobEventStats;
 }
 
-export function ProgressIndicator({ job }: ProgressIndicatorProps) {
+export function ProgressIndicator({ job, stats }: ProgressIndicatorProps) {
+  const { toast } = useToast();
+
+  const controlMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume" | "cancel") => {
+      await apiRequest("POST", `/api/scrape/job/${job.id}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      toast({
+        title: action === "cancel" ? "Cancelling Job" : action === "pause" ? "Pausing Job" : "Job Resumed",
+        description: action === "resume"
+          ? "Scraping continues from the next unprocessed image."
+          : "The job will stop after the current image finishes.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/scrape/job", job.id] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update job",
+        variant: "destructive",
+      });
+    },
+  });
+
   const Icon = job.status === "scraping" 
     ? Loader2 
     : job.status === "completed" 
     ? CheckCircle2 
+    : job.status === "paused"
+    ? Pause
     : AlertCircle;
 
   const iconColor = job.status === "scraping"
     ? "text-primary"
     : job.status === "completed"
     ? "text-success"
+    : job.status === "paused"
+    ? "text-muted-foreground"
     : "text-destructive";
 
   return (
@@ -43,6 +78,71 @@ export function ProgressIndicator({ job }: ProgressIndicatorProps) {
           </span>
         </div>
 
+        {stats && (stats.failedImages > 0 || stats.retryRound) && (
+          <div className="flex items-center gap-3 text-xs text-muted-foreground" data-testid="text-job-event-stats">
+            {stats.failedImages > 0 && (
+              <span>{stats.failedImages} image{stats.failedImages !== 1 ? "s" : ""} failed</span>
+            )}
+            {stats.retryRound && (
+              <span>Retry round {stats.retryRound.round}/{stats.retryRound.maxRounds}</span>
+            )}
+          </div>
+        )}
+
+        {stats && stats.tabThroughput.length > 1 && (
+          <div className="space-y-1 text-xs text-muted-foreground" data-testid="text-tab-throughput">
+            {stats.tabThroughput.map((tab) => (
+              <div key={tab.tab} className="flex items-center justify-between">
+                <span>Tab {tab.tab}</span>
+                <span>
+                  {tab.processed} images · {tab.imagesPerMinute}/min
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(job.status === "scraping" || job.status === "paused") && (
+          <div className="flex items-center gap-2">
+            {job.status === "scraping" ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => controlMutation.mutate("pause")}
+                disabled={controlMutation.isPending}
+                data-testid="button-pause-job"
+              >
+                <Pause className="w-4 h-4" />
+                Pause
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => controlMutation.mutate("resume")}
+                disabled={controlMutation.isPending}
+                data-testid="button-resume-job"
+              >
+                <Play className="w-4 h-4" />
+                Resume
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-destructive"
+              onClick={() => controlMutation.mutate("cancel")}
+              disabled={controlMutation.isPending}
+              data-testid="button-cancel-job"
+            >
+              <Square className="w-4 h-4" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
         {job.error && (
           <div className="text-xs text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/20">
             <p className="font-medium">Error:</p>
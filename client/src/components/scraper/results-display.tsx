@@ -1,8 +1,9 @@
 import { useState, useMemo } from "react";
-import { ScrapeJob } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { ScrapeJob, JobQualityReport } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Grid3x3, List, Search, Loader2 } from "lucide-react";
+import { Grid3x3, List, Search, Loader2, AlertTriangle } from "lucide-react";
 import { ImageGrid } from "./image-grid";
 import { ImageTable } from "./image-table";
 
@@ -14,9 +15,23 @@ interface ResultsDisplayProps {
 
 export function ResultsDisplay({ job, viewMode, onViewModeChange }: ResultsDisplayProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [lowQualityOnly, setLowQualityOnly] = useState(false);
+
+  // Scored on the server, since duplicate captions are found across the whole job
+  const { data: qualityReport, isFetching: isFetchingQuality } = useQuery<JobQualityReport>({
+    queryKey: ["/api/scrape/job", job.id, "quality"],
+    enabled: lowQualityOnly,
+    staleTime: 0,
+  });
+
+  const lowQualityIds = useMemo(
+    () => new Set(qualityReport?.images.map((image) => image.imageId)),
+    [qualityReport]
+  );
 
   const filteredImages = useMemo(() => {
     return job.images?.filter((image) => {
+      if (lowQualityOnly && !lowQualityIds.has(image.imageId)) return false;
       if (!searchQuery) return true;
       const query = searchQuery.toLowerCase();
       return (
@@ -28,7 +43,7 @@ export function ResultsDisplay({ job, viewMode, onViewModeChange }: ResultsDispl
         image.tags?.toLowerCase().includes(query)
       );
     }) || [];
-  }, [job.images, searchQuery]);
+  }, [job.images, searchQuery, lowQualityOnly, lowQualityIds]);
 
   if (job.status === "error") {
     return (
@@ -117,6 +132,23 @@ export function ResultsDisplay({ job, viewMode, onViewModeChange }: ResultsDispl
               {job.status === "scraping" && " (updating...)"}
             </span>
             
+            <Button
+              variant={lowQualityOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setLowQualityOnly(!lowQualityOnly)}
+              data-testid="button-filter-low-quality"
+              title={qualityReport
+                ? `${qualityReport.lowQualityImages} of ${qualityReport.totalImages} images score below ${qualityReport.threshold}`
+                : "Show only images with missing, garbled or duplicate metadata"}
+            >
+              {isFetchingQuality ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 mr-2" />
+              )}
+              Low quality
+            </Button>
+
             {/* View Mode Buttons */}
             <Button
               variant={viewMode === "grid" ? "default" : "outline"}
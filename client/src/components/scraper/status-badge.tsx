@@ -9,7 +9,9 @@ export function StatusBadge({ status }: StatusBadgeProps) {
   const variants = {
     pending: { label: "Pending", className: "bg-muted text-muted-foreground" },
     scraping: { label: "Scraping", className: "bg-primary text-primary-foreground" },
+    paused: { label: "Paused", className: "bg-muted text-foreground" },
     completed: { label: "Complete", className: "bg-success text-success-foreground" },
+    cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
     error: { label: "Error", className: "bg-destructive text-destructive-foreground" },
   };
 
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { JobEvent, ScrapeJob } from "@shared/schema";
+
+// Statuses after which the server sends no further events for the job
+const FINAL_STATUSES: ScrapeJob["status"][] = ["completed", "cancelled", "error"];
+
+type TabThroughputEvent = Extract<JobEvent, { type: "tab-throughput" }>;
+
+export interface JobEventStats {
+  failedImages: number;
+  retryRound: { round: number; maxRounds: number } | null;
+  tabThroughput: TabThroughputEvent["tabs"];
+}
+
+const INITIAL_STATS: JobEventStats = { failedImages: 0, retryRound: null, tabThroughput: [] };
+
+/**
+ * Subscribe to the SSE stream of a job and apply its events to the cached job query,
+ * replacing full-job polling while the job runs.
+ */
+export function useJobEvents(jobId: string | null): JobEventStats {
+  const [stats, setStats] = useState<JobEventStats>(INITIAL_STATS);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    setStats(INITIAL_STATS);
+
+    const queryKey = ["/api/scrape/job", jobId];
+    const source = new EventSource(`/api/scrape/job/${jobId}/events`);
+
+    const updateJob = (update: (job: ScrapeJob) => ScrapeJob) => {
+      queryClient.setQueryData<ScrapeJob>(queryKey, (job) => (job ? update(job) : job));
+    };
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as JobEvent;
+
+      switch (event.type) {
+        case "status":
+          updateJob((job) => ({ ...job, status: event.status, error: event.error ?? job.error }));
+          if (FINAL_STATUSES.includes(event.status)) {
+            // Load the final image set once, then stop listening
+            source.close();
+            queryClient.invalidateQueries({ queryKey });
+          }
+          break;
+        case "progress":
+          updateJob((job) => ({
+            ...job,
+            progress: event.progress,
+            scrapedImages: event.scrapedImages,
+            totalImages: event.totalImages,
+          }));
+          break;
+        case "image-added":
+          updateJob((job) =>
+            job.images.some((image) => image.imageId === event.image.imageId)
+              ? job
+              : { ...job, images: [...job.images, event.image] }
+          );
+          break;
+        case "image-failed":
+          setStats((current) => ({ ...current, failedImages: current.failedImages + 1 }));
+          break;
+        case "retry-round-started":
+          setStats((current) => ({
+            ...current,
+            retryRound: { round: event.round, maxRounds: event.maxRounds },
+          }));
+          break;
+        case "tab-throughput":
+          setStats((current) => ({ ...current, tabThroughput: event.tabs }));
+          break;
+        case "completed":
+          updateJob((job) => ({
+            ...job,
+            status: "completed",
+            scrapedImages: event.scrapedImages,
+            completedAt: event.completedAt,
+          }));
+          break;
+      }
+    };
+
+    const eventTypes: JobEvent["type"][] = [
+      "status",
+      "progress",
+      "image-added",
+      "image-failed",
+      "retry-round-started",
+      "tab-throughput",
+      "completed",
+    ];
+    for (const type of eventTypes) {
+      source.addEventListener(type, handleEvent as EventListener);
+    }
+
+    return () => source.close();
+  }, [jobId]);
+
+  return stats;
+}
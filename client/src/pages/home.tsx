@@ -5,10 +5,12 @@ import { ConfigPanel } from "@/components/scraper/config-panel";
 import { ProgressIndicator } from "@/components/scraper/progress-indicator";
 import { ResultsDisplay } from "@/components/scraper/results-display";
 import { ExportModal } from "@/components/scraper/export-modal";
+import { InterruptedJobs } from "@/components/scraper/interrupted-jobs";
 import { ScrapeConfig, ScrapeJob } from "@shared/schema";
 import { Globe, Download, FileSpreadsheet, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
 
 export default function Home() {
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
@@ -21,23 +23,22 @@ export default function Home() {
     sortBy: "relevance",
     autoScroll: true,
     scrollDelay: 1000,
-    concurrency: 5,
+    concurrency: 1,
     canvasExtraction: "none",
   });
   const previousJobStatusRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const { data: currentJob, refetch } = useQuery<ScrapeJob>({
+  const { data: currentJob } = useQuery<ScrapeJob>({
     queryKey: ["/api/scrape/job", currentJobId],
     enabled: !!currentJobId,
-    refetchInterval: (query) => {
-      const job = query.state.data;
-      return job?.status === "scraping" ? 1000 : false;
-    },
     refetchOnWindowFocus: true,
     staleTime: 0,
   });
 
+  // Live updates are pushed over SSE instead of polling the full job
+  const jobEventStats = useJobEvents(currentJobId);
+
   const handleStartScrape = useCallback((jobIds: string[]) => {
     if (jobIds.length > 0) {
       setCurrentJobId(jobIds[0]);
@@ -126,8 +127,12 @@ export default function Home() {
               )}
             </div>
 
-            {currentJob && currentJob.status === "scraping" && (
-              <ProgressIndicator job={currentJob} />
+            {currentJob && (currentJob.status === "scraping" || currentJob.status === "paused") && (
+              <ProgressIndicator job={currentJob} stats={jobEventStats} />
+            )}
+
+            {!currentJobId && (
+              <InterruptedJobs onSelect={(jobId) => handleStartScrape([jobId])} />
             )}
           </div>
 
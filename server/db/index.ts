@@ -66,6 +66,8 @@ if (!usePostgres) {
       CREATE TABLE IF NOT EXISTS scrape_jobs (
         id TEXT PRIMARY KEY,
         url TEXT NOT NULL,
+        effective_url TEXT,
+        schedule_id TEXT,
         status TEXT NOT NULL,
         progress INTEGER NOT NULL DEFAULT 0,
         total_images INTEGER NOT NULL DEFAULT 0,
@@ -95,6 +97,17 @@ if (!usePostgres) {
         authors TEXT,
         date_taken TEXT,
         copyright TEXT,
+        city TEXT,
+        country TEXT,
+        location TEXT,
+        event TEXT,
+        content_partner TEXT,
+        featuring TEXT,
+        people TEXT,
+        date_taken_edtf TEXT,
+        rights TEXT,
+        canvas_image_path TEXT,
+        raw_metadata TEXT,
         created_at INTEGER NOT NULL DEFAULT (unixepoch()),
         FOREIGN KEY (job_id) REFERENCES scrape_jobs(id) ON DELETE CASCADE,
         UNIQUE(job_id, image_id)
@@ -103,6 +116,115 @@ if (!usePostgres) {
       CREATE INDEX IF NOT EXISTS scraped_images_job_id_idx ON scraped_images(job_id);
       CREATE INDEX IF NOT EXISTS scraped_images_image_id_idx ON scraped_images(image_id);
       CREATE INDEX IF NOT EXISTS scraped_images_image_id_job_id_idx ON scraped_images(image_id, job_id);
+      
+      CREATE TABLE IF NOT EXISTS scrape_job_links (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        image_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        thumbnail_url TEXT,
+        position INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (job_id) REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+        UNIQUE(job_id, image_id)
+      );
+      
+      CREATE INDEX IF NOT EXISTS scrape_job_links_job_id_idx ON scrape_job_links(job_id);
+      CREATE INDEX IF NOT EXISTS scrape_job_links_job_id_status_idx ON scrape_job_links(job_id, status);
+      
+      CREATE TABLE IF NOT EXISTS scheduled_scrapes (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        config TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_run_at INTEGER,
+        next_run_at INTEGER,
+        last_job_id TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch())
+      );
+      
+      CREATE INDEX IF NOT EXISTS scheduled_scrapes_enabled_next_run_idx ON scheduled_scrapes(enabled, next_run_at);
+      
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_status_code INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        delivered_at INTEGER,
+        FOREIGN KEY (job_id) REFERENCES scrape_jobs(id) ON DELETE CASCADE
+      );
+      
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_job_id_idx ON webhook_deliveries(job_id);
+      
+      CREATE TABLE IF NOT EXISTS images (
+        image_id TEXT PRIMARY KEY,
+        hash TEXT NOT NULL,
+        url TEXT NOT NULL,
+        copy_link TEXT NOT NULL,
+        smartframe_id TEXT NOT NULL,
+        thumbnail_url TEXT,
+        title_field TEXT,
+        subject_field TEXT,
+        tags TEXT,
+        comments TEXT,
+        authors TEXT,
+        date_taken TEXT,
+        copyright TEXT,
+        city TEXT,
+        country TEXT,
+        location TEXT,
+        event TEXT,
+        content_partner TEXT,
+        featuring TEXT,
+        people TEXT,
+        date_taken_edtf TEXT,
+        rights TEXT,
+        canvas_image_path TEXT,
+        raw_metadata TEXT,
+        first_seen_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        last_seen_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        last_changed_at INTEGER
+      );
+      
+      CREATE INDEX IF NOT EXISTS images_last_seen_at_idx ON images(last_seen_at);
+      
+      CREATE TABLE IF NOT EXISTS job_images (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        image_id TEXT NOT NULL,
+        added_at INTEGER NOT NULL DEFAULT (cast(unixepoch('subsec') * 1000 as integer)),
+        FOREIGN KEY (job_id) REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+        UNIQUE(job_id, image_id)
+      );
+      
+      CREATE INDEX IF NOT EXISTS job_images_image_id_idx ON job_images(image_id);
+      
+      CREATE TABLE IF NOT EXISTS image_revisions (
+        id TEXT PRIMARY KEY,
+        image_id TEXT NOT NULL,
+        title_field TEXT,
+        subject_field TEXT,
+        tags TEXT,
+        comments TEXT,
+        authors TEXT,
+        date_taken TEXT,
+        copyright TEXT,
+        label_values TEXT,
+        caption TEXT,
+        changes TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (cast(unixepoch('subsec') * 1000 as integer))
+      );
+      
+      CREATE INDEX IF NOT EXISTS image_revisions_image_id_created_at_idx ON image_revisions(image_id, created_at);
     `);
   } catch (error) {
     console.error("❌ Failed to create SQLite database tables");
@@ -177,6 +299,46 @@ if (!usePostgres) {
     // Continue anyway - table might be new
   }
   
+  // Migration: add columns introduced after a database was created
+  const addColumnIfMissing = (table: string, column: string, definition: string) => {
+    const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(existing => existing.name === column)) {
+      sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`🔄 Added column ${table}.${column}`);
+    }
+  };
+  
+  try {
+    addColumnIfMissing("scraped_images", "canvas_image_path", "TEXT");
+    addColumnIfMissing("scrape_jobs", "effective_url", "TEXT");
+    addColumnIfMissing("scrape_jobs", "schedule_id", "TEXT");
+    sqlite.exec(`CREATE INDEX IF NOT EXISTS scrape_jobs_schedule_id_idx ON scrape_jobs(schedule_id)`);
+    addColumnIfMissing("images", "last_changed_at", "INTEGER");
+    addColumnIfMissing("scraped_images", "raw_metadata", "TEXT");
+    addColumnIfMissing("images", "raw_metadata", "TEXT");
+    for (const column of ["city", "country", "location", "event", "content_partner", "featuring"]) {
+      addColumnIfMissing("scraped_images", column, "TEXT");
+      addColumnIfMissing("images", column, "TEXT");
+    }
+    addColumnIfMissing("scraped_images", "people", "TEXT");
+    addColumnIfMissing("images", "people", "TEXT");
+    addColumnIfMissing("scraped_images", "date_taken_edtf", "TEXT");
+    addColumnIfMissing("images", "date_taken_edtf", "TEXT");
+    addColumnIfMissing("scraped_images", "rights", "TEXT");
+    addColumnIfMissing("images", "rights", "TEXT");
+    addColumnIfMissing("image_revisions", "caption", "TEXT");
+    sqlite.exec(`CREATE INDEX IF NOT EXISTS images_last_changed_at_idx ON images(last_changed_at)`);
+    // Job memberships and revisions moved from second to millisecond timestamps
+    // (values below 10^11 are still seconds: as milliseconds they would be in 1973)
+    sqlite.exec(`
+      UPDATE job_images SET added_at = added_at * 1000 WHERE added_at < 100000000000;
+      UPDATE image_revisions SET created_at = created_at * 1000 WHERE created_at < 100000000000;
+    `);
+  } catch (error) {
+    console.error("❌ Failed to add missing SQLite columns:", error);
+    process.exit(1);
+  }
+  
   console.log("✅ SQLite database ready");
 }
 
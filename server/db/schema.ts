@@ -1,8 +1,10 @@
-import { pgTable, text, integer, timestamp, jsonb, index, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, boolean, timestamp, jsonb, index, unique } from "drizzle-orm/pg-core";
 
 export const scrapeJobs = pgTable("scrape_jobs", {
   id: text("id").primaryKey(),
   url: text("url").notNull(),
+  effectiveUrl: text("effective_url"),
+  scheduleId: text("schedule_id"),
   status: text("status").notNull(),
   progress: integer("progress").notNull().default(0),
   totalImages: integer("total_images").notNull().default(0),
@@ -14,6 +16,7 @@ export const scrapeJobs = pgTable("scrape_jobs", {
 }, (table) => ({
   statusIdx: index("scrape_jobs_status_idx").on(table.status),
   startedAtIdx: index("scrape_jobs_started_at_idx").on(table.startedAt),
+  scheduleIdIdx: index("scrape_jobs_schedule_id_idx").on(table.scheduleId),
 }));
 
 export const scrapedImages = pgTable("scraped_images", {
@@ -35,6 +38,23 @@ export const scrapedImages = pgTable("scraped_images", {
   dateTaken: text("date_taken"),
   copyright: text("copyright"),
   
+  // Structured location, event and credit fields
+  city: text("city"),
+  country: text("country"),
+  location: text("location"),
+  event: text("event"),
+  contentPartner: text("content_partner"),
+  featuring: text("featuring"),
+  people: jsonb("people"),
+  dateTakenEdtf: text("date_taken_edtf"),
+  rights: jsonb("rights"),
+  
+  // Local path of the extracted canvas image (null when canvas extraction was off or failed)
+  canvasImagePath: text("canvas_image_path"),
+  
+  // Raw page metadata the clean fields were derived from (for re-normalization)
+  rawMetadata: jsonb("raw_metadata"),
+  
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   jobIdIdx: index("scraped_images_job_id_idx").on(table.jobId),
@@ -42,3 +62,128 @@ export const scrapedImages = pgTable("scraped_images", {
   imageIdJobIdIdx: index("scraped_images_image_id_job_id_idx").on(table.imageId, table.jobId),
   uniqueJobImage: unique("scraped_images_job_id_image_id_unique").on(table.jobId, table.imageId),
 }));
+
+export const scrapeJobLinks = pgTable("scrape_job_links", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  imageId: text("image_id").notNull(),
+  url: text("url").notNull(),
+  hash: text("hash").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  position: integer("position").notNull(),
+  
+  // Per-link processing state: pending | done | failed
+  status: text("status").notNull().default("pending"),
+  
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  jobIdIdx: index("scrape_job_links_job_id_idx").on(table.jobId),
+  jobIdStatusIdx: index("scrape_job_links_job_id_status_idx").on(table.jobId, table.status),
+  uniqueJobImage: unique("scrape_job_links_job_id_image_id_unique").on(table.jobId, table.imageId),
+}));
+
+export const scheduledScrapes = pgTable("scheduled_scrapes", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  cron: text("cron").notNull(),
+  config: jsonb("config").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at"),
+  lastJobId: text("last_job_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  enabledNextRunIdx: index("scheduled_scrapes_enabled_next_run_idx").on(table.enabled, table.nextRunAt),
+}));
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  url: text("url").notNull(),
+  payload: jsonb("payload").notNull(),
+  
+  // Delivery state: pending | delivered | failed
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => ({
+  jobIdIdx: index("webhook_deliveries_job_id_idx").on(table.jobId),
+}));
+
+// Canonical record of every SmartFrame image, shared by all jobs
+export const images = pgTable("images", {
+  imageId: text("image_id").primaryKey(),
+  hash: text("hash").notNull(),
+  url: text("url").notNull(),
+  copyLink: text("copy_link").notNull(),
+  smartframeId: text("smartframe_id").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  titleField: text("title_field"),
+  subjectField: text("subject_field"),
+  tags: text("tags"),
+  comments: text("comments"),
+  authors: text("authors"),
+  dateTaken: text("date_taken"),
+  copyright: text("copyright"),
+  city: text("city"),
+  country: text("country"),
+  location: text("location"),
+  event: text("event"),
+  contentPartner: text("content_partner"),
+  featuring: text("featuring"),
+  people: jsonb("people"),
+  dateTakenEdtf: text("date_taken_edtf"),
+  rights: jsonb("rights"),
+  canvasImagePath: text("canvas_image_path"),
+  rawMetadata: jsonb("raw_metadata"),
+  firstSeenAt: timestamp("first_seen_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  // Last time a re-scrape found different metadata
+  lastChangedAt: timestamp("last_changed_at"),
+}, (table) => ({
+  lastSeenAtIdx: index("images_last_seen_at_idx").on(table.lastSeenAt),
+  lastChangedAtIdx: index("images_last_changed_at_idx").on(table.lastChangedAt),
+}));
+
+// Which images belong to which job (image_id is not a foreign key: images whose
+// extraction failed are job members without a catalog record)
+export const jobImages = pgTable("job_images", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  imageId: text("image_id").notNull(),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => ({
+  imageIdIdx: index("job_images_image_id_idx").on(table.imageId),
+  uniqueJobImage: unique("job_images_job_id_image_id_unique").on(table.jobId, table.imageId),
+}));
+
+// Every distinct scraped version of an image's metadata (first scrape plus each change)
+export const imageRevisions = pgTable("image_revisions", {
+  id: text("id").primaryKey(),
+  imageId: text("image_id").notNull(),
+  titleField: text("title_field"),
+  subjectField: text("subject_field"),
+  tags: text("tags"),
+  comments: text("comments"),
+  authors: text("authors"),
+  dateTaken: text("date_taken"),
+  copyright: text("copyright"),
+  
+  // Raw SmartFrame label/value pairs (null when the version was not scraped from a page)
+  labelValues: jsonb("label_values"),
+  
+  // Raw SmartFrame caption (null when the version was not scraped from a page)
+  caption: text("caption"),
+  
+  // Field-level diff against the previous revision (empty for the first one)
+  changes: jsonb("changes").notNull(),
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  imageIdCreatedAtIdx: index("image_revisions_image_id_created_at_idx").on(table.imageId, table.createdAt),
+}));
@@ -4,6 +4,8 @@ import { sql } from "drizzle-orm";
 export const scrapeJobs = sqliteTable("scrape_jobs", {
   id: text("id").primaryKey(),
   url: text("url").notNull(),
+  effectiveUrl: text("effective_url"),
+  scheduleId: text("schedule_id"),
   status: text("status").notNull(),
   progress: integer("progress").notNull().default(0),
   totalImages: integer("total_images").notNull().default(0),
@@ -15,6 +17,7 @@ export const scrapeJobs = sqliteTable("scrape_jobs", {
 }, (table) => ({
   statusIdx: index("scrape_jobs_status_idx").on(table.status),
   startedAtIdx: index("scrape_jobs_started_at_idx").on(table.startedAt),
+  scheduleIdIdx: index("scrape_jobs_schedule_id_idx").on(table.scheduleId),
 }));
 
 export const scrapedImages = sqliteTable("scraped_images", {
@@ -36,6 +39,23 @@ export const scrapedImages = sqliteTable("scraped_images", {
   dateTaken: text("date_taken"),
   copyright: text("copyright"),
   
+  // Structured location, event and credit fields
+  city: text("city"),
+  country: text("country"),
+  location: text("location"),
+  event: text("event"),
+  contentPartner: text("content_partner"),
+  featuring: text("featuring"),
+  people: text("people", { mode: "json" }),
+  dateTakenEdtf: text("date_taken_edtf"),
+  rights: text("rights", { mode: "json" }),
+  
+  // Local path of the extracted canvas image (null when canvas extraction was off or failed)
+  canvasImagePath: text("canvas_image_path"),
+  
+  // Raw page metadata the clean fields were derived from (for re-normalization)
+  rawMetadata: text("raw_metadata", { mode: "json" }),
+  
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
 }, (table) => ({
   jobIdIdx: index("scraped_images_job_id_idx").on(table.jobId),
@@ -43,3 +63,130 @@ export const scrapedImages = sqliteTable("scraped_images", {
   imageIdJobIdIdx: index("scraped_images_image_id_job_id_idx").on(table.imageId, table.jobId),
   uniqueJobImage: unique("scraped_images_job_id_image_id_unique").on(table.jobId, table.imageId),
 }));
+
+export const scrapeJobLinks = sqliteTable("scrape_job_links", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  imageId: text("image_id").notNull(),
+  url: text("url").notNull(),
+  hash: text("hash").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  position: integer("position").notNull(),
+  
+  // Per-link processing state: pending | done | failed
+  status: text("status").notNull().default("pending"),
+  
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  jobIdIdx: index("scrape_job_links_job_id_idx").on(table.jobId),
+  jobIdStatusIdx: index("scrape_job_links_job_id_status_idx").on(table.jobId, table.status),
+  uniqueJobImage: unique("scrape_job_links_job_id_image_id_unique").on(table.jobId, table.imageId),
+}));
+
+export const scheduledScrapes = sqliteTable("scheduled_scrapes", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  cron: text("cron").notNull(),
+  config: text("config", { mode: "json" }).notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  lastRunAt: integer("last_run_at", { mode: "timestamp" }),
+  nextRunAt: integer("next_run_at", { mode: "timestamp" }),
+  lastJobId: text("last_job_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => ({
+  enabledNextRunIdx: index("scheduled_scrapes_enabled_next_run_idx").on(table.enabled, table.nextRunAt),
+}));
+
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  url: text("url").notNull(),
+  payload: text("payload", { mode: "json" }).notNull(),
+  
+  // Delivery state: pending | delivered | failed
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+}, (table) => ({
+  jobIdIdx: index("webhook_deliveries_job_id_idx").on(table.jobId),
+}));
+
+// Canonical record of every SmartFrame image, shared by all jobs
+export const images = sqliteTable("images", {
+  imageId: text("image_id").primaryKey(),
+  hash: text("hash").notNull(),
+  url: text("url").notNull(),
+  copyLink: text("copy_link").notNull(),
+  smartframeId: text("smartframe_id").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  titleField: text("title_field"),
+  subjectField: text("subject_field"),
+  tags: text("tags"),
+  comments: text("comments"),
+  authors: text("authors"),
+  dateTaken: text("date_taken"),
+  copyright: text("copyright"),
+  city: text("city"),
+  country: text("country"),
+  location: text("location"),
+  event: text("event"),
+  contentPartner: text("content_partner"),
+  featuring: text("featuring"),
+  people: text("people", { mode: "json" }),
+  dateTakenEdtf: text("date_taken_edtf"),
+  rights: text("rights", { mode: "json" }),
+  canvasImagePath: text("canvas_image_path"),
+  rawMetadata: text("raw_metadata", { mode: "json" }),
+  firstSeenAt: integer("first_seen_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  lastSeenAt: integer("last_seen_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  // Last time a re-scrape found different metadata
+  lastChangedAt: integer("last_changed_at", { mode: "timestamp" }),
+}, (table) => ({
+  lastSeenAtIdx: index("images_last_seen_at_idx").on(table.lastSeenAt),
+  lastChangedAtIdx: index("images_last_changed_at_idx").on(table.lastChangedAt),
+}));
+
+// Which images belong to which job (image_id is not a foreign key: images whose
+// extraction failed are job members without a catalog record)
+export const jobImages = sqliteTable("job_images", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => scrapeJobs.id, { onDelete: "cascade" }),
+  imageId: text("image_id").notNull(),
+  // Milliseconds, so an image's jobs still sort in order when they were added within the same second
+  addedAt: integer("added_at", { mode: "timestamp_ms" }).notNull().default(sql`(cast(unixepoch('subsec') * 1000 as integer))`),
+}, (table) => ({
+  imageIdIdx: index("job_images_image_id_idx").on(table.imageId),
+  uniqueJobImage: unique("job_images_job_id_image_id_unique").on(table.jobId, table.imageId),
+}));
+
+// Every distinct scraped version of an image's metadata (first scrape plus each change)
+export const imageRevisions = sqliteTable("image_revisions", {
+  id: text("id").primaryKey(),
+  imageId: text("image_id").notNull(),
+  titleField: text("title_field"),
+  subjectField: text("subject_field"),
+  tags: text("tags"),
+  comments: text("comments"),
+  authors: text("authors"),
+  dateTaken: text("date_taken"),
+  copyright: text("copyright"),
+  
+  // Raw SmartFrame label/value pairs (null when the version was not scraped from a page)
+  labelValues: text("label_values", { mode: "json" }),
+  
+  // Raw SmartFrame caption (null when the version was not scraped from a page)
+  caption: text("caption"),
+  
+  // Field-level diff against the previous revision (empty for the first one)
+  changes: text("changes", { mode: "json" }).notNull(),
+  
+  // Milliseconds, so the latest revision is unambiguous when two are recorded within the same second
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull().default(sql`(cast(unixepoch('subsec') * 1000 as integer))`),
+}, (table) => ({
+  imageIdCreatedAtIdx: index("image_revisions_image_id_created_at_idx").on(table.imageId, table.createdAt),
+}));
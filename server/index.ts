@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupLogging, setupErrorHandlers, flushLogs } from "./utils/logging-setup";
+import { scraper } from "./scraper";
+import { scrapeScheduler } from "./scheduler";
 
 // Initialize queue-based logging first (before any other operations)
 setupLogging();
@@ -78,6 +80,16 @@ app.use((req, res, next) => {
   // Fixed: Removed reusePort option for Windows compatibility
   const httpServer = server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
+
+    // Register the caption locale packs before any job parses captions
+    scraper.getLocales();
+
+    // Jobs left running by a previous process are marked paused so they can be resumed
+    scraper.recoverInterruptedJobs().catch((error) => {
+      console.error("Failed to recover interrupted jobs:", error);
+    });
+
+    scrapeScheduler.start();
   });
 
   // Graceful shutdown with log flushing
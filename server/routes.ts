@@ -3,8 +3,35 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { scraper } from "./scraper";
 import { scrapeRateLimiter } from "./rate-limiter";
-import { scrapeConfigSchema } from "@shared/schema";
+import {
+  scrapeConfigSchema,
+  jobImagesQuerySchema,
+  catalogImagesQuerySchema,
+  renormalizeJobRequestSchema,
+  labelMappingRulesSchema,
+  personAliasesSchema,
+  tagTaxonomySchema,
+  tagReportQuerySchema,
+  jobQualityQuerySchema,
+  insertScheduledScrapeSchema,
+  updateScheduledScrapeSchema,
+  type JobEvent,
+  type JobWebhooks,
+  type ScrapeJob,
+  type ScrapedImage,
+} from "@shared/schema";
 import { stringify } from "csv-stringify/sync";
+import { jobEventBus } from "./utils/job-events";
+import { scrapeScheduler } from "./scheduler";
+import { buildQualityReport } from "./utils/metadata-quality";
+import { buildXmpSidecar, xmpSidecarName } from "./utils/xmp-sidecar";
+import { ZipWriter } from "./utils/zip-writer";
+import { uniqueEntryNames, writeExportBundle } from "./utils/export-bundle";
+import { peopleIncludes } from "./utils/person-names";
+import { captionDataFromImage, compileCaptionTemplate, renderCaptionTemplate } from "./utils/caption-generator";
+import { getWebhookUrlError } from "./utils/webhook-targets";
+
+const SSE_HEARTBEAT_INTERVAL_MS = 15000;
 
 /**
  * Helper to get error message from unknown error
@@ -13,6 +40,122 @@ function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "Unknown error";
 }
 
+/**
+ * Helper to turn a cron parse failure into a 400 message (null when the expression is valid)
+ */
+function getCronError(cron: string): string | null {
+  try {
+    scrapeScheduler.computeNextRun(cron, true);
+    return null;
+  } catch (error: unknown) {
+    return `Invalid cron expression: ${getErrorMessage(error)}`;
+  }
+}
+
+/**
+ * Helper to reject webhook URLs that use other schemes or target private addresses
+ * (null when every URL may be used)
+ */
+function getWebhooksError(webhooks: JobWebhooks | undefined): string | null {
+  const allowedHosts = scraper.getWebhookAllowedHosts();
+  for (const url of webhooks?.urls ?? []) {
+    const error = getWebhookUrlError(url, allowedHosts);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Helper to check a job's caption locale override against the registered locale packs
+ */
+function isKnownLocale(code: string): boolean {
+  return scraper.getLocales().some((locale) => locale.code === code);
+}
+
+/**
+ * Helper to build the CSV export of a job's images (with a caption column when a template renders one)
+ */
+function buildCsvExport(images: ScrapedImage[], renderCaption?: (image: ScrapedImage) => string): string {
+  // Map to include ImageID, Page URL, Copy Link, and all metadata fields
+  const csvExportData = images.map(img => ({
+    imageId: img.imageId,
+    url: img.url,
+    copyLink: img.copyLink,
+    titleField: img.titleField,
+    subjectField: img.subjectField,
+    tags: img.tags,
+    comments: img.comments,
+    authors: img.authors,
+    dateTaken: img.dateTaken,
+    dateTakenEdtf: img.dateTakenEdtf ?? null,
+    copyright: img.copyright,
+    rightsHolder: img.rights?.rightsHolder ?? null,
+    rightsYear: img.rights?.year ?? null,
+    agency: img.rights?.agency ?? null,
+    creditLine: img.rights?.creditLine ?? null,
+    usageTerms: img.rights?.usageTerms.join("; ") || null,
+    restrictions: img.rights?.restrictions.join("; ") || null,
+    embargoUntil: img.rights?.embargoUntil ?? null,
+    city: img.city,
+    country: img.country,
+    location: img.location,
+    event: img.event,
+    contentPartner: img.contentPartner,
+    featuring: img.featuring,
+    people: img.people?.join("; ") ?? null,
+    caption: renderCaption?.(img),
+  }));
+
+  // Export with all columns including identifiers and metadata
+  return stringify(csvExportData, {
+    header: true,
+    columns: [
+      { key: "imageId", header: "ImageID" },
+      { key: "url", header: "Page URL" },
+      { key: "copyLink", header: "Copy Link" },
+      { key: "titleField", header: "Title Field" },
+      { key: "subjectField", header: "Subject Field" },
+      { key: "tags", header: "Tags" },
+      { key: "comments", header: "Comments" },
+      { key: "authors", header: "Authors" },
+      { key: "dateTaken", header: "Date Taken" },
+      { key: "dateTakenEdtf", header: "Date Taken (EDTF)" },
+      { key: "copyright", header: "Copyright" },
+      { key: "rightsHolder", header: "Rights Holder" },
+      { key: "rightsYear", header: "Rights Year" },
+      { key: "agency", header: "Agency" },
+      { key: "creditLine", header: "Credit Line" },
+      { key: "usageTerms", header: "Usage Terms" },
+      { key: "restrictions", header: "Restrictions" },
+      { key: "embargoUntil", header: "Embargo Until" },
+      { key: "city", header: "City" },
+      { key: "country", header: "Country" },
+      { key: "location", header: "Location" },
+      { key: "event", header: "Event" },
+      { key: "contentPartner", header: "Content Partner" },
+      { key: "featuring", header: "Featuring" },
+      { key: "people", header: "People" },
+      ...(renderCaption ? [{ key: "caption", header: "Caption" }] : []),
+    ],
+  });
+}
+
+/**
+ * Helper to build the JSON export of a job
+ */
+function buildJsonExport(job: ScrapeJob, renderCaption?: (image: ScrapedImage) => string) {
+  return {
+    jobId: job.id,
+    url: job.url,
+    totalImages: job.images.length,
+    scrapedAt: job.startedAt,
+    completedAt: job.completedAt,
+    images: renderCaption
+      ? job.images.map(img => ({ ...img, caption: renderCaption(img) }))
+      : job.images,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/scrape/bulk", async (req, res) => {
     try {
@@ -49,6 +192,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Maximum 50 URLs allowed per bulk request" });
       }
 
+      if (req.body.captionLocale && !isKnownLocale(req.body.captionLocale)) {
+        return res.status(400).json({ error: `Unknown caption locale "${req.body.captionLocale}"` });
+      }
+
+      const webhooksError = getWebhooksError(req.body.webhooks);
+      if (webhooksError) {
+        return res.status(400).json({ error: webhooksError });
+      }
+
       const jobs = [];
       
       for (const url of uniqueUrls) {
@@ -59,8 +211,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           sortBy: req.body.sortBy || "relevance",
           autoScroll: req.body.autoScroll !== false,
           scrollDelay: req.body.scrollDelay || 1000,
-          concurrency: req.body.concurrency || 5,
+          concurrency: req.body.concurrency || 1,
           canvasExtraction: req.body.canvasExtraction || "none",
+          metadataMode: req.body.metadataMode || "browser",
+          filters: req.body.filters,
+          webhooks: req.body.webhooks,
+          recheckKnownImages: req.body.recheckKnownImages === true,
+          captionLocale: req.body.captionLocale || undefined,
         });
 
         const job = await storage.createScrapeJob(url, config);
@@ -117,10 +274,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sortBy: req.body.sortBy || "relevance",
         autoScroll: req.body.autoScroll !== false,
         scrollDelay: req.body.scrollDelay || 1000,
-        concurrency: req.body.concurrency || 5,
+        concurrency: req.body.concurrency || 1,
         canvasExtraction: req.body.canvasExtraction || "none",
+        metadataMode: req.body.metadataMode || "browser",
+        filters: req.body.filters,
+        webhooks: req.body.webhooks,
+        recheckKnownImages: req.body.recheckKnownImages === true,
+        captionLocale: req.body.captionLocale || undefined,
       });
 
+      if (config.captionLocale && !isKnownLocale(config.captionLocale)) {
+        return res.status(400).json({ error: `Unknown caption locale "${config.captionLocale}"` });
+      }
+
+      const webhooksError = getWebhooksError(config.webhooks);
+      if (webhooksError) {
+        return res.status(400).json({ error: webhooksError });
+      }
+
       const job = await storage.createScrapeJob(url, config);
 
       scraper.scrape(job.id, url, config).catch((error) => {
@@ -154,6 +325,405 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/scrape/job/:jobId/images", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const parsedQuery = jobImagesQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        const issue = parsedQuery.error.issues[0];
+        return res.status(400).json({
+          error: `Invalid query parameter "${issue.path.join(".")}": ${issue.message}`,
+        });
+      }
+
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const query = parsedQuery.data;
+      if (query.person) {
+        // People lists hold canonical names, so resolve aliases and casing first
+        query.person = scraper.canonicalPersonName(query.person) ?? query.person;
+      }
+      const { images, total } = await storage.getScrapeJobImages(jobId, query);
+
+      res.json({
+        jobId,
+        total,
+        offset: query.offset,
+        limit: query.limit,
+        images,
+      });
+    } catch (error: unknown) {
+      console.error("Error fetching job images:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch job images",
+      });
+    }
+  });
+
+  app.get("/api/scrape/job/:jobId/webhooks", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const deliveries = await storage.getWebhookDeliveries(jobId);
+      res.json({ jobId, deliveries });
+    } catch (error: unknown) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch webhook deliveries",
+      });
+    }
+  });
+
+  app.get("/api/scrape/job/:jobId/events", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const sendEvent = (event: JobEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Initial snapshot so the client is in sync before live events arrive
+      sendEvent({ type: "status", jobId, status: job.status, error: job.error });
+      sendEvent({
+        type: "progress",
+        jobId,
+        progress: job.progress,
+        scrapedImages: job.scrapedImages,
+        totalImages: job.totalImages,
+      });
+
+      const unsubscribe = jobEventBus.subscribe(jobId, sendEvent);
+
+      // Comment lines keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => {
+        res.write(": heartbeat\n\n");
+      }, SSE_HEARTBEAT_INTERVAL_MS);
+
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error: unknown) {
+      console.error("Error streaming job events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: getErrorMessage(error) || "Failed to stream job events",
+        });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.post("/api/scrape/job/:jobId/cancel", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const cancelled = await scraper.cancelJob(jobId);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Job cannot be cancelled (status: ${job.status})` });
+      }
+
+      res.json({ jobId, status: "cancelling" });
+    } catch (error: unknown) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to cancel job",
+      });
+    }
+  });
+
+  app.post("/api/scrape/job/:jobId/pause", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (!scraper.pauseJob(jobId)) {
+        return res.status(409).json({ error: `Only running jobs can be paused (status: ${job.status})` });
+      }
+
+      res.json({ jobId, status: "pausing" });
+    } catch (error: unknown) {
+      console.error("Error pausing job:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to pause job",
+      });
+    }
+  });
+
+  app.post("/api/scrape/job/:jobId/resume", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const resumed = await scraper.resumeJob(jobId);
+      if (!resumed) {
+        return res.status(409).json({ error: `Job is not paused (status: ${job.status})` });
+      }
+
+      res.json({ jobId, status: "resumed" });
+    } catch (error: unknown) {
+      console.error("Error resuming job:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to resume job",
+      });
+    }
+  });
+
+  app.post("/api/scrape/job/:jobId/renormalize", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const parsed = renormalizeJobRequestSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid request "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      const job = await storage.getScrapeJobSummary(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Running jobs still write images, which would race with the re-normalized values
+      if (job.status === "pending" || job.status === "scraping") {
+        return res.status(409).json({ error: `Job cannot be re-normalized while running (status: ${job.status})` });
+      }
+
+      const report = await scraper.renormalizeJob(jobId, parsed.data.dryRun);
+      if (!report) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json(report);
+    } catch (error: unknown) {
+      console.error("Error re-normalizing job:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to re-normalize job",
+      });
+    }
+  });
+
+  app.get("/api/scrape/job/:jobId/unmapped-labels", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const result = await scraper.getUnmappedLabels(jobId);
+
+      if (!result) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json({ jobId, ...result });
+    } catch (error: unknown) {
+      console.error("Error fetching unmapped labels:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch unmapped labels",
+      });
+    }
+  });
+
+  app.get("/api/scrape/job/:jobId/quality", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const parsedQuery = jobQualityQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        const issue = parsedQuery.error.issues[0];
+        return res.status(400).json({
+          error: `Invalid query parameter "${issue.path.join(".")}": ${issue.message}`,
+        });
+      }
+
+      const job = await storage.getScrapeJob(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json(buildQualityReport(jobId, job.images, parsedQuery.data.threshold));
+    } catch (error: unknown) {
+      console.error("Error building quality report:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to build quality report",
+      });
+    }
+  });
+
+  app.get("/api/locales", async (req, res) => {
+    try {
+      res.json({ locales: scraper.getLocales(), defaultLocale: scraper.getDefaultLocale() });
+    } catch (error: unknown) {
+      console.error("Error fetching locales:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch locales",
+      });
+    }
+  });
+
+  app.get("/api/caption-templates", async (req, res) => {
+    try {
+      const templates = Object.entries(scraper.getCaptionTemplates()).map(([name, template]) => ({ name, template }));
+      res.json({ templates });
+    } catch (error: unknown) {
+      console.error("Error fetching caption templates:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch caption templates",
+      });
+    }
+  });
+
+  app.get("/api/person-aliases", async (req, res) => {
+    try {
+      res.json({ aliases: scraper.getPersonAliases() });
+    } catch (error: unknown) {
+      console.error("Error fetching person aliases:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch person aliases",
+      });
+    }
+  });
+
+  app.put("/api/person-aliases", async (req, res) => {
+    try {
+      const parsed = personAliasesSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid person aliases "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      scraper.updatePersonAliases(parsed.data.aliases);
+      res.json({ aliases: parsed.data.aliases });
+    } catch (error: unknown) {
+      console.error("Error updating person aliases:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to update person aliases",
+      });
+    }
+  });
+
+  app.get("/api/tag-taxonomy", async (req, res) => {
+    try {
+      res.json(scraper.getTagTaxonomy());
+    } catch (error: unknown) {
+      console.error("Error fetching tag taxonomy:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch tag taxonomy",
+      });
+    }
+  });
+
+  app.put("/api/tag-taxonomy", async (req, res) => {
+    try {
+      const parsed = tagTaxonomySchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid tag taxonomy "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      scraper.updateTagTaxonomy(parsed.data);
+      res.json(parsed.data);
+    } catch (error: unknown) {
+      console.error("Error updating tag taxonomy:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to update tag taxonomy",
+      });
+    }
+  });
+
+  app.get("/api/tags/report", async (req, res) => {
+    try {
+      const parsedQuery = tagReportQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        const issue = parsedQuery.error.issues[0];
+        return res.status(400).json({
+          error: `Invalid query parameter "${issue.path.join(".")}": ${issue.message}`,
+        });
+      }
+
+      const { jobId, limit } = parsedQuery.data;
+      const report = await scraper.getTagReport(jobId, limit);
+
+      if (!report) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      res.json(report);
+    } catch (error: unknown) {
+      console.error("Error building tag report:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to build tag report",
+      });
+    }
+  });
+
+  app.get("/api/label-mappings", async (req, res) => {
+    try {
+      res.json({ rules: scraper.getLabelMappings() });
+    } catch (error: unknown) {
+      console.error("Error fetching label mappings:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch label mappings",
+      });
+    }
+  });
+
+  app.put("/api/label-mappings", async (req, res) => {
+    try {
+      const parsed = labelMappingRulesSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid label mappings "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      scraper.updateLabelMappings(parsed.data.rules);
+      res.json({ rules: parsed.data.rules });
+    } catch (error: unknown) {
+      console.error("Error updating label mappings:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to update label mappings",
+      });
+    }
+  });
+
   app.get("/api/scrape/jobs", async (req, res) => {
     try {
       const jobs = await storage.getAllScrapeJobs();
@@ -166,52 +736,339 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/scrape/jobs/interrupted", async (req, res) => {
+    try {
+      const jobs = [];
+
+      for (const jobId of scraper.getInterruptedJobIds()) {
+        const job = await storage.getScrapeJobSummary(jobId);
+        if (job && job.status === "paused") {
+          jobs.push({
+            id: job.id,
+            url: job.url,
+            progress: job.progress,
+            totalImages: job.totalImages,
+            scrapedImages: job.scrapedImages,
+            startedAt: job.startedAt,
+          });
+        }
+      }
+
+      res.json({ jobs });
+    } catch (error: unknown) {
+      console.error("Error fetching interrupted jobs:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch interrupted jobs",
+      });
+    }
+  });
+
+  app.get("/api/images", async (req, res) => {
+    try {
+      const parsedQuery = catalogImagesQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        const issue = parsedQuery.error.issues[0];
+        return res.status(400).json({
+          error: `Invalid query parameter "${issue.path.join(".")}": ${issue.message}`,
+        });
+      }
+
+      const query = parsedQuery.data;
+      if (query.person) {
+        query.person = scraper.canonicalPersonName(query.person) ?? query.person;
+      }
+      const { images, total } = await storage.getCatalogImages(query);
+
+      res.json({
+        total,
+        offset: query.offset,
+        limit: query.limit,
+        images,
+      });
+    } catch (error: unknown) {
+      console.error("Error fetching catalog images:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch images",
+      });
+    }
+  });
+
+  app.get("/api/images/:imageId/history", async (req, res) => {
+    try {
+      const { imageId } = req.params;
+      const revisions = await storage.getImageHistory(imageId);
+
+      if (!revisions) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      res.json({ imageId, revisions });
+    } catch (error: unknown) {
+      console.error("Error fetching image history:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch image history",
+      });
+    }
+  });
+
+  app.get("/api/images/:imageId", async (req, res) => {
+    try {
+      const image = await storage.getCatalogImageDetails(req.params.imageId);
+
+      if (!image) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      res.json(image);
+    } catch (error: unknown) {
+      console.error("Error fetching catalog image:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch image",
+      });
+    }
+  });
+
+  app.get("/api/schedules", async (req, res) => {
+    try {
+      const schedules = await storage.getAllSchedules();
+      res.json(schedules);
+    } catch (error: unknown) {
+      console.error("Error fetching schedules:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch schedules",
+      });
+    }
+  });
+
+  app.get("/api/schedules/:id", async (req, res) => {
+    try {
+      const schedule = await storage.getSchedule(req.params.id);
+
+      if (!schedule) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      res.json(schedule);
+    } catch (error: unknown) {
+      console.error("Error fetching schedule:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to fetch schedule",
+      });
+    }
+  });
+
+  app.post("/api/schedules", async (req, res) => {
+    try {
+      const parsed = insertScheduledScrapeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid schedule "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      const input = parsed.data;
+
+      if (!input.config.url.includes("smartframe.com")) {
+        return res.status(400).json({ error: "URL must be from smartframe.com" });
+      }
+
+      if (input.config.captionLocale && !isKnownLocale(input.config.captionLocale)) {
+        return res.status(400).json({ error: `Unknown caption locale "${input.config.captionLocale}"` });
+      }
+
+      const webhooksError = getWebhooksError(input.config.webhooks);
+      if (webhooksError) {
+        return res.status(400).json({ error: webhooksError });
+      }
+
+      const cronError = getCronError(input.cron);
+      if (cronError) {
+        return res.status(400).json({ error: cronError });
+      }
+
+      const schedule = await storage.createSchedule(
+        input,
+        scrapeScheduler.computeNextRun(input.cron, input.enabled)
+      );
+
+      res.status(201).json(schedule);
+    } catch (error: unknown) {
+      console.error("Error creating schedule:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to create schedule",
+      });
+    }
+  });
+
+  app.patch("/api/schedules/:id", async (req, res) => {
+    try {
+      const parsed = updateScheduledScrapeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ error: `Invalid schedule "${issue.path.join(".")}": ${issue.message}` });
+      }
+
+      const existing = await storage.getSchedule(req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      const updates = parsed.data;
+
+      if (updates.config && !updates.config.url.includes("smartframe.com")) {
+        return res.status(400).json({ error: "URL must be from smartframe.com" });
+      }
+
+      if (updates.config?.captionLocale && !isKnownLocale(updates.config.captionLocale)) {
+        return res.status(400).json({ error: `Unknown caption locale "${updates.config.captionLocale}"` });
+      }
+
+      const webhooksError = getWebhooksError(updates.config?.webhooks);
+      if (webhooksError) {
+        return res.status(400).json({ error: webhooksError });
+      }
+
+      if (updates.cron) {
+        const cronError = getCronError(updates.cron);
+        if (cronError) {
+          return res.status(400).json({ error: cronError });
+        }
+      }
+
+      // Re-plan the next run whenever the timing or the enabled flag changes
+      const cron = updates.cron ?? existing.cron;
+      const enabled = updates.enabled ?? existing.enabled;
+      const timingChanged = cron !== existing.cron || enabled !== existing.enabled;
+
+      const schedule = await storage.updateSchedule(existing.id, {
+        ...updates,
+        ...(timingChanged ? { nextRunAt: scrapeScheduler.computeNextRun(cron, enabled) } : {}),
+      });
+
+      res.json(schedule);
+    } catch (error: unknown) {
+      console.error("Error updating schedule:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to update schedule",
+      });
+    }
+  });
+
+  app.delete("/api/schedules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteSchedule(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      res.json({ id: req.params.id, deleted: true });
+    } catch (error: unknown) {
+      console.error("Error deleting schedule:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to delete schedule",
+      });
+    }
+  });
+
+  app.post("/api/schedules/:id/run", async (req, res) => {
+    try {
+      const schedule = await storage.getSchedule(req.params.id);
+
+      if (!schedule) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+
+      const job = await scrapeScheduler.runSchedule(schedule);
+
+      if (!job) {
+        return res.status(409).json({ error: "Previous run of this schedule is still active" });
+      }
+
+      res.json({ jobId: job.id, status: "started" });
+    } catch (error: unknown) {
+      console.error("Error running schedule:", error);
+      res.status(500).json({
+        error: getErrorMessage(error) || "Failed to run schedule",
+      });
+    }
+  });
+
   app.get("/api/export/:jobId", async (req, res) => {
     try {
       const { jobId } = req.params;
-      const { format = "json" } = req.query;
+      const { format = "json", captionTemplate, person, xmp } = req.query;
 
-      const job = await storage.getScrapeJob(jobId);
+      // Optional caption column rendered with one of the configured caption templates
+      // (own names only, so "constructor" or "__proto__" are unknown rather than a crash)
+      const captionTemplates = scraper.getCaptionTemplates();
+      const templateSource = typeof captionTemplate === "string" && Object.prototype.hasOwnProperty.call(captionTemplates, captionTemplate)
+        ? captionTemplates[captionTemplate]
+        : undefined;
+      if (captionTemplate && !templateSource) {
+        return res.status(400).json({ error: `Unknown caption template "${captionTemplate}"` });
+      }
+      const compiledTemplate = templateSource ? compileCaptionTemplate(templateSource) : null;
+
+      // JSON exports carry the raw page metadata so old jobs can be re-normalized
+      // (templates may use the raw caption too)
+      const job = await storage.getScrapeJob(jobId, {
+        includeRawMetadata: (format !== "csv" && format !== "xmp") || !!compiledTemplate,
+      });
 
       if (!job) {
         return res.status(404).json({ error: "Job not found" });
       }
 
+      // Optional person filter, matched against the canonical people lists
+      const personName = typeof person === "string" && person.trim()
+        ? scraper.canonicalPersonName(person) ?? person.trim()
+        : null;
+      if (personName) {
+        job.images = job.images.filter(img => peopleIncludes(img.people, personName));
+      }
+
       if (!job.images || job.images.length === 0) {
         return res.status(400).json({ error: "No images to export" });
       }
 
-      if (format === "csv") {
-        // Map to include ImageID, Page URL, Copy Link, and all metadata fields
-        const csvExportData = job.images.map(img => ({
-          imageId: img.imageId,
-          url: img.url,
-          copyLink: img.copyLink,
-          titleField: img.titleField,
-          subjectField: img.subjectField,
-          tags: img.tags,
-          comments: img.comments,
-          authors: img.authors,
-          dateTaken: img.dateTaken,
-          copyright: img.copyright,
-        }));
-        
-        // Export with all columns including identifiers and metadata
-        const csvData = stringify(csvExportData, {
-          header: true,
-          columns: [
-            { key: "imageId", header: "ImageID" },
-            { key: "url", header: "Page URL" },
-            { key: "copyLink", header: "Copy Link" },
-            { key: "titleField", header: "Title Field" },
-            { key: "subjectField", header: "Subject Field" },
-            { key: "tags", header: "Tags" },
-            { key: "comments", header: "Comments" },
-            { key: "authors", header: "Authors" },
-            { key: "dateTaken", header: "Date Taken" },
-            { key: "copyright", header: "Copyright" },
-          ],
+      const renderCaption = compiledTemplate
+        ? (image: ScrapedImage) => renderCaptionTemplate(compiledTemplate, captionDataFromImage(image))
+        : undefined;
+
+      if (format === "zip") {
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="smartframe-export-${jobId}.zip"`
+        );
+        await writeExportBundle(res, {
+          jobId,
+          url: job.url,
+          csv: buildCsvExport(job.images, renderCaption),
+          json: JSON.stringify(buildJsonExport(job, renderCaption), null, 2),
+          images: job.images,
+          includeXmp: xmp === "true",
         });
+      } else if (format === "xmp") {
+        // One sidecar per image, named after its extracted canvas file so DAM tools pair them
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="smartframe-xmp-${jobId}.zip"`
+        );
+        const zip = new ZipWriter(res);
+        const usedNames = new Set<string>();
+        for (const img of job.images) {
+          const [name] = uniqueEntryNames(usedNames, img.imageId, [xmpSidecarName(img)]);
+          await zip.addFile(name, buildXmpSidecar(img));
+        }
+        await zip.finish();
+      } else if (format === "csv") {
+        const csvData = buildCsvExport(job.images, renderCaption);
 
         res.setHeader("Content-Type", "text/csv");
         res.setHeader(
@@ -220,24 +1077,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         res.send(csvData);
       } else {
-        const jsonData = {
-          jobId: job.id,
-          url: job.url,
-          totalImages: job.images.length,
-          scrapedAt: job.startedAt,
-          completedAt: job.completedAt,
-          images: job.images,
-        };
-
         res.setHeader("Content-Type", "application/json");
         res.setHeader(
           "Content-Disposition",
           `attachment; filename="smartframe-export-${jobId}.json"`
         );
-        res.json(jsonData);
+        res.json(buildJsonExport(job, renderCaption));
       }
     } catch (error: unknown) {
       console.error("Error exporting data:", error);
+      if (res.headersSent) {
+        // A streamed ZIP failed part-way, so the archive is cut off rather than replaced
+        return res.destroy();
+      }
       res.status(500).json({
         error: getErrorMessage(error) || "Failed to export data",
       });
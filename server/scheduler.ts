@@ -0,0 +1,104 @@
+import type { ScheduledScrape, ScrapeJob } from "../shared/schema";
+import { storage } from "./storage";
+import { scraper } from "./scraper";
+import { getNextCronRun } from "./utils/cron-expression";
+
+// How often due schedules are checked (cron resolution is one minute)
+const SCHEDULER_TICK_MS = 30000;
+
+// A run is skipped while the previous run of the same schedule is still in one of these states
+const ACTIVE_JOB_STATUSES: ScrapeJob["status"][] = ["pending", "scraping", "paused"];
+
+/**
+ * Scrape scheduler - starts a normal scrape job whenever a schedule's cron expression fires
+ * Runs only process images not scraped by earlier runs of the same schedule (see SmartFrameScraper)
+ */
+class ScrapeScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`🗓️  Scrape scheduler started (checking every ${SCHEDULER_TICK_MS / 1000}s)`);
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error("Scheduler tick failed:", error);
+      });
+    }, SCHEDULER_TICK_MS);
+    this.timer.unref();
+
+    // Catch up on schedules that came due while the server was down
+    this.tick().catch((error) => {
+      console.error("Scheduler tick failed:", error);
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Next run time for a cron expression, or null for disabled schedules
+   */
+  computeNextRun(cron: string, enabled: boolean, from: Date = new Date()): Date | null {
+    return enabled ? getNextCronRun(cron, from) : null;
+  }
+
+  private async tick(): Promise<void> {
+    // A slow tick (e.g. a slow database) must not overlap the next one
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const dueSchedules = await storage.getDueSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        // Advance first so a failing run is not retried every tick; missed runs collapse into one
+        await storage.updateSchedule(schedule.id, {
+          nextRunAt: this.computeNextRun(schedule.cron, schedule.enabled, now),
+        });
+
+        try {
+          await this.runSchedule(schedule);
+        } catch (error) {
+          console.error(`❌ Scheduled run of "${schedule.name}" failed to start:`, error);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Start a run of a schedule now
+   * @returns the created job, or null when the previous run is still active
+   */
+  async runSchedule(schedule: ScheduledScrape): Promise<ScrapeJob | null> {
+    if (schedule.lastJobId) {
+      const previousJob = await storage.getScrapeJobSummary(schedule.lastJobId);
+      if (previousJob && ACTIVE_JOB_STATUSES.includes(previousJob.status)) {
+        console.log(`⏭️  Skipping scheduled run of "${schedule.name}" - job ${previousJob.id} is still ${previousJob.status}`);
+        return null;
+      }
+    }
+
+    const url = schedule.config.url;
+    const job = await storage.createScrapeJob(url, schedule.config, schedule.id);
+    await storage.updateSchedule(schedule.id, { lastRunAt: new Date(), lastJobId: job.id });
+
+    console.log(`🗓️  Scheduled run of "${schedule.name}" started as job ${job.id}`);
+
+    scraper.scrape(job.id, url, schedule.config).catch((error) => {
+      console.error(`Scheduled scrape "${schedule.name}" failed:`, error);
+    });
+
+    return job;
+  }
+}
+
+export const scrapeScheduler = new ScrapeScheduler();
@@ -1,18 +1,27 @@
 import puppeteer, { Browser, Page, ElementHandle } from "puppeteer";
-import { ScrapeConfig, ScrapedImage } from "../shared/schema";
+import { ScrapeConfig, ScrapedImage, ScrapeJob, JobLinkStatus, RenormalizeReport, RenormalizedImage, LabelMappingRule, UnmappedLabel, LocaleInfo, PersonAliases, TagTaxonomy, TagReport } from "../shared/schema";
 import { storage } from "./storage";
-import { normalizeDate } from "./utils/date-normalization";
-import { transformToCleanMetadata } from "./utils/metadata-normalizer";
+import { parseDate } from "./utils/date-normalization";
+import { transformToCleanMetadata, registerLocalePacks } from "./utils/metadata-normalizer";
 import { generateCaption } from "./utils/caption-generator";
 import { failedScrapesLogger, FailedScrape } from "./utils/failed-scrapes-logger";
 import { VPNManager, VPNConfig } from "./utils/vpn-manager";
 import { WaitTimeHelper } from "./utils/wait-time-helper";
 import { SmartFrameExtensionManager, SmartFrameCanvasExtractor } from "./utils/smartframe-extension";
 import { CanvasTimeoutError, CanvasExtensionError } from "./utils/smartframe-extension/canvas-extractor";
-import { loadScraperConfig } from "./utils/config-loader";
+import { loadScraperConfig, loadLabelMappingRules, saveLabelMappingRules, loadLocalePacks, loadCaptionTemplates, loadPersonAliases, savePersonAliases, loadTagTaxonomy, saveTagTaxonomy } from "./utils/config-loader";
 import { INITIAL_PAGE_LOAD_WAIT_MS } from "./utils/wait-time-constants";
-import { completedImagesTracker } from "./utils/completed-images-tracker";
 import { ProcessRecyclingManager, MemoryMonitor } from "./utils/process-recycling";
+import { jobControlRegistry, JobControl, ImageLink, PausedJobState } from "./utils/job-control";
+import { jobEventBus } from "./utils/job-events";
+import { buildSearchUrl } from "./utils/search-url-builder";
+import { fetchImagePage, parseImagePageHtml } from "./utils/http-metadata";
+import { diffNormalizedFields } from "./utils/metadata-diff";
+import { parseRights } from "./utils/rights-parser";
+import { canonicalPersonName, compilePersonAliases, extractPersonNames, type CompiledPersonAliases } from "./utils/person-names";
+import { buildTagReport, compileTagTaxonomy, EMPTY_TAG_TAXONOMY, type CompiledTagTaxonomy } from "./utils/tag-taxonomy";
+import { applyLabelMappings, compileLabelMappingRules, findUnmappedLabels, type CompiledLabelMappingRule } from "./utils/label-mapping";
+import { webhookDispatcher } from "./webhooks";
 import type { SmartframeMetadata, ScraperConfig } from "./types";
 import fs from 'fs';
 import path from 'path';
@@ -30,6 +39,14 @@ type ScrapeCallbacks = {
   onError?: (error: Error) => void;
 };
 
+// Running totals for one tab in multi-tab mode
+type TabThroughput = {
+  tab: number;
+  processed: number;
+  failed: number;
+  busyMs: number;
+};
+
 // Metadata cache for network-intercepted data
 const metadataCache = new Map<string, SmartframeMetadata>();
 
@@ -39,6 +56,7 @@ type QueuedJob = {
   url: string;
   config: ScrapeConfig;
   callbacks: ScrapeCallbacks;
+  resumeState?: PausedJobState;
   resolve: (value: ScrapedImage[]) => void;
   reject: (error: Error) => void;
 };
@@ -56,6 +74,15 @@ class SmartFrameScraper {
   private extensionManager: SmartFrameExtensionManager | null = null;
   private canvasExtractor: SmartFrameCanvasExtractor | null = null;
   private extensionDir: string | null = null;
+  private interruptedJobIds = new Set<string>();
+  private labelMappingRules: LabelMappingRule[] | null = null;
+  private compiledLabelMappingRules: CompiledLabelMappingRule[] = [];
+  private locales: LocaleInfo[] | null = null;
+  private captionTemplates: Record<string, string> | null = null;
+  private personAliases: PersonAliases | null = null;
+  private compiledPersonAliases: CompiledPersonAliases = new Map();
+  private tagTaxonomy: TagTaxonomy | null = null;
+  private compiledTagTaxonomy: CompiledTagTaxonomy = EMPTY_TAG_TAXONOMY;
 
   async initialize(canvasExtractionEnabled: boolean = false) {
     // Load configuration from scraper.config.json first
@@ -291,7 +318,7 @@ class SmartFrameScraper {
     console.log(`\n📊 Queue Status: ${this.runningJobs} running, ${this.jobQueue.length} queued`);
 
     try {
-      const result = await this.scrapeInternal(job.jobId, job.url, job.config, job.callbacks);
+      const result = await this.scrapeInternal(job.jobId, job.url, job.config, job.callbacks, job.resumeState);
       job.resolve(result);
     } catch (error) {
       job.reject(error as Error);
@@ -304,20 +331,472 @@ class SmartFrameScraper {
 
   /**
    * Add a scrape job to the queue
+   * When resumeState is given, discovery is skipped and processing continues from the saved links
    */
   async scrape(
     jobId: string,
     url: string,
     config: ScrapeConfig,
-    callbacks: ScrapeCallbacks = {}
+    callbacks: ScrapeCallbacks = {},
+    resumeState?: PausedJobState
   ): Promise<ScrapedImage[]> {
     return new Promise((resolve, reject) => {
-      this.jobQueue.push({ jobId, url, config, callbacks, resolve, reject });
+      this.jobQueue.push({ jobId, url, config, callbacks, resumeState, resolve, reject });
       console.log(`\n📥 Job ${jobId} added to queue (position: ${this.jobQueue.length})`);
       this.processNextJob();
     });
   }
 
+  /**
+   * Label-to-field mapping rules, loaded from the rules file on first use
+   */
+  getLabelMappings(): LabelMappingRule[] {
+    if (!this.labelMappingRules) {
+      if (!this.config) {
+        this.config = loadScraperConfig();
+      }
+      this.labelMappingRules = loadLabelMappingRules(this.config);
+      this.compiledLabelMappingRules = compileLabelMappingRules(this.labelMappingRules);
+    }
+    return this.labelMappingRules;
+  }
+
+  /**
+   * Replace the label mapping rules and persist them to the rules file
+   * New rules apply to images parsed from now on (and to re-normalized jobs)
+   */
+  updateLabelMappings(rules: LabelMappingRule[]): void {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+    saveLabelMappingRules(this.config, rules);
+    this.labelMappingRules = rules;
+    this.compiledLabelMappingRules = compileLabelMappingRules(rules);
+    console.log(`🏷️  Updated label mapping rules (${rules.length} rules)`);
+  }
+
+  private getLabelMappingRules(): CompiledLabelMappingRule[] {
+    this.getLabelMappings();
+    return this.compiledLabelMappingRules;
+  }
+
+  /**
+   * Caption locale packs available for parsing, loaded from the locales directory on first use
+   * (the server loads them at startup)
+   */
+  getLocales(): LocaleInfo[] {
+    if (!this.locales) {
+      if (!this.config) {
+        this.config = loadScraperConfig();
+      }
+      const packs = loadLocalePacks(this.config);
+      registerLocalePacks(Object.fromEntries(packs.map(({ code, name, ...patterns }) => [code, patterns])));
+      this.locales = packs.map(({ code, name }) => ({ code, name }));
+      if (!this.locales.some(locale => locale.code === 'en')) {
+        this.locales.unshift({ code: 'en', name: 'English' });
+      }
+    }
+    return this.locales;
+  }
+
+  /**
+   * Locale used for jobs without a captionLocale override (caption.defaultLocale, if registered)
+   */
+  getDefaultLocale(): string {
+    const locales = this.getLocales();
+    const configured = this.config?.caption?.defaultLocale;
+    return configured && locales.some(locale => locale.code === configured) ? configured : 'en';
+  }
+
+  /**
+   * Hosts webhooks may reach even though they are private addresses (webhooks.allowedHosts)
+   */
+  getWebhookAllowedHosts(): string[] {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+    return this.config.webhooks?.allowedHosts ?? [];
+  }
+
+  /**
+   * Person alias dictionary, loaded from its file on first use
+   */
+  getPersonAliases(): PersonAliases {
+    if (!this.personAliases) {
+      if (!this.config) {
+        this.config = loadScraperConfig();
+      }
+      this.personAliases = loadPersonAliases(this.config);
+      this.compiledPersonAliases = compilePersonAliases(this.personAliases);
+    }
+    return this.personAliases;
+  }
+
+  /**
+   * Replace the person alias dictionary and persist it
+   * Stored images keep their people lists until their job is re-normalized
+   */
+  updatePersonAliases(aliases: PersonAliases): void {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+    savePersonAliases(this.config, aliases);
+    this.personAliases = aliases;
+    this.compiledPersonAliases = compilePersonAliases(aliases);
+    console.log(`👤 Updated person aliases (${Object.keys(aliases).length} people)`);
+  }
+
+  /**
+   * Canonical form of a person filter value, as stored in image people lists
+   */
+  canonicalPersonName(name: string): string | null {
+    this.getPersonAliases();
+    return canonicalPersonName(name, this.compiledPersonAliases);
+  }
+
+  /**
+   * Tag taxonomy (synonyms, stop-words, categories and limits), loaded from its file on first use
+   */
+  getTagTaxonomy(): TagTaxonomy {
+    if (!this.tagTaxonomy) {
+      if (!this.config) {
+        this.config = loadScraperConfig();
+      }
+      this.tagTaxonomy = loadTagTaxonomy(this.config);
+      this.compiledTagTaxonomy = compileTagTaxonomy(this.tagTaxonomy);
+    }
+    return this.tagTaxonomy;
+  }
+
+  /**
+   * Replace the tag taxonomy and persist it
+   * Stored images keep their tags until their job is re-normalized
+   */
+  updateTagTaxonomy(taxonomy: TagTaxonomy): void {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+    saveTagTaxonomy(this.config, taxonomy);
+    this.tagTaxonomy = taxonomy;
+    this.compiledTagTaxonomy = compileTagTaxonomy(taxonomy);
+    console.log(`🏷️  Updated tag taxonomy (${Object.keys(taxonomy.synonyms).length} synonym groups, ${taxonomy.stopwords.length} stop-words)`);
+  }
+
+  /**
+   * Tag frequency across a job, or across the whole catalog when no job is given
+   * @returns undefined if the job does not exist
+   */
+  async getTagReport(jobId: string | undefined, limit: number): Promise<TagReport | undefined> {
+    if (jobId && !(await storage.getScrapeJobSummary(jobId))) return undefined;
+
+    this.getTagTaxonomy();
+    const tagFields = await storage.getImageTags(jobId);
+    return { jobId: jobId ?? null, ...buildTagReport(tagFields, this.compiledTagTaxonomy, limit) };
+  }
+
+  /**
+   * Named caption templates exports can render a caption column with, loaded on first use
+   */
+  getCaptionTemplates(): Record<string, string> {
+    if (!this.captionTemplates) {
+      if (!this.config) {
+        this.config = loadScraperConfig();
+      }
+      this.captionTemplates = loadCaptionTemplates(this.config);
+    }
+    return this.captionTemplates;
+  }
+
+  /**
+   * Labels in a job's stored raw metadata that no current rule maps
+   * Images scraped before raw metadata was stored are not covered
+   * @returns undefined if the job does not exist
+   */
+  async getUnmappedLabels(jobId: string): Promise<{ imagesWithRawMetadata: number; labels: UnmappedLabel[] } | undefined> {
+    const job = await storage.getScrapeJob(jobId, { includeRawMetadata: true });
+    if (!job) return undefined;
+
+    const imagesLabelValues = job.images
+      .filter(image => image.rawMetadata)
+      .map(image => image.rawMetadata!.labelValues);
+
+    return {
+      imagesWithRawMetadata: imagesLabelValues.length,
+      labels: findUnmappedLabels(imagesLabelValues, this.getLabelMappingRules()),
+    };
+  }
+
+  /**
+   * Re-run metadata normalization over a job's stored images with the current normalizer
+   * Images with stored raw page metadata are rebuilt from it, older images are
+   * re-normalized from their clean fields. Changed images are written to the job and the
+   * catalog in one transaction; nothing is written in dry-run mode.
+   * @returns undefined if the job does not exist
+   */
+  async renormalizeJob(jobId: string, dryRun: boolean): Promise<RenormalizeReport | undefined> {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+
+    const job = await storage.getScrapeJob(jobId, { includeRawMetadata: true });
+    if (!job) return undefined;
+
+    const changedImages: ScrapedImage[] = [];
+    const reports: RenormalizedImage[] = [];
+    const fieldCounts: Record<string, number> = {};
+
+    for (const image of job.images) {
+      const source = image.rawMetadata ? "raw" : "stored";
+      const renormalized = this.renormalizeImage(image, job.config?.captionLocale);
+      const changes = diffNormalizedFields(image, renormalized);
+      if (changes.length === 0) continue;
+
+      changedImages.push(renormalized);
+      reports.push({ imageId: image.imageId, source, changes });
+      for (const change of changes) {
+        fieldCounts[change.field] = (fieldCounts[change.field] || 0) + 1;
+      }
+    }
+
+    if (!dryRun && changedImages.length > 0) {
+      await storage.updateScrapedImageMetadata(jobId, changedImages);
+    }
+
+    console.log(`🧹 Job ${jobId}: re-normalization ${dryRun ? 'would change' : 'changed'} ${changedImages.length}/${job.images.length} images`);
+
+    return {
+      jobId,
+      dryRun,
+      totalImages: job.images.length,
+      changedImages: changedImages.length,
+      fieldCounts,
+      images: reports,
+    };
+  }
+
+  /**
+   * Clean fields of a stored image as the current normalizer would produce them
+   */
+  private renormalizeImage(image: ScrapedImage, captionLocale: string | undefined): ScrapedImage {
+    const raw = image.rawMetadata;
+    if (!raw) {
+      const renormalized = { ...image };
+      this.applyCleanMetadata(renormalized, image.imageId, captionLocale);
+      return renormalized;
+    }
+
+    // Start from empty fields so nothing from the previous normalization leaks into the merge
+    const renormalized: ScrapedImage = {
+      ...image,
+      titleField: null,
+      subjectField: null,
+      tags: null,
+      comments: null,
+      authors: null,
+      dateTaken: null,
+      copyright: null,
+      city: null,
+      country: null,
+      location: null,
+      event: null,
+      contentPartner: null,
+      featuring: null,
+      dateTakenEdtf: null,
+      rights: null,
+    };
+    const rawData: SmartframeMetadata = {
+      title: raw.title,
+      caption: raw.caption,
+      keywords: raw.keywords,
+      labelValues: raw.labelValues,
+      contentPartner: raw.contentPartner,
+      nextData: raw.nextData,
+    };
+    const networkMetadata = (raw.networkMetadata ?? undefined) as SmartframeMetadata | undefined;
+
+    this.applyRawMetadata(renormalized, rawData, image.imageId, networkMetadata);
+    this.applyCleanMetadata(renormalized, image.imageId, captionLocale);
+    return renormalized;
+  }
+
+  /**
+   * Cancel a queued, paused or running job
+   * Running jobs stop cooperatively after the image currently being processed
+   * @returns false if the job is not known to the scraper
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    const queueIndex = this.jobQueue.findIndex(job => job.jobId === jobId);
+    if (queueIndex !== -1) {
+      const [queuedJob] = this.jobQueue.splice(queueIndex, 1);
+      await this.updateJobStatus(jobId, {
+        status: "cancelled",
+        completedAt: new Date().toISOString(),
+      });
+      console.log(`🛑 Job ${jobId} removed from queue (cancelled before start)`);
+      queuedJob.resolve([]);
+      return true;
+    }
+
+    // Paused jobs either have in-memory state or were interrupted by a restart (state in the database)
+    if (jobControlRegistry.takePaused(jobId) || (await storage.getScrapeJobSummary(jobId))?.status === "paused") {
+      this.interruptedJobIds.delete(jobId);
+      await this.updateJobStatus(jobId, {
+        status: "cancelled",
+        completedAt: new Date().toISOString(),
+      });
+      console.log(`🛑 Paused job ${jobId} cancelled`);
+      return true;
+    }
+
+    const control = jobControlRegistry.get(jobId);
+    if (control) {
+      control.requestCancel();
+      console.log(`🛑 Cancellation requested for job ${jobId} - stopping after current image`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Pause a running job after the image currently being processed
+   * @returns false if the job is not running
+   */
+  pauseJob(jobId: string): boolean {
+    const control = jobControlRegistry.get(jobId);
+    if (!control) return false;
+
+    control.requestPause();
+    console.log(`⏸️  Pause requested for job ${jobId} - stopping after current image`);
+    return true;
+  }
+
+  /**
+   * Re-queue a paused job so it continues from the next unprocessed link
+   * Jobs interrupted by a server restart are rebuilt from the persisted link queue
+   * @returns false if the job is not paused
+   */
+  async resumeJob(jobId: string): Promise<boolean> {
+    const job = await storage.getScrapeJobSummary(jobId);
+    if (!job || job.status !== "paused") return false;
+
+    const state = jobControlRegistry.takePaused(jobId)
+      ?? await this.loadPersistedJobState(jobId, job.url, job.config);
+    this.interruptedJobIds.delete(jobId);
+
+    await this.updateJobStatus(jobId, { status: "pending" });
+
+    if (state) {
+      console.log(`▶️  Resuming job ${jobId} with ${state.remainingLinks.length} remaining images`);
+    } else {
+      // Interrupted before link discovery finished - nothing to continue from
+      console.log(`▶️  Restarting job ${jobId} from the beginning (no saved link queue)`);
+    }
+
+    this.scrape(jobId, job.url, job.config, {}, state).catch((error) => {
+      console.error(`Resumed job ${jobId} failed:`, error);
+    });
+    return true;
+  }
+
+  /**
+   * Rebuild the paused state of a job from its persisted link queue
+   * Links that finished or whose image is already in scraped_images are skipped
+   */
+  private async loadPersistedJobState(
+    jobId: string,
+    url: string,
+    config: ScrapeConfig
+  ): Promise<PausedJobState | undefined> {
+    const links = await storage.getJobLinks(jobId);
+    if (links.length === 0) return undefined;
+
+    const scrapedImageIds = await storage.getScrapedImageIds(jobId);
+    const remainingLinks = links
+      .filter(link => link.status !== "done" && !scrapedImageIds.has(link.imageId))
+      .map(({ url, imageId, hash }) => ({ url, imageId, hash }));
+
+    const thumbnails = new Map<string, string>();
+    for (const link of links) {
+      if (link.thumbnailUrl) thumbnails.set(link.imageId, link.thumbnailUrl);
+    }
+
+    return {
+      url,
+      config,
+      remainingLinks,
+      thumbnails,
+      totalLinks: links.length,
+      attemptedCount: links.length - remainingLinks.length,
+      scrapedCount: scrapedImageIds.size,
+    };
+  }
+
+  /**
+   * Detect jobs left in "scraping"/"pending" by a previous server process and mark them paused
+   * so they can be resumed. Resumes them right away when scraping.autoResumeInterruptedJobs is set.
+   */
+  async recoverInterruptedJobs(): Promise<string[]> {
+    if (!this.config) {
+      this.config = loadScraperConfig();
+    }
+
+    const jobIds = await storage.getScrapeJobIdsByStatus(["scraping", "pending"]);
+    if (jobIds.length === 0) return [];
+
+    console.log(`\n🔁 Found ${jobIds.length} job(s) interrupted by a server restart`);
+
+    for (const jobId of jobIds) {
+      await this.updateJobStatus(jobId, { status: "paused" });
+      this.interruptedJobIds.add(jobId);
+      console.log(`   ⏸️  ${jobId} - resume with POST /api/scrape/job/${jobId}/resume`);
+    }
+
+    if (this.config.scraping?.autoResumeInterruptedJobs) {
+      console.log(`▶️  Auto-resuming interrupted jobs (scraping.autoResumeInterruptedJobs)`);
+      for (const jobId of jobIds) {
+        await this.resumeJob(jobId);
+      }
+    }
+
+    return jobIds;
+  }
+
+  /**
+   * IDs of jobs recovered at startup that are still waiting to be resumed
+   */
+  getInterruptedJobIds(): string[] {
+    return Array.from(this.interruptedJobIds);
+  }
+
+  /**
+   * Emit image-failed events for failures not yet announced (retry rounds re-log the same image)
+   */
+  private emitNewFailures(jobId: string, announcedFailures: Set<string>): void {
+    for (const failure of failedScrapesLogger.getFailures()) {
+      if (announcedFailures.has(failure.imageId)) continue;
+      announcedFailures.add(failure.imageId);
+      jobEventBus.emit({
+        type: "image-failed",
+        jobId,
+        imageId: failure.imageId,
+        url: failure.url,
+        reason: failure.reason,
+      });
+    }
+  }
+
+  /**
+   * Persist a job status change and notify event subscribers
+   */
+  private async updateJobStatus(
+    jobId: string,
+    updates: Partial<ScrapeJob> & { status: ScrapeJob["status"] }
+  ): Promise<void> {
+    await storage.updateScrapeJob(jobId, updates);
+    jobEventBus.emit({ type: "status", jobId, status: updates.status, error: updates.error });
+  }
+
   /**
    * Internal scrape implementation (actual scraping logic)
    */
@@ -325,7 +804,8 @@ class SmartFrameScraper {
     jobId: string,
     url: string,
     config: ScrapeConfig,
-    callbacks: ScrapeCallbacks = {}
+    callbacks: ScrapeCallbacks = {},
+    resumeState?: PausedJobState
   ): Promise<ScrapedImage[]> {
     // Check if canvas extraction is needed for this job
     const canvasExtraction = config.canvasExtraction || "none";
@@ -344,8 +824,11 @@ class SmartFrameScraper {
     // Initialize failed scrapes logger for this job
     failedScrapesLogger.startJob(jobId);
 
+    // Register cooperative cancel/pause control for this job
+    const control = jobControlRegistry.register(jobId);
+
     try {
-      await storage.updateScrapeJob(jobId, { status: "scraping" });
+      await this.updateJobStatus(jobId, { status: "scraping" });
       
       console.log('\n' + '='.repeat(60));
       console.log('STARTING SCRAPE JOB');
@@ -417,126 +900,98 @@ class SmartFrameScraper {
         }
       });
 
-      console.log(`Navigating to ${url}...`);
-      
-      // Get navigation configuration from config
-      const navigationTimeout = this.config?.navigation?.timeout || 60000;
-      const waitUntil = this.config?.navigation?.waitUntil || 'domcontentloaded';
-      
-      // Retry navigation with exponential backoff
-      let attempts = 0;
-      const maxAttempts = 3;
-      let navigationSuccess = false;
-
-      while (attempts < maxAttempts && !navigationSuccess) {
-        attempts++;
-        console.log(`Navigation attempt ${attempts}/${maxAttempts} to ${url}`);
-        
-        try {
-          await page.goto(url, {
-            waitUntil: waitUntil as any,
-            timeout: navigationTimeout
-          });
-          navigationSuccess = true;
-        } catch (error) {
-          console.error(`Navigation attempt ${attempts} failed:`, error);
-          if (attempts === maxAttempts) throw error;
-          await this.waitTimeHelper!.wait(2000 * attempts);
-        }
-      }
-
-      // Wait for SmartFrame embeds to load
-      try {
-        await page.waitForSelector('smartframe-embed, .sf-thumbnail, [data-testid="image-card"]', { timeout: 15000 });
-      } catch (error) {
-        console.log("SmartFrame elements not found with standard selectors, trying fallback...");
-        await this.waitTimeHelper!.wait(3000);
-      }
-
-      // Extract thumbnails from search page
-      const thumbnails = await this.extractThumbnailsFromSearch(page);
-      console.log(`Extracted ${thumbnails.size} thumbnails from search page`);
+      let limitedLinks: ImageLink[];
+      let thumbnails: Map<string, string>;
 
-      // Create accumulator for incrementally discovered image links
-      const discoveredLinks = new Map<string, { url: string; imageId: string; hash: string }>();
+      if (resumeState) {
+        // Resumed job: skip discovery and continue from the next unprocessed link
+        console.log(`▶️  Resuming from saved progress: ${resumeState.remainingLinks.length} of ${resumeState.totalLinks} images remaining`);
+        limitedLinks = resumeState.remainingLinks;
+        thumbnails = resumeState.thumbnails;
+      } else {
+        ({ links: limitedLinks, thumbnails } = await this.discoverImageLinks(page, jobId, url, config, control));
 
-      // NEW: Collect initial page before autoScroll starts
-      console.log('Collecting images from initial page...');
-      const initialPageLinks = await this.collectPageImageLinks(page);
-      for (const link of initialPageLinks) {
-        discoveredLinks.set(link.imageId, link);
+        // Persist the link queue so the job can be resumed after a crash or restart
+        await storage.saveJobLinks(jobId, limitedLinks, thumbnails);
       }
-      console.log(`Initial page: collected ${discoveredLinks.size} images`);
-
-      // Auto-scroll to load all images with incremental collection
-      if (config.autoScroll) {
-        await this.autoScroll(
-          page, 
-          config.maxImages, 
-          config.scrollDelay || 1000, 
-          async (progress: ScrapeProgress) => {
-            await storage.updateScrapeJob(jobId, {
-              progress: Math.round(progress.percentage),
-              scrapedImages: progress.current,
-              totalImages: progress.total,
-            });
-          },
-          async () => {
-            // Collect images from current page after each pagination
-            const pageLinks = await this.collectPageImageLinks(page);
-            for (const link of pageLinks) {
-              discoveredLinks.set(link.imageId, link);
-            }
-            console.log(`Collected ${discoveredLinks.size} unique images so far`);
-          }
-        );
-      }
-      
-      // Convert discovered links Map to array
-      const imageLinks = Array.from(discoveredLinks.values());
-      console.log(`Total unique images collected: ${imageLinks.length}`);
-
-      // Apply max images limit if specified
-      const limitedLinks = config.maxImages === 0 ? imageLinks : imageLinks.slice(0, config.maxImages);
 
-      console.log(`Processing ${limitedLinks.length} image links`);
+      // Offsets carried over from before a pause so progress keeps counting from where it stopped
+      const totalLinks = resumeState?.totalLinks ?? limitedLinks.length;
+      const attemptedOffset = resumeState?.attemptedCount ?? 0;
+      const scrapedOffset = resumeState?.scrapedCount ?? 0;
 
       const images: ScrapedImage[] = [];
       const concurrency = config.concurrency || this.config?.scraping?.concurrency || 2;
+
+      // Images and failures already streamed to event subscribers
+      let announcedImageCount = 0;
+      const announcedFailures = new Set<string>();
+
+      // Progress webhooks fire each time the scraped count crosses a multiple of the interval
+      const webhookProgressEvery = webhookDispatcher.getProgressInterval(config, this.config);
+      let lastWebhookProgressCount = scrapedOffset;
       
       console.log(`\n🚀 Parallel Processing Enabled: ${concurrency} concurrent tabs`);
       console.log(`Processing ${limitedLinks.length} images...\n`);
 
       // Process images in parallel using worker pool
-      const processedImages = await this.processImagesInParallel(
+      const processed = await this.processImagesInParallel(
         limitedLinks,
         thumbnails,
         config.extractDetails || false,
         concurrency,
         jobId,
         config,
+        control,
         async (currentImages: ScrapedImage[], attemptedCount: number) => {
           // Update job progress in database AND persist images incrementally
           console.log(`💾 [Canvas Mode] Persisting ${currentImages.length} images to database for CSV export...`);
+          const progress = Math.round(((attemptedOffset + attemptedCount) / totalLinks) * 100);
           await storage.updateScrapeJob(jobId, {
-            scrapedImages: currentImages.length,
-            progress: Math.round((attemptedCount / limitedLinks.length) * 100),
+            scrapedImages: scrapedOffset + currentImages.length,
+            progress,
             images: currentImages, // CRITICAL FIX: Persist images to database for CSV export
           });
           
+          // Stream only what changed since the last call to SSE subscribers
+          for (const image of currentImages.slice(announcedImageCount)) {
+            jobEventBus.emit({ type: "image-added", jobId, image });
+          }
+          announcedImageCount = currentImages.length;
+          this.emitNewFailures(jobId, announcedFailures);
+          jobEventBus.emit({
+            type: "progress",
+            jobId,
+            progress,
+            scrapedImages: scrapedOffset + currentImages.length,
+            totalImages: totalLinks,
+          });
+          
+          const scrapedCount = scrapedOffset + currentImages.length;
+          if (webhookProgressEvery > 0 &&
+              Math.floor(scrapedCount / webhookProgressEvery) > Math.floor(lastWebhookProgressCount / webhookProgressEvery)) {
+            lastWebhookProgressCount = scrapedCount;
+            webhookDispatcher.notify(jobId, "progress", { progress, scrapedImages: scrapedCount, totalImages: totalLinks }, config, this.config);
+          }
+          
           // Call user's onProgress callback if provided
-          callbacks.onProgress?.(currentImages.length, limitedLinks.length);
+          callbacks.onProgress?.(scrapedCount, totalLinks);
         }
       );
       
-      images.push(...processedImages);
+      images.push(...processed.images);
 
       // Enhanced multi-round retry mechanism with smart error filtering
-      if (config.extractDetails) {
+      if (config.extractDetails && !control.isStopRequested()) {
         const maxRetryRounds = this.config?.scraping?.maxRetryRounds || 2;
         console.log(`\n🔄 Starting retry mechanism (max ${maxRetryRounds} rounds)...`);
         
         for (let round = 1; round <= maxRetryRounds; round++) {
+          if (control.isStopRequested()) {
+            console.log(`⏹️  Stop requested - skipping remaining retry rounds`);
+            break;
+          }
+
           // Get all current failures
           const failures = failedScrapesLogger.getFailures();
           
@@ -571,6 +1026,13 @@ class SmartFrameScraper {
           }
 
           console.log(`\n🔄 Retry Round ${round}/${maxRetryRounds}: ${retryableFailures.length} retryable failures (${failures.length - retryableFailures.length} skipped as non-retryable)`);
+          jobEventBus.emit({
+            type: "retry-round-started",
+            jobId,
+            round,
+            maxRounds: maxRetryRounds,
+            failedImages: retryableFailures.length,
+          });
           
           // Progressive delay before each retry round
           if (round > 1) {
@@ -590,6 +1052,11 @@ class SmartFrameScraper {
           
           images.push(...retriedImages);
           console.log(`✓ Retry round ${round} complete: ${retriedImages.length} images recovered`);
+
+          for (const image of retriedImages) {
+            jobEventBus.emit({ type: "image-added", jobId, image });
+          }
+          this.emitNewFailures(jobId, announcedFailures);
         }
         
         // Final summary
@@ -601,14 +1068,29 @@ class SmartFrameScraper {
         }
       }
 
-      await storage.updateScrapeJob(jobId, {
+      if (control.isStopRequested()) {
+        await this.finishStoppedJob(jobId, control, images, processed.remainingLinks, {
+          url,
+          config,
+          thumbnails,
+          totalLinks,
+          attemptedCount: attemptedOffset + processed.attemptedCount,
+          scrapedCount: scrapedOffset + images.length,
+        });
+        return images;
+      }
+
+      const completedAt = new Date().toISOString();
+      // Before the status event: clients stop listening once the status is final
+      jobEventBus.emit({ type: "completed", jobId, scrapedImages: scrapedOffset + images.length, completedAt });
+      await this.updateJobStatus(jobId, {
         status: "completed",
-        completedAt: new Date().toISOString(),
+        completedAt,
         images,
-        scrapedImages: images.length,
+        scrapedImages: scrapedOffset + images.length,
       });
 
-      console.log(`\n✅ Job ${jobId} completed. Scraped ${images.length} images.`);
+      console.log(`\n✅ Job ${jobId} completed. Scraped ${scrapedOffset + images.length} images.`);
       
       // Print direct API export URLs for easy access
       const baseUrl = process.env.REPLIT_DEPLOYMENT === "true" 
@@ -636,6 +1118,12 @@ class SmartFrameScraper {
         }
       }
       
+      webhookDispatcher.notify(jobId, "completed", {
+        url,
+        scrapedImages: scrapedOffset + images.length,
+        totalImages: totalLinks,
+        completedAt,
+      }, config, this.config);
       callbacks.onComplete?.(images);
       
       return images;
@@ -656,19 +1144,195 @@ class SmartFrameScraper {
         }
       }
       
-      await storage.updateScrapeJob(jobId, {
+      await this.updateJobStatus(jobId, {
         status: "error",
         completedAt: new Date().toISOString(),
         error: error instanceof Error ? error.message : "Unknown error",
       });
+      webhookDispatcher.notify(jobId, "error", {
+        url,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }, config, this.config);
       callbacks.onError?.(error as Error);
 
       throw error;
     } finally {
+      jobControlRegistry.release(jobId);
       await page.close();
     }
   }
 
+  /**
+   * Persist the final state of a job that stopped because of a cancel or pause request
+   * A paused job keeps its unprocessed links (plus retryable failures) so resume can continue from them
+   */
+  private async finishStoppedJob(
+    jobId: string,
+    control: JobControl,
+    images: ScrapedImage[],
+    remainingLinks: ImageLink[],
+    state: Omit<PausedJobState, 'remainingLinks'>
+  ): Promise<void> {
+    if (control.getRequest() === 'cancel') {
+      await this.updateJobStatus(jobId, {
+        status: "cancelled",
+        completedAt: new Date().toISOString(),
+        images,
+        scrapedImages: state.scrapedCount,
+      });
+      console.log(`\n🛑 Job ${jobId} cancelled. Kept ${state.scrapedCount} scraped images.`);
+      return;
+    }
+
+    // Failed images were not retried yet - queue them again for the resumed run
+    const pendingLinks = new Map(remainingLinks.map(link => [link.imageId, link]));
+    for (const failure of failedScrapesLogger.getFailures()) {
+      if (failure.httpStatus === 404 || failure.httpStatus === 403 || failure.httpStatus === 401) continue;
+      if (pendingLinks.has(failure.imageId)) continue;
+      const urlMatch = failure.url.match(/\/search\/image\/([^\/]+)\/([^\/\?]+)/);
+      pendingLinks.set(failure.imageId, { url: failure.url, imageId: failure.imageId, hash: urlMatch ? urlMatch[1] : '' });
+    }
+
+    jobControlRegistry.savePaused(jobId, { ...state, remainingLinks: Array.from(pendingLinks.values()) });
+    await this.updateJobStatus(jobId, {
+      status: "paused",
+      images,
+      scrapedImages: state.scrapedCount,
+      progress: Math.round((state.attemptedCount / Math.max(state.totalLinks, 1)) * 100),
+    });
+    console.log(`\n⏸️  Job ${jobId} paused. ${pendingLinks.size} images left to process.`);
+  }
+
+  /**
+   * Navigate to the search page and collect image links (initial page + auto-scroll/pagination)
+   * Discovery stops early only on cancellation - a pause takes effect once processing starts
+   */
+  private async discoverImageLinks(
+    page: Page,
+    jobId: string,
+    targetUrl: string,
+    config: ScrapeConfig,
+    control: JobControl
+  ): Promise<{ links: ImageLink[]; thumbnails: Map<string, string> }> {
+    // Apply the configured sort order and search facets before navigating
+    const url = buildSearchUrl(targetUrl, config);
+    if (url !== targetUrl) {
+      console.log(`🔎 Search options applied: ${url}`);
+    }
+    await storage.updateScrapeJob(jobId, { effectiveUrl: url });
+
+    console.log(`Navigating to ${url}...`);
+    
+    // Get navigation configuration from config
+    const navigationTimeout = this.config?.navigation?.timeout || 60000;
+    const waitUntil = this.config?.navigation?.waitUntil || 'domcontentloaded';
+    
+    // Retry navigation with exponential backoff
+    let attempts = 0;
+    const maxAttempts = 3;
+    let navigationSuccess = false;
+
+    while (attempts < maxAttempts && !navigationSuccess) {
+      attempts++;
+      console.log(`Navigation attempt ${attempts}/${maxAttempts} to ${url}`);
+      
+      try {
+        await page.goto(url, {
+          waitUntil: waitUntil as any,
+          timeout: navigationTimeout
+        });
+        navigationSuccess = true;
+      } catch (error) {
+        console.error(`Navigation attempt ${attempts} failed:`, error);
+        if (attempts === maxAttempts) throw error;
+        await this.waitTimeHelper!.wait(2000 * attempts);
+      }
+    }
+
+    // Wait for SmartFrame embeds to load
+    try {
+      await page.waitForSelector('smartframe-embed, .sf-thumbnail, [data-testid="image-card"]', { timeout: 15000 });
+    } catch (error) {
+      console.log("SmartFrame elements not found with standard selectors, trying fallback...");
+      await this.waitTimeHelper!.wait(3000);
+    }
+
+    // Extract thumbnails from search page
+    const thumbnails = await this.extractThumbnailsFromSearch(page);
+    console.log(`Extracted ${thumbnails.size} thumbnails from search page`);
+
+    // Create accumulator for incrementally discovered image links
+    const discoveredLinks = new Map<string, { url: string; imageId: string; hash: string }>();
+
+    // NEW: Collect initial page before autoScroll starts
+    console.log('Collecting images from initial page...');
+    const initialPageLinks = await this.collectPageImageLinks(page);
+    for (const link of initialPageLinks) {
+      discoveredLinks.set(link.imageId, link);
+    }
+    console.log(`Initial page: collected ${discoveredLinks.size} images`);
+
+    // Auto-scroll to load all images with incremental collection
+    if (config.autoScroll) {
+      await this.autoScroll(
+        page, 
+        config.maxImages, 
+        config.scrollDelay || 1000, 
+        async (progress: ScrapeProgress) => {
+          await storage.updateScrapeJob(jobId, {
+            progress: Math.round(progress.percentage),
+            scrapedImages: progress.current,
+            totalImages: progress.total,
+          });
+          jobEventBus.emit({
+            type: "progress",
+            jobId,
+            progress: Math.round(progress.percentage),
+            scrapedImages: progress.current,
+            totalImages: progress.total,
+          });
+        },
+        async () => {
+          // Collect images from current page after each pagination
+          const pageLinks = await this.collectPageImageLinks(page);
+          for (const link of pageLinks) {
+            discoveredLinks.set(link.imageId, link);
+          }
+          console.log(`Collected ${discoveredLinks.size} unique images so far`);
+        },
+        () => control.getRequest() === 'cancel'
+      );
+    }
+    
+    // Convert discovered links Map to array
+    const discovered = Array.from(discoveredLinks.values());
+    console.log(`Total unique images collected: ${discovered.length}`);
+
+    // Scheduled runs only process images that earlier runs of the same schedule have not scraped
+    // (unless they re-check known images for metadata changes)
+    const imageLinks = config.recheckKnownImages ? discovered : await this.excludeSeenScheduleImages(jobId, discovered);
+
+    // Apply max images limit if specified
+    const limitedLinks = config.maxImages === 0 ? imageLinks : imageLinks.slice(0, config.maxImages);
+
+    console.log(`Processing ${limitedLinks.length} image links`);
+
+    return { links: limitedLinks, thumbnails };
+  }
+
+  /**
+   * Drop links already scraped by earlier runs of the job's schedule (no-op for manual jobs)
+   */
+  private async excludeSeenScheduleImages(jobId: string, links: ImageLink[]): Promise<ImageLink[]> {
+    const job = await storage.getScrapeJobSummary(jobId);
+    if (!job?.scheduleId) return links;
+
+    const seenImageIds = await storage.getScheduleSeenImageIds(job.scheduleId, jobId);
+    const newLinks = links.filter(link => !seenImageIds.has(link.imageId));
+    console.log(`🗓️  Scheduled run: ${links.length - newLinks.length} images already scraped by earlier runs, ${newLinks.length} new`);
+    return newLinks;
+  }
+
   private async dismissCookieBanner(page: Page): Promise<void> {
     try {
       const cookieSelector = '.cky-btn.cky-btn-accept';
@@ -846,9 +1510,11 @@ class SmartFrameScraper {
     initialConcurrency: number,
     jobId: string,
     config: ScrapeConfig,
+    control: JobControl,
     onProgress: (currentImages: ScrapedImage[], attemptedCount: number) => Promise<void>
-  ): Promise<ScrapedImage[]> {
+  ): Promise<{ images: ScrapedImage[]; remainingLinks: ImageLink[]; attemptedCount: number }> {
     const results: ScrapedImage[] = [];
+    let remainingLinks: ImageLink[] = [];
     let attemptedCount = 0;
     
     // PROCESS RECYCLING: Initialize memory monitoring and process recycling from Python script
@@ -870,7 +1536,39 @@ class SmartFrameScraper {
       concurrency = maxConcurrency;
     }
     
-    // SINGLE-TAB PROCESSING: Simplified to use sequential processing for all modes
+    // HTTP PROCESSING: Metadata-only jobs can skip Puppeteer entirely
+    if (config.metadataMode === "http") {
+      if (canvasExtraction === "none") {
+        return this.processImagesOverHttp(
+          linkData,
+          thumbnails,
+          extractDetails,
+          concurrency,
+          jobId,
+          config,
+          control,
+          onProgress
+        );
+      }
+      console.log(`⚠️  HTTP metadata mode ignored - canvas extraction requires the browser`);
+    }
+
+    // MULTI-TAB PROCESSING: Metadata-only jobs have no GPU rendering constraints,
+    // so several tabs can wait out page loads side by side
+    if (canvasExtraction === "none" && !orderedSequential && concurrency > 1) {
+      return this.processImagesMultiTab(
+        linkData,
+        thumbnails,
+        extractDetails,
+        concurrency,
+        jobId,
+        config,
+        control,
+        onProgress
+      );
+    }
+    
+    // SINGLE-TAB PROCESSING: Canvas and ordered sequential modes use one tab
     // Multithreaded tab rotation was removed due to GPU rendering complexity and no performance benefit
     concurrency = 1;
     if (canvasExtraction !== "none") {
@@ -920,6 +1618,13 @@ class SmartFrameScraper {
       for (let i = 0; i < linkData.length; i++) {
         const link = linkData[i];
         
+        // Cooperative stop point: cancel/pause requests take effect between images
+        if (control.isStopRequested()) {
+          remainingLinks = linkData.slice(i);
+          console.log(`⏹️  ${control.getRequest() === 'cancel' ? 'Cancel' : 'Pause'} requested - stopping with ${remainingLinks.length} images unprocessed`);
+          break;
+        }
+        
         if (i > 0 && i % PAGE_RECREATION_INTERVAL === 0) {
           try {
             console.log(`🔄 [Memory Cleanup] Closing page after ${i} images...`);
@@ -963,6 +1668,9 @@ class SmartFrameScraper {
           });
         }
         
+        const linkFailed = failedScrapesLogger.getFailures().some(failure => failure.imageId === link.imageId);
+        await this.persistLinkStatus(jobId, link.imageId, linkFailed ? "failed" : "done");
+        
         attemptedCount++;
         await onProgress([...results], attemptedCount);
         
@@ -989,19 +1697,295 @@ class SmartFrameScraper {
           }
         }
         
-        if (i < linkData.length - 1) {
+        if (i < linkData.length - 1 && !control.isStopRequested()) {
           const delay = Math.floor(Math.random() * (interTabDelayMax - interTabDelayMin + 1)) + interTabDelayMin;
           console.log(`⏳ Waiting ${delay}ms before loading next tab...`);
           await new Promise(resolve => setTimeout(resolve, delay));
         }
       }
     } finally {
-      // Clean up worker pages
-      await Promise.all(workerPages.map(page => page.close().catch(() => {})));
+      // Clean up worker pages
+      await Promise.all(workerPages.map(page => page.close().catch(() => {})));
+    }
+
+    console.log(`\n✅ Sequential processing complete: ${results.length} images extracted\n`);
+    return { images: results, remainingLinks, attemptedCount };
+  }
+
+  /**
+   * Metadata-only processing across several tabs
+   * Each worker owns one tab and pulls the next link from a shared cursor, so a slow page
+   * only holds up its own tab. A plain worker pool is enough here: PageActivationScheduler's
+   * phases and rotation exist to share GPU time between rendering tabs, and without canvas
+   * extraction no tab ever renders
+   */
+  private async processImagesMultiTab(
+    linkData: ImageLink[],
+    thumbnails: Map<string, string>,
+    extractDetails: boolean,
+    concurrency: number,
+    jobId: string,
+    config: ScrapeConfig,
+    control: JobControl,
+    onProgress: (currentImages: ScrapedImage[], attemptedCount: number) => Promise<void>
+  ): Promise<{ images: ScrapedImage[]; remainingLinks: ImageLink[]; attemptedCount: number }> {
+    const results: ScrapedImage[] = [];
+    let attemptedCount = 0;
+    let nextLinkIndex = 0;
+    
+    const tabCount = Math.min(concurrency, linkData.length);
+    const interTabDelayMin = config.interTabDelayMin || this.config?.scraping?.interTabDelayMin || 3000;
+    const interTabDelayMax = config.interTabDelayMax || this.config?.scraping?.interTabDelayMax || 5000;
+    const randomDelay = () => Math.floor(Math.random() * (interTabDelayMax - interTabDelayMin + 1)) + interTabDelayMin;
+    const memoryMonitor = new MemoryMonitor();
+    
+    console.log(`📑 Metadata multi-tab mode - using ${tabCount} tabs`);
+    console.log(`⏱️  Per-tab delay between images: ${interTabDelayMin}-${interTabDelayMax}ms`);
+    
+    const pages: Page[] = [];
+    const tabStats: TabThroughput[] = [];
+    for (let i = 0; i < tabCount; i++) {
+      tabStats.push({ tab: i + 1, processed: 0, failed: 0, busyMs: 0 });
+    }
+    const reportInterval = Math.max(tabCount * 5, 10);
+    
+    // Progress updates are chained so the database sees them in order
+    let progressChain: Promise<void> = Promise.resolve();
+    
+    const runWorker = async (workerIndex: number) => {
+      // Stagger tab start-up so the tabs don't hit SmartFrame at the same moment
+      if (workerIndex > 0) {
+        await new Promise(resolve => setTimeout(resolve, workerIndex * 2000));
+      }
+      
+      while (!control.isStopRequested() && nextLinkIndex < linkData.length) {
+        const linkIndex = nextLinkIndex++;
+        const link = linkData[linkIndex];
+        
+        const stats = tabStats[workerIndex];
+        const startedAt = Date.now();
+        
+        try {
+          const image = await this.extractImageData(
+            pages[workerIndex],
+            link.url,
+            link.imageId,
+            link.hash,
+            extractDetails,
+            thumbnails.get(link.imageId),
+            config
+          );
+          
+          if (image) {
+            console.log(`✓ [Tab ${stats.tab}] [${linkIndex + 1}/${linkData.length}] ${link.imageId}`);
+            results.push(image);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          console.error(`✗ [Tab ${stats.tab}] Error scraping ${link.url}:`, errorMsg);
+          
+          failedScrapesLogger.addFailure({
+            imageId: link.imageId,
+            url: link.url,
+            reason: `Uncaught exception: ${errorMsg}`,
+            attempts: 1,
+            timestamp: new Date().toISOString()
+          });
+        }
+        
+        const linkFailed = failedScrapesLogger.getFailures().some(failure => failure.imageId === link.imageId);
+        stats.processed++;
+        stats.busyMs += Date.now() - startedAt;
+        if (linkFailed) stats.failed++;
+        await this.persistLinkStatus(jobId, link.imageId, linkFailed ? "failed" : "done");
+        
+        attemptedCount++;
+        const imagesSnapshot = [...results];
+        const attemptedSnapshot = attemptedCount;
+        progressChain = progressChain.then(() => onProgress(imagesSnapshot, attemptedSnapshot));
+        await progressChain;
+        
+        if (attemptedCount % reportInterval === 0) {
+          this.reportTabThroughput(jobId, tabStats);
+          memoryMonitor.report(`After ${attemptedCount} images (multi-tab)`);
+        }
+        
+        if (nextLinkIndex < linkData.length && !control.isStopRequested()) {
+          await new Promise(resolve => setTimeout(resolve, randomDelay()));
+        }
+      }
+    };
+    
+    try {
+      for (let i = 0; i < tabCount; i++) {
+        pages.push(await this.createConfiguredPage({ width: 1920, height: 1080 }));
+      }
+      await Promise.all(pages.map((_, index) => runWorker(index)));
+    } finally {
+      await Promise.all(pages.map(page => page.close().catch(() => {})));
+    }
+    
+    const remainingLinks = linkData.slice(nextLinkIndex);
+    if (control.isStopRequested() && remainingLinks.length > 0) {
+      console.log(`⏹️  ${control.getRequest() === 'cancel' ? 'Cancel' : 'Pause'} requested - stopping with ${remainingLinks.length} images unprocessed`);
+    }
+    
+    this.reportTabThroughput(jobId, tabStats);
+    console.log(`\n✅ Multi-tab processing complete: ${results.length} images extracted\n`);
+    return { images: results, remainingLinks, attemptedCount };
+  }
+
+  /**
+   * Metadata-only processing over plain HTTP (metadataMode "http")
+   * Pages are fetched and parsed without Puppeteer; a browser tab is only opened, lazily,
+   * for images whose HTML could not be parsed, and fallbacks share that single tab
+   */
+  private async processImagesOverHttp(
+    linkData: ImageLink[],
+    thumbnails: Map<string, string>,
+    extractDetails: boolean,
+    concurrency: number,
+    jobId: string,
+    config: ScrapeConfig,
+    control: JobControl,
+    onProgress: (currentImages: ScrapedImage[], attemptedCount: number) => Promise<void>
+  ): Promise<{ images: ScrapedImage[]; remainingLinks: ImageLink[]; attemptedCount: number }> {
+    const results: ScrapedImage[] = [];
+    let attemptedCount = 0;
+    let nextLinkIndex = 0;
+    let fallbackCount = 0;
+
+    const workerCount = Math.min(concurrency, linkData.length);
+    // Plain requests don't need the tab delays, which leave time for pages to render
+    const requestDelayMs = this.config?.scraping?.httpRequestDelayMs ?? 250;
+
+    console.log(`🌐 HTTP metadata mode - using ${workerCount} concurrent requests, browser fallback on parse failures`);
+    console.log(`⏱️  Per-worker delay between requests: ${requestDelayMs}ms`);
+
+    // Browser fallback: one lazily created tab, used by one image at a time
+    let fallbackPage: Page | null = null;
+    let fallbackChain: Promise<unknown> = Promise.resolve();
+    const extractWithBrowser = (link: ImageLink): Promise<ScrapedImage | null> => {
+      const run = fallbackChain.then(async () => {
+        if (!fallbackPage) {
+          console.log(`📄 Opening browser tab for HTTP fallbacks...`);
+          fallbackPage = await this.createConfiguredPage({ width: 1920, height: 1080 });
+        }
+        return this.extractImageData(
+          fallbackPage,
+          link.url,
+          link.imageId,
+          link.hash,
+          extractDetails,
+          thumbnails.get(link.imageId),
+          config
+        );
+      });
+      fallbackChain = run.catch(() => undefined);
+      return run;
+    };
+
+    // Progress updates are chained so the database sees them in order
+    let progressChain: Promise<void> = Promise.resolve();
+
+    const runWorker = async (workerIndex: number) => {
+      if (workerIndex > 0) {
+        await new Promise(resolve => setTimeout(resolve, workerIndex * 500));
+      }
+
+      while (!control.isStopRequested() && nextLinkIndex < linkData.length) {
+        const linkIndex = nextLinkIndex++;
+        const link = linkData[linkIndex];
+
+        try {
+          let image = await this.findKnownImage(link.imageId, thumbnails.get(link.imageId), config);
+          if (!image) {
+            image = await this.extractImageDataOverHttp(link.url, link.imageId, link.hash, extractDetails, thumbnails.get(link.imageId), config.captionLocale);
+            if (!image) {
+              fallbackCount++;
+              console.log(`🔁 [${link.imageId}] Falling back to browser extraction`);
+              image = await extractWithBrowser(link);
+            }
+          }
+
+          if (image) {
+            console.log(`✓ [${linkIndex + 1}/${linkData.length}] ${link.imageId}`);
+            results.push(image);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          console.error(`✗ Error scraping ${link.url}:`, errorMsg);
+
+          failedScrapesLogger.addFailure({
+            imageId: link.imageId,
+            url: link.url,
+            reason: `Uncaught exception: ${errorMsg}`,
+            attempts: 1,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        const linkFailed = failedScrapesLogger.getFailures().some(failure => failure.imageId === link.imageId);
+        await this.persistLinkStatus(jobId, link.imageId, linkFailed ? "failed" : "done");
+
+        attemptedCount++;
+        const imagesSnapshot = [...results];
+        const attemptedSnapshot = attemptedCount;
+        progressChain = progressChain.then(() => onProgress(imagesSnapshot, attemptedSnapshot));
+        await progressChain;
+
+        if (requestDelayMs > 0 && nextLinkIndex < linkData.length && !control.isStopRequested()) {
+          await new Promise(resolve => setTimeout(resolve, requestDelayMs));
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: workerCount }, (_, index) => runWorker(index)));
+    } finally {
+      await fallbackChain;
+      const page = fallbackPage as Page | null;
+      await page?.close().catch(() => {});
     }
 
-    console.log(`\n✅ Sequential processing complete: ${results.length} images extracted\n`);
-    return results;
+    const remainingLinks = linkData.slice(nextLinkIndex);
+    if (control.isStopRequested() && remainingLinks.length > 0) {
+      console.log(`⏹️  ${control.getRequest() === 'cancel' ? 'Cancel' : 'Pause'} requested - stopping with ${remainingLinks.length} images unprocessed`);
+    }
+
+    console.log(`\n✅ HTTP processing complete: ${results.length} images extracted (${fallbackCount} browser fallbacks)\n`);
+    return { images: results, remainingLinks, attemptedCount };
+  }
+
+  /**
+   * Log per-tab throughput and stream it to job event subscribers
+   */
+  private reportTabThroughput(jobId: string, tabStats: TabThroughput[]): void {
+    const tabs = tabStats.map(stats => ({
+      tab: stats.tab,
+      processed: stats.processed,
+      failed: stats.failed,
+      averageSeconds: stats.processed > 0 ? Math.round(stats.busyMs / stats.processed / 100) / 10 : 0,
+      imagesPerMinute: stats.busyMs > 0 ? Math.round((stats.processed / stats.busyMs) * 60000 * 10) / 10 : 0,
+    }));
+    
+    console.log(`\n📊 Per-tab throughput:`);
+    for (const tab of tabs) {
+      console.log(`   Tab ${tab.tab}: ${tab.processed} images (${tab.failed} failed), ${tab.averageSeconds}s/image, ${tab.imagesPerMinute} images/min`);
+    }
+    
+    jobEventBus.emit({ type: "tab-throughput", jobId, tabs });
+  }
+
+  /**
+   * Record the processing state of a link (non-fatal - resume falls back to scraped_images)
+   */
+  private async persistLinkStatus(jobId: string, imageId: string, status: JobLinkStatus): Promise<void> {
+    try {
+      await storage.updateJobLinkStatus(jobId, imageId, status);
+    } catch (error) {
+      console.error(`⚠️  Failed to persist link state for ${imageId}:`, error instanceof Error ? error.message : error);
+    }
   }
 
   private async extractThumbnailsFromSearch(page: Page): Promise<Map<string, string>> {
@@ -1094,7 +2078,8 @@ class SmartFrameScraper {
     maxImages: number, 
     scrollDelay: number, 
     onProgress: (progress: ScrapeProgress) => void,
-    onPageChange?: () => Promise<void>
+    onPageChange?: () => Promise<void>,
+    shouldStop?: () => boolean
   ): Promise<void> {
     let previousHeight;
     let imageCount = 0;
@@ -1127,6 +2112,11 @@ class SmartFrameScraper {
     console.log(`Starting auto-scroll (target: ${isUnlimited ? 'unlimited' : maxImages} images, delay: ${scrollDelay}ms, patience: ${patienceRounds} rounds)`);
 
     while (isUnlimited || imageCount < maxImages) {
+      if (shouldStop?.()) {
+        console.log('Auto-scroll stopped: job cancellation requested.');
+        break;
+      }
+
       // Get current page state for comparison
       const currentUrl = page.url();
       const currentPageKey = currentUrl + '-' + imageCount; // Unique key for this page state
@@ -1723,6 +2713,7 @@ class SmartFrameScraper {
               console.log(`✅ [Round ${retryRound}, Retry ${retryAttempt}] Success: ${failure.imageId}`);
               // Remove from failed list since retry was successful
               failedScrapesLogger.removeSuccess(failure.imageId);
+              await this.persistLinkStatus(jobId, failure.imageId, "done");
               successCount++;
               return image;
             } else {
@@ -1782,6 +2773,16 @@ class SmartFrameScraper {
     return results;
   }
 
+  /**
+   * Set dateTaken to the ISO 8601 form of a date as written and dateTakenEdtf to its EDTF form
+   * Text that does not parse is kept as written, without an EDTF form
+   */
+  private setDateTaken(target: Partial<ScrapedImage>, dateValue: string | null): void {
+    const parsed = parseDate(dateValue);
+    target.dateTaken = parsed?.iso ?? dateValue;
+    target.dateTakenEdtf = parsed?.edtf ?? null;
+  }
+
   private parseMetadata(rawData: SmartframeMetadata): Partial<ScrapedImage> {
     const result: Partial<ScrapedImage> = {
       titleField: null,
@@ -1791,6 +2792,12 @@ class SmartFrameScraper {
       authors: null,
       dateTaken: null,
       copyright: null,
+      city: null,
+      country: null,
+      location: null,
+      event: null,
+      contentPartner: this.cleanTextHelper(rawData.contentPartner || null),
+      featuring: null,
     };
 
     const title = this.cleanTextHelper(rawData.title || null);
@@ -1805,88 +2812,13 @@ class SmartFrameScraper {
       result.tags = tagsList.length > 0 ? tagsList.join(', ') : null;
     }
 
-    // Reduced logging for performance
-    // console.log(`[DEBUG parseMetadata] Processing ${rawData.labelValues?.length || 0} label-value pairs`);
-    
-    for (const item of rawData.labelValues || []) {
-      const label = item.label?.toLowerCase() || '';
-      const value = this.cleanTextHelper(item.value);
-
-      if (!value) continue;
-
-      switch (label) {
-        case 'photographer':
-        case 'credit':
-        case 'photo credit':
-        case 'by':
-        case 'author':
-        case 'shot by':
-        case 'photo by':
-          result.authors = result.authors || value;
-          if (value.includes('©') || value.includes('Copyright')) {
-            result.copyright = result.copyright || value;
-          }
-          break;
-        case 'date':
-        case 'date taken':
-        case 'when':
-        case 'date created':
-        case 'created':
-          if (!result.dateTaken) {
-            result.dateTaken = normalizeDate(value) || value;
-          }
-          break;
-        case 'event':
-        case 'title':
-        case 'headline':
-        case 'event title':
-          result.titleField = result.titleField || value;
-          break;
-        case 'caption':
-        case 'description':
-        case 'desc':
-          result.comments = result.comments || value;
-          break;
-        case 'featuring':
-        case 'people':
-        case 'subject':
-        case 'subjects':
-        case 'person':
-        case 'who':
-          result.subjectField = result.subjectField || value;
-          break;
-        case 'where':
-        case 'location':
-        case 'place':
-          // Parse location as "City, Country" or just "Country"
-          const locationParts = value.split(',').map((part: string) => part.trim());
-          if (locationParts.length === 2) {
-            (result as any).city = locationParts[0];
-            (result as any).country = locationParts[1];
-          } else if (locationParts.length === 1) {
-            (result as any).country = locationParts[0];
-          }
-          break;
-        case 'city':
-          (result as any).city = value;
-          break;
-        case 'country':
-          (result as any).country = value;
-          break;
-        case 'tags':
-        case 'keywords':
-        case 'keyword':
-          if (value && !result.tags) {
-            result.tags = value;
-          }
-          break;
-        case 'copyright':
-        case '©':
-        case 'rights':
-          result.copyright = result.copyright || value;
-          break;
-      }
-    }
+    // Map label/value pairs to fields with the configured rules (label-mappings.json)
+    const labelValues = (rawData.labelValues || []).map(item => ({
+      label: item.label || '',
+      value: this.cleanTextHelper(item.value) || '',
+    }));
+    // Unmapped labels are reported per job (GET /api/scrape/job/:jobId/unmapped-labels)
+    applyLabelMappings(result, labelValues, this.getLabelMappingRules());
 
     result.titleField = result.titleField || title;
 
@@ -1914,15 +2846,13 @@ class SmartFrameScraper {
       // Strategy 2: Look for date patterns in caption
       const dateMatch = captionText.match(/(?:When|Date):\s*([^\n]+)/i);
       if (dateMatch && !result.dateTaken) {
-        const dateValue = this.cleanTextHelper(dateMatch[1]);
-        result.dateTaken = normalizeDate(dateValue) || dateValue;
+        this.setDateTaken(result, this.cleanTextHelper(dateMatch[1]));
       }
       
       // Also check for date format: "City, Country - DD.MM.YY"
       const datePattern = captionText.match(/[-–]\s+(\d{2}\.\d{2}\.\d{2,4})/);
       if (datePattern && !result.dateTaken) {
-        const datePart = datePattern[1].trim();
-        result.dateTaken = normalizeDate(datePart) || datePart;
+        this.setDateTaken(result, datePattern[1].trim());
       }
 
       // Strategy 3: Look for "Featuring:" marker with enhanced pattern matching
@@ -1930,6 +2860,7 @@ class SmartFrameScraper {
       const featuringMatch = captionText.match(/Featuring\s*[:–—-]\s*([^\n]+)/i);
       if (featuringMatch) {
         result.subjectField = result.subjectField || this.cleanTextHelper(featuringMatch[1]);
+        result.featuring = result.featuring || this.cleanTextHelper(featuringMatch[1]);
       }
       
       // Strategy 4: Look for "Where:" marker to extract location (city, country)
@@ -1938,15 +2869,16 @@ class SmartFrameScraper {
       if (whereMatch) {
         const locationText = this.cleanTextHelper(whereMatch[1]);
         if (locationText) {
+          result.location = result.location || locationText;
           // Parse location as "City, Country" or just "Country"
           const locationParts = locationText.split(',').map(part => part.trim());
           if (locationParts.length === 2) {
             // Format: "City, Country"
-            (result as any).city = locationParts[0];
-            (result as any).country = locationParts[1];
+            result.city = locationParts[0];
+            result.country = locationParts[1];
           } else if (locationParts.length === 1) {
             // Format: just "Country" or "City"
-            (result as any).country = locationParts[0];
+            result.country = locationParts[0];
           }
         }
       }
@@ -1970,10 +2902,13 @@ class SmartFrameScraper {
       result.titleField = result.titleField || this.cleanTextHelper(nextData.title || nextData.eventTitle || nextData.headline);
       result.subjectField = result.subjectField || this.cleanTextHelper(nextData.featuring || nextData.people || nextData.subject);
       result.copyright = result.copyright || this.cleanTextHelper(nextData.copyright);
+      result.event = result.event || this.cleanTextHelper(nextData.eventTitle || nextData.event);
+      result.featuring = result.featuring || this.cleanTextHelper(nextData.featuring || nextData.people);
+      result.city = result.city || this.cleanTextHelper(nextData.city);
+      result.country = result.country || this.cleanTextHelper(nextData.country);
       
       if (!result.dateTaken) {
-        const dateValue = this.cleanTextHelper(nextData.date || nextData.dateCreated || nextData.dateTaken);
-        result.dateTaken = normalizeDate(dateValue) || dateValue;
+        this.setDateTaken(result, this.cleanTextHelper(nextData.date || nextData.dateCreated || nextData.dateTaken));
       }
       
       if (nextData.tags && Array.isArray(nextData.tags)) {
@@ -1987,21 +2922,10 @@ class SmartFrameScraper {
     return result;
   }
 
-  private async extractImageData(
-    page: Page,
-    url: string,
-    imageId: string,
-    hash: string,
-    extractDetails: boolean,
-    thumbnailUrl: string | undefined,
-    config: ScrapeConfig
-  ): Promise<ScrapedImage | null> {
-    // CHECK: Skip if image was already successfully completed
-    if (completedImagesTracker.isCompleted(imageId)) {
-      console.log(`⏭️  [${imageId}] Already completed - skipping`);
-      return null; // Skip this image
-    }
-
+  /**
+   * Create the image record for a link, pre-filled from network-intercepted metadata when available
+   */
+  private createImageRecord(url: string, imageId: string, hash: string, thumbnailUrl: string | undefined): ScrapedImage {
     const image: ScrapedImage = {
       imageId,
       hash,
@@ -2016,6 +2940,12 @@ class SmartFrameScraper {
       authors: null,
       dateTaken: null,
       copyright: null,
+      city: null,
+      country: null,
+      location: null,
+      event: null,
+      contentPartner: null,
+      featuring: null,
     };
 
     // Check if we have cached metadata from network interception (Strategy A)
@@ -2029,10 +2959,14 @@ class SmartFrameScraper {
       image.comments = cachedData?.description || cachedData?.caption || null;
       image.copyright = cachedData?.copyright || cachedData?.credit || null;
       image.authors = cachedData?.photographer || cachedData?.author || cachedData?.credit || null;
+      image.city = cachedData?.city || null;
+      image.country = cachedData?.country || null;
+      image.event = cachedData?.eventTitle || cachedData?.event || null;
+      image.featuring = cachedData?.featuring || cachedData?.people || null;
       
       if (cachedData?.date || cachedData?.dateCreated || cachedData?.created_at || cachedData?.dateTaken) {
         const dateValue = cachedData.date || cachedData.dateCreated || cachedData.created_at || cachedData.dateTaken;
-        image.dateTaken = normalizeDate(dateValue as string) || dateValue;
+        this.setDateTaken(image, String(dateValue));
       }
       
       if (cachedData?.tags && Array.isArray(cachedData.tags)) {
@@ -2041,6 +2975,377 @@ class SmartFrameScraper {
       }
     }
 
+    return image;
+  }
+
+  /**
+   * Check raw page data for error pages and empty extractions
+   * Returns the failure reason, or null when the data is usable
+   */
+  private detectMetadataProblem(rawData: SmartframeMetadata): string | null {
+    // Detect error pages by checking the title and content
+    const errorPageIndicators = [
+      '502 bad gateway',
+      '503 service unavailable',
+      '500 internal server error',
+      '504 gateway timeout',
+      '429 too many requests',
+      'error occurred',
+      'page not found',
+      'access denied',
+      'rate limit exceeded'
+    ];
+
+    const titleLower = (rawData.title || '').toLowerCase().trim();
+    if (errorPageIndicators.some(indicator => titleLower.includes(indicator))) {
+      return `Error page detected: ${rawData.title}`;
+    }
+
+    // If we have 0 label-value pairs AND no useful title/caption, it's likely an error
+    const hasNoMetadata = (!rawData.labelValues || rawData.labelValues.length === 0) && 
+                         !rawData.nextData && 
+                         (!rawData.title || rawData.title.length < 3) &&
+                         (!rawData.caption || rawData.caption.length < 10);
+
+    if (hasNoMetadata) {
+      return 'No metadata found - possible rate limiting or error page';
+    }
+
+    return null;
+  }
+
+  /**
+   * Merge parsed page metadata into the image and generate the metadata-rich caption
+   */
+  private applyRawMetadata(
+    image: ScrapedImage,
+    rawData: SmartframeMetadata,
+    imageId: string,
+    cachedMetadata: SmartframeMetadata | undefined = metadataCache.get(imageId)
+  ): void {
+    const metadata = this.parseMetadata(rawData);
+    
+    // Reduced logging for performance - uncomment for debugging
+    // console.log(`[DEBUG] Parsed metadata for ${url}:`, {
+    //   photographer: metadata.photographer,
+    //   title: metadata.title,
+    //   featuring: metadata.featuring,
+    //   date: metadata.date,
+    //   dateTaken: metadata.dateTaken
+    // });
+
+    // Merge metadata with priority: DOM > Network Cache > Existing
+    // CRITICAL: Only overwrite existing fields if new value is truthy (not null/undefined/empty)
+    // This prevents regressing data during retries or multi-pass scraping
+    
+    // Helper to safely merge: only overwrite if new value exists and is non-empty
+    const safeString = (newVal: string | null | undefined, fallback1?: string | null, fallback2?: any): string | null => {
+      if (newVal && newVal.trim()) return newVal;
+      if (fallback1 && fallback1.trim()) return fallback1;
+      if (typeof fallback2 === 'string' && fallback2.trim()) return fallback2;
+      return null;
+    };
+    
+    // Merge with priority: DOM > Existing > Network Cache (preserve existing data)
+    image.titleField = safeString(metadata.titleField, image.titleField, cachedMetadata?.title);
+    image.subjectField = safeString(metadata.subjectField, image.subjectField, cachedMetadata?.featuring) ?? 
+                       safeString(null, null, cachedMetadata?.people);
+    image.tags = safeString(metadata.tags, image.tags) ?? 
+                 (cachedMetadata?.keywords && Array.isArray(cachedMetadata.keywords) ? cachedMetadata.keywords.join(', ') : null);
+    image.copyright = safeString(metadata.copyright, image.copyright, cachedMetadata?.copyright) ?? 
+                    safeString(null, null, cachedMetadata?.copyrightNotice);
+    const dateTaken = safeString(metadata.dateTaken, image.dateTaken, cachedMetadata?.date);
+    // The EDTF form follows the date it was parsed from (a cached date is parsed by the clean step)
+    image.dateTakenEdtf = dateTaken === metadata.dateTaken ? metadata.dateTakenEdtf ?? null
+      : dateTaken === image.dateTaken ? image.dateTakenEdtf ?? null
+      : null;
+    image.dateTaken = dateTaken;
+    image.authors = safeString(metadata.authors, image.authors, cachedMetadata?.photographer) ?? 
+                   safeString(null, null, cachedMetadata?.author);
+
+    // Structured fields, with the same DOM > Existing > Network Cache priority
+    image.city = safeString(metadata.city, image.city, cachedMetadata?.city);
+    image.country = safeString(metadata.country, image.country, cachedMetadata?.country);
+    image.location = safeString(metadata.location, image.location) ??
+                     ([image.city, image.country].filter(Boolean).join(', ') || null);
+    image.event = safeString(metadata.event, image.event, cachedMetadata?.eventTitle) ??
+                  safeString(null, null, cachedMetadata?.event);
+    image.contentPartner = safeString(metadata.contentPartner, image.contentPartner);
+    image.featuring = safeString(metadata.featuring, image.featuring, cachedMetadata?.featuring) ??
+                      safeString(null, null, cachedMetadata?.people);
+
+    const city = image.city || undefined;
+    const country = image.country || undefined;
+
+    // Keep everything the clean fields are derived from, so the job can be re-normalized later
+    image.rawMetadata = {
+      title: rawData.title ?? null,
+      caption: rawData.caption ?? null,
+      keywords: rawData.keywords || [],
+      labelValues: rawData.labelValues || [],
+      contentPartner: rawData.contentPartner ?? null,
+      city: city ?? null,
+      country: country ?? null,
+      nextData: rawData.nextData ?? undefined,
+      networkMetadata: cachedMetadata ? { ...cachedMetadata } : null,
+    };
+
+    // ALWAYS generate metadata-rich caption from structured fields
+    // Format: "{title}\nFeaturing: {featuring}\nWhere: {location}\nWhen: {date}\nCredit: {credit}"
+    const generatedCaption = generateCaption({
+      title: image.titleField || undefined,
+      captionRaw: (metadata as any).caption || (metadata as any).captionRaw || cachedMetadata?.caption || undefined,
+      featuring: image.subjectField || image.featuring || undefined,
+      city: city,
+      country: country,
+      dateTaken: image.dateTaken || undefined,
+      photographer: image.authors || (metadata as any).photographer || cachedMetadata?.photographer || undefined,
+      copyright: image.copyright || undefined
+    });
+    
+    if (generatedCaption && generatedCaption.trim().length > 0) {
+      image.comments = generatedCaption;
+      
+      // Validate metadata completeness and log warnings for missing critical fields
+      const missingFields: string[] = [];
+      if (!image.titleField) missingFields.push('title');
+      if (!image.subjectField) missingFields.push('featuring');
+      if (!city && !country) missingFields.push('location');
+      if (!image.dateTaken) missingFields.push('date');
+      if (!image.authors) missingFields.push('credit');
+      
+      if (missingFields.length > 0) {
+        console.log(`⚠️  [${imageId}] Generated caption with missing fields: ${missingFields.join(', ')}`);
+        
+        // Attempt to regenerate using cached metadata as fallback for missing fields
+        if (cachedMetadata && missingFields.length >= 3) {
+          console.log(`[${imageId}] Attempting fallback caption generation using network cache...`);
+          const fallbackCaption = generateCaption({
+            title: image.titleField || (typeof cachedMetadata.title === 'string' ? cachedMetadata.title : undefined),
+            featuring: image.subjectField || (typeof cachedMetadata.featuring === 'string' ? cachedMetadata.featuring : undefined),
+            city: city || (typeof cachedMetadata.city === 'string' ? cachedMetadata.city : undefined),
+            country: country || (typeof cachedMetadata.country === 'string' ? cachedMetadata.country : undefined),
+            dateTaken: image.dateTaken || (typeof cachedMetadata.date === 'string' ? cachedMetadata.date : undefined),
+            photographer: image.authors || (typeof cachedMetadata.photographer === 'string' ? cachedMetadata.photographer : undefined),
+            copyright: image.copyright || undefined
+          });
+          
+          if (fallbackCaption && fallbackCaption.trim().length > generatedCaption.trim().length) {
+            image.comments = fallbackCaption;
+            console.log(`✓ [${imageId}] Improved caption using network cache fallback`);
+          }
+        }
+      } else {
+        console.log(`✓ [${imageId}] Generated complete metadata-rich caption`);
+      }
+    } else {
+      // Fallback to raw caption or cached metadata
+      image.comments = metadata.comments ?? image.comments ?? 
+                      (typeof cachedMetadata?.caption === 'string' ? cachedMetadata.caption : null);
+      console.log(`⚠️  [${imageId}] Caption generation failed, using raw caption fallback`);
+    }
+  }
+
+  /**
+   * Apply transformToCleanMetadata() to the merged fields
+   * @param captionLocale - Job locale override (ScrapeConfig.captionLocale)
+   */
+  private applyCleanMetadata(image: ScrapedImage, imageId: string, captionLocale?: string): void {
+    this.getLocales();
+    this.getTagTaxonomy();
+    const config = captionLocale
+      ? { ...this.config, caption: { ...this.config?.caption, defaultLocale: captionLocale } }
+      : this.config;
+    const cleanedMetadata = transformToCleanMetadata(image, config, this.compiledTagTaxonomy);
+    
+    // Merge cleaned metadata back into image object
+    // Only overwrite if cleaned value is truthy (preserve existing data)
+    if (cleanedMetadata.titleField) image.titleField = cleanedMetadata.titleField;
+    if (cleanedMetadata.subjectField) image.subjectField = cleanedMetadata.subjectField;
+    // Tags are always replaced: an image whose tags are all stop-words or junk ends up with none
+    image.tags = cleanedMetadata.tags;
+    if (cleanedMetadata.comments) image.comments = cleanedMetadata.comments;
+    if (cleanedMetadata.authors) image.authors = cleanedMetadata.authors;
+    if (cleanedMetadata.dateTaken) image.dateTaken = cleanedMetadata.dateTaken;
+    if (cleanedMetadata.copyright) image.copyright = cleanedMetadata.copyright;
+    // Keep the EDTF form parsed from the text as written: parsing the ISO value again loses
+    // seasons, decades and qualifiers
+    image.dateTakenEdtf = image.dateTakenEdtf || cleanedMetadata.dateTakenEdtf;
+
+    // subjectField falls back to the title, so only a parsed subject may name people
+    this.getPersonAliases();
+    const people = extractPersonNames(image.featuring || cleanedMetadata.parsedSubject, this.compiledPersonAliases);
+    image.people = people.length > 0 ? people : null;
+
+    image.rights = parseRights({
+      copyright: image.copyright,
+      caption: image.rawMetadata?.caption ?? image.comments,
+      authors: image.authors,
+      contentPartner: image.contentPartner,
+      labelValues: image.rawMetadata?.labelValues,
+    });
+    
+    console.log(`✓ [${imageId}] Applied metadata normalization with config`);
+  }
+
+  /**
+   * Final validation of an extracted image and completion tracking
+   */
+  private async finalizeImage(image: ScrapedImage, url: string, imageId: string, extractDetails: boolean): Promise<void> {
+    // Check if the result is empty (no metadata extracted)
+    if (this.config?.scraping?.detectEmptyResults !== false && extractDetails) {
+      if (this.isEmptyResult(image)) {
+        console.log(`⚠️  [${imageId}] No metadata extracted - all fields are null/empty`);
+        failedScrapesLogger.addFailure({
+          imageId,
+          url,
+          reason: 'No metadata extracted',
+          attempts: 1,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
+    // CATALOG: Record the extracted image so later jobs can reuse it without re-scraping
+    // This is done at the very end, after all extraction and validation passes
+    if (!this.isEmptyResult(image)) {
+      try {
+        const changes = await storage.upsertCatalogImage(image);
+        if (changes.length > 0) {
+          console.log(`📝 [${imageId}] Metadata changed since last scrape: ${changes.map(change => change.field).join(', ')}`);
+        }
+        console.log(`✅ [${imageId}] Stored in image catalog`);
+      } catch (error) {
+        console.warn(`⚠️  [${imageId}] Failed to store in image catalog:`, error);
+        // Don't fail the extraction if cataloging fails - image is still valid
+      }
+    }
+  }
+
+  /**
+   * Catalog record of an image extracted by an earlier job, reused instead of scraping it again
+   * Canvas jobs only reuse records that already have a canvas image; re-check jobs never reuse
+   */
+  private async findKnownImage(
+    imageId: string,
+    thumbnailUrl: string | undefined,
+    config: ScrapeConfig
+  ): Promise<ScrapedImage | null> {
+    if (config.recheckKnownImages) return null;
+
+    try {
+      const known = await storage.getCatalogImage(imageId);
+      if (!known) return null;
+
+      if ((config.canvasExtraction || "none") !== "none" && !known.canvasImagePath) {
+        return null;
+      }
+
+      console.log(`♻️  [${imageId}] Already in image catalog - reusing without re-scraping`);
+      return { ...known, thumbnailUrl: known.thumbnailUrl || thumbnailUrl || null };
+    } catch (error) {
+      console.warn(`⚠️  [${imageId}] Image catalog lookup failed - scraping anyway:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract an image's metadata from its server-rendered HTML (no browser)
+   * HTTP errors are handled like the browser path (partial data + failure log);
+   * returns null when the page could not be fetched or parsed, so the caller
+   * can fall back to extractImageData()
+   */
+  private async extractImageDataOverHttp(
+    url: string,
+    imageId: string,
+    hash: string,
+    extractDetails: boolean,
+    thumbnailUrl: string | undefined,
+    captionLocale: string | undefined
+  ): Promise<ScrapedImage | null> {
+    const image = this.createImageRecord(url, imageId, hash, thumbnailUrl);
+
+    if (extractDetails) {
+      const timeoutMs = this.config?.metadata?.metadataTimeout || 15000;
+      const maxAttempts = 3;
+      let html: string | null = null;
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        let httpStatus = 0;
+        try {
+          const response = await fetchImagePage(url, timeoutMs);
+          httpStatus = response.status;
+          html = response.html;
+        } catch (error) {
+          console.log(`HTTP attempt ${attempt} failed for ${url}:`, error instanceof Error ? error.message : error);
+          if (attempt === maxAttempts) {
+            return null;
+          }
+          await new Promise(resolve => setTimeout(resolve, 2000 * Math.pow(2, attempt - 1)));
+          continue;
+        }
+
+        if (html !== null) break;
+
+        const retryable = httpStatus === 429 || httpStatus >= 500;
+        if (retryable && attempt < maxAttempts) {
+          // Same backoff as browser navigation: 5s/10s for rate limiting, 2s/4s for server errors
+          const delay = (httpStatus === 429 ? 5000 : 2000) * Math.pow(2, attempt - 1);
+          console.log(`⚠️  [${imageId}] HTTP ${httpStatus} (attempt ${attempt}/${maxAttempts}) - retrying in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        const reason = httpStatus === 429 ? `HTTP 429 Rate Limited after ${maxAttempts} attempts`
+          : httpStatus >= 500 ? `HTTP ${httpStatus} Server Error after ${maxAttempts} attempts`
+          : httpStatus === 404 ? 'HTTP 404 - Image Not Found'
+          : `HTTP ${httpStatus} Client Error`;
+        console.log(`❌ [${imageId}] ${reason}. Logging failure.`);
+        failedScrapesLogger.addFailure({
+          imageId,
+          url,
+          reason,
+          attempts: attempt,
+          timestamp: new Date().toISOString(),
+          httpStatus
+        });
+        return image; // Return partial data for CSV
+      }
+
+      if (html === null) return null;
+
+      const rawData = parseImagePageHtml(html);
+      const metadataProblem = this.detectMetadataProblem(rawData);
+      if (metadataProblem) {
+        console.log(`⚠️  [${imageId}] HTTP parse unusable: ${metadataProblem}`);
+        return null;
+      }
+
+      this.applyRawMetadata(image, rawData, imageId);
+      this.applyCleanMetadata(image, imageId, captionLocale);
+    }
+
+    await this.finalizeImage(image, url, imageId, extractDetails);
+    return image;
+  }
+
+  private async extractImageData(
+    page: Page,
+    url: string,
+    imageId: string,
+    hash: string,
+    extractDetails: boolean,
+    thumbnailUrl: string | undefined,
+    config: ScrapeConfig
+  ): Promise<ScrapedImage | null> {
+    // CHECK: Reuse the catalog record if another job already extracted this image
+    const knownImage = await this.findKnownImage(imageId, thumbnailUrl, config);
+    if (knownImage) {
+      return knownImage;
+    }
+
+    const image = this.createImageRecord(url, imageId, hash, thumbnailUrl);
+
     if (extractDetails) {
       try {
         // CRITICAL WORKFLOW CHANGE: Always start with standard resolution for metadata extraction
@@ -2559,47 +3864,14 @@ class SmartFrameScraper {
         //   hasNextData: !!rawData.nextData
         // });
 
-        // Detect error pages by checking the title and content
-        const errorPageIndicators = [
-          '502 bad gateway',
-          '503 service unavailable',
-          '500 internal server error',
-          '504 gateway timeout',
-          '429 too many requests',
-          'error occurred',
-          'page not found',
-          'access denied',
-          'rate limit exceeded'
-        ];
-        
-        const titleLower = (rawData.title || '').toLowerCase().trim();
-        const isErrorPage = errorPageIndicators.some(indicator => titleLower.includes(indicator));
-        
-        if (isErrorPage) {
-          console.log(`❌ [${imageId}] Error page detected (title: "${rawData.title}"). SmartFrame may be rate-limiting or experiencing issues.`);
+        const metadataProblem = this.detectMetadataProblem(rawData);
+        if (metadataProblem) {
+          console.log(`❌ [${imageId}] ${metadataProblem}. SmartFrame may be rate-limiting or experiencing issues.`);
           console.log(`⚠️  [${imageId}] Logging failure and returning partial data for CSV.`);
           failedScrapesLogger.addFailure({
             imageId,
             url,
-            reason: `Error page detected: ${rawData.title}`,
-            attempts: 1,
-            timestamp: new Date().toISOString()
-          });
-          return image; // Return partial data for CSV
-        }
-        
-        // If we have 0 label-value pairs AND no useful title/caption, it's likely an error
-        const hasNoMetadata = (!rawData.labelValues || rawData.labelValues.length === 0) && 
-                             !rawData.nextData && 
-                             (!rawData.title || rawData.title.length < 3) &&
-                             (!rawData.caption || rawData.caption.length < 10);
-        
-        if (hasNoMetadata) {
-          console.log(`⚠️  [${imageId}] No metadata found on page - possible error or rate limiting. Logging failure.`);
-          failedScrapesLogger.addFailure({
-            imageId,
-            url,
-            reason: 'No metadata found - possible rate limiting or error page',
+            reason: metadataProblem,
             attempts: 1,
             timestamp: new Date().toISOString()
           });
@@ -2607,100 +3879,7 @@ class SmartFrameScraper {
         }
 
         // Process raw data in Node context using helper functions
-        const metadata = this.parseMetadata(rawData);
-        
-        // Reduced logging for performance - uncomment for debugging
-        // console.log(`[DEBUG] Parsed metadata for ${url}:`, {
-        //   photographer: metadata.photographer,
-        //   title: metadata.title,
-        //   featuring: metadata.featuring,
-        //   date: metadata.date,
-        //   dateTaken: metadata.dateTaken
-        // });
-
-        // Merge metadata with priority: DOM > Network Cache > Existing
-        // CRITICAL: Only overwrite existing fields if new value is truthy (not null/undefined/empty)
-        // This prevents regressing data during retries or multi-pass scraping
-        const cachedMetadata = metadataCache.get(imageId);
-        
-        // Helper to safely merge: only overwrite if new value exists and is non-empty
-        const safeString = (newVal: string | null | undefined, fallback1?: string | null, fallback2?: any): string | null => {
-          if (newVal && newVal.trim()) return newVal;
-          if (fallback1 && fallback1.trim()) return fallback1;
-          if (typeof fallback2 === 'string' && fallback2.trim()) return fallback2;
-          return null;
-        };
-        
-        // Merge with priority: DOM > Existing > Network Cache (preserve existing data)
-        image.titleField = safeString(metadata.titleField, image.titleField, cachedMetadata?.title);
-        image.subjectField = safeString(metadata.subjectField, image.subjectField, cachedMetadata?.featuring) ?? 
-                           safeString(null, null, cachedMetadata?.people);
-        image.tags = safeString(metadata.tags, image.tags) ?? 
-                     (cachedMetadata?.keywords && Array.isArray(cachedMetadata.keywords) ? cachedMetadata.keywords.join(', ') : null);
-        image.copyright = safeString(metadata.copyright, image.copyright, cachedMetadata?.copyright) ?? 
-                        safeString(null, null, cachedMetadata?.copyrightNotice);
-        image.dateTaken = safeString(metadata.dateTaken, image.dateTaken, cachedMetadata?.date);
-        image.authors = safeString(metadata.authors, image.authors, cachedMetadata?.photographer) ?? 
-                       safeString(null, null, cachedMetadata?.author);
-
-        // Extract city/country from metadata or cached data
-        const city = (metadata as any).city || cachedMetadata?.city || undefined;
-        const country = (metadata as any).country || cachedMetadata?.country || undefined;
-
-        // ALWAYS generate metadata-rich caption from structured fields
-        // Format: "{title}\nFeaturing: {featuring}\nWhere: {location}\nWhen: {date}\nCredit: {credit}"
-        const generatedCaption = generateCaption({
-          title: image.titleField || undefined,
-          captionRaw: (metadata as any).caption || (metadata as any).captionRaw || cachedMetadata?.caption || undefined,
-          featuring: image.subjectField || (metadata as any).featuring || cachedMetadata?.featuring || undefined,
-          city: city,
-          country: country,
-          dateTaken: image.dateTaken || undefined,
-          photographer: image.authors || (metadata as any).photographer || cachedMetadata?.photographer || undefined,
-          copyright: image.copyright || undefined
-        });
-        
-        if (generatedCaption && generatedCaption.trim().length > 0) {
-          image.comments = generatedCaption;
-          
-          // Validate metadata completeness and log warnings for missing critical fields
-          const missingFields: string[] = [];
-          if (!image.titleField) missingFields.push('title');
-          if (!image.subjectField) missingFields.push('featuring');
-          if (!city && !country) missingFields.push('location');
-          if (!image.dateTaken) missingFields.push('date');
-          if (!image.authors) missingFields.push('credit');
-          
-          if (missingFields.length > 0) {
-            console.log(`⚠️  [${imageId}] Generated caption with missing fields: ${missingFields.join(', ')}`);
-            
-            // Attempt to regenerate using cached metadata as fallback for missing fields
-            if (cachedMetadata && missingFields.length >= 3) {
-              console.log(`[${imageId}] Attempting fallback caption generation using network cache...`);
-              const fallbackCaption = generateCaption({
-                title: image.titleField || (typeof cachedMetadata.title === 'string' ? cachedMetadata.title : undefined),
-                featuring: image.subjectField || (typeof cachedMetadata.featuring === 'string' ? cachedMetadata.featuring : undefined),
-                city: city || (typeof cachedMetadata.city === 'string' ? cachedMetadata.city : undefined),
-                country: country || (typeof cachedMetadata.country === 'string' ? cachedMetadata.country : undefined),
-                dateTaken: image.dateTaken || (typeof cachedMetadata.date === 'string' ? cachedMetadata.date : undefined),
-                photographer: image.authors || (typeof cachedMetadata.photographer === 'string' ? cachedMetadata.photographer : undefined),
-                copyright: image.copyright || undefined
-              });
-              
-              if (fallbackCaption && fallbackCaption.trim().length > generatedCaption.trim().length) {
-                image.comments = fallbackCaption;
-                console.log(`✓ [${imageId}] Improved caption using network cache fallback`);
-              }
-            }
-          } else {
-            console.log(`✓ [${imageId}] Generated complete metadata-rich caption`);
-          }
-        } else {
-          // Fallback to raw caption or cached metadata
-          image.comments = metadata.comments ?? image.comments ?? 
-                          (typeof cachedMetadata?.caption === 'string' ? cachedMetadata.caption : null);
-          console.log(`⚠️  [${imageId}] Caption generation failed, using raw caption fallback`);
-        }
+        this.applyRawMetadata(image, rawData, imageId);
 
       } catch (error) {
         console.error(`Error extracting details for ${url}:`, error);
@@ -2719,19 +3898,7 @@ class SmartFrameScraper {
     // This ensures cleaned/improved captions are embedded into image metadata files
     // This enables multi-paragraph caption parsing and other cleaning logic
     if (extractDetails) {
-      const cleanedMetadata = transformToCleanMetadata(image, this.config);
-      
-      // Merge cleaned metadata back into image object
-      // Only overwrite if cleaned value is truthy (preserve existing data)
-      if (cleanedMetadata.titleField) image.titleField = cleanedMetadata.titleField;
-      if (cleanedMetadata.subjectField) image.subjectField = cleanedMetadata.subjectField;
-      if (cleanedMetadata.tags) image.tags = cleanedMetadata.tags;
-      if (cleanedMetadata.comments) image.comments = cleanedMetadata.comments;
-      if (cleanedMetadata.authors) image.authors = cleanedMetadata.authors;
-      if (cleanedMetadata.dateTaken) image.dateTaken = cleanedMetadata.dateTaken;
-      if (cleanedMetadata.copyright) image.copyright = cleanedMetadata.copyright;
-      
-      console.log(`✓ [${imageId}] Applied metadata normalization with config`);
+      this.applyCleanMetadata(image, imageId, config.captionLocale);
     }
 
     // CRITICAL FIX #4: Setup shadow root capture hook AFTER metadata extraction
@@ -2819,7 +3986,7 @@ class SmartFrameScraper {
         if (canvasImagePath) {
           console.log(`✓ [${imageId}] Canvas image extracted with embedded metadata: ${canvasImagePath}`);
           // Store the canvas image path in the image metadata for reference
-          (image as any).canvasImagePath = canvasImagePath;
+          image.canvasImagePath = canvasImagePath;
         } else {
           console.log(`⚠️  [${imageId}] Canvas extraction failed`);
         }
@@ -2858,29 +4025,7 @@ class SmartFrameScraper {
       }
     }
 
-    // Check if the result is empty (no metadata extracted)
-    if (this.config?.scraping?.detectEmptyResults !== false && extractDetails) {
-      if (this.isEmptyResult(image)) {
-        console.log(`⚠️  [${imageId}] No metadata extracted - all fields are null/empty`);
-        failedScrapesLogger.addFailure({
-          imageId,
-          url,
-          reason: 'No metadata extracted',
-          attempts: 1,
-          timestamp: new Date().toISOString()
-        });
-      }
-    }
-
-    // MARK AS COMPLETED: Track successfully extracted images to prevent re-processing
-    // This is done at the very end, after all extraction and validation passes
-    try {
-      await completedImagesTracker.markCompleted(imageId);
-      console.log(`✅ [${imageId}] Marked as completed for future reference`);
-    } catch (error) {
-      console.warn(`⚠️  [${imageId}] Failed to mark as completed:`, error);
-      // Don't fail the extraction if tracking fails - image is still valid
-    }
+    await this.finalizeImage(image, url, imageId, extractDetails);
 
     return image;
   }
@@ -1,13 +1,19 @@
-import { ScrapeJob, ScrapedImage, ScrapeConfig } from "@shared/schema";
+import { ScrapeJob, ScrapeJobSummary, ScrapedImage, ScrapeConfig, JobLinkStatus, JobImagesQuery, ScheduledScrape, InsertScheduledScrape, WebhookDelivery, WebhookEvent, WebhookDeliveryStatus, CatalogImage, CatalogImagesQuery, ImageRevision, MetadataFieldChange } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, or, inArray, asc, isNull, isNotNull, lte, gte, ne, sql, type SQL } from "drizzle-orm";
 import { db, schema, dbType } from "./db/index";
-import type { ScrapeJobRow, ScrapedImageRow } from "./types";
+import type { ScrapeJobRow, ScrapedImageRow, ScrapeJobLinkRow, ScheduledScrapeRow, WebhookDeliveryRow, CatalogImageRow, ImageRevisionRow } from "./types";
+import type { ImageLink, StoredJobLink } from "./utils/job-control";
+import { diffMetadataSnapshots, diffRawMetadata, type MetadataSnapshot, type RawMetadataSnapshot } from "./utils/metadata-diff";
+import { peopleIncludes } from "./utils/person-names";
+
+// Rows per INSERT when persisting discovered links (keeps SQLite under its bound-variable limit)
+const LINK_INSERT_BATCH_SIZE = 500;
 
 /**
- * Helper function to map database image row to DTO
+ * Helper function to map database image row (job or catalog) to DTO
  */
-function mapImageRowToDto(img: ScrapedImageRow): ScrapedImage {
+function mapImageRowToDto(img: ScrapedImageRow | CatalogImageRow): ScrapedImage {
   return {
     imageId: img.imageId,
     hash: img.hash,
@@ -22,18 +28,186 @@ function mapImageRowToDto(img: ScrapedImageRow): ScrapedImage {
     authors: img.authors,
     dateTaken: img.dateTaken,
     copyright: img.copyright,
+    city: img.city,
+    country: img.country,
+    location: img.location,
+    event: img.event,
+    contentPartner: img.contentPartner,
+    featuring: img.featuring,
+    people: img.people ?? null,
+    dateTakenEdtf: img.dateTakenEdtf ?? null,
+    rights: img.rights ?? null,
+    canvasImagePath: img.canvasImagePath,
+  };
+}
+
+/**
+ * Helper function to pick the fields metadata normalization writes from an image
+ */
+function mapNormalizedFields(image: ScrapedImage) {
+  return {
+    titleField: image.titleField,
+    subjectField: image.subjectField,
+    tags: image.tags,
+    comments: image.comments,
+    authors: image.authors,
+    dateTaken: image.dateTaken,
+    copyright: image.copyright,
+    city: image.city ?? null,
+    country: image.country ?? null,
+    location: image.location ?? null,
+    event: image.event ?? null,
+    contentPartner: image.contentPartner ?? null,
+    featuring: image.featuring ?? null,
+    people: image.people ?? null,
+    dateTakenEdtf: image.dateTakenEdtf ?? null,
+    rights: image.rights ?? null,
+  };
+}
+
+/**
+ * Helper function to map database job row to a summary DTO (no images)
+ */
+function mapJobRowToSummary(jobRow: ScrapeJobRow): ScrapeJobSummary {
+  return {
+    id: jobRow.id,
+    url: jobRow.url,
+    effectiveUrl: jobRow.effectiveUrl ?? null,
+    scheduleId: jobRow.scheduleId ?? null,
+    status: jobRow.status as ScrapeJob["status"],
+    progress: jobRow.progress,
+    totalImages: jobRow.totalImages,
+    scrapedImages: jobRow.scrapedImages,
+    error: jobRow.error,
+    startedAt: jobRow.startedAt.toISOString(),
+    completedAt: jobRow.completedAt?.toISOString() || null,
+    config: jobRow.config,
+  };
+}
+
+/**
+ * Helper function to map database schedule row to DTO
+ */
+function mapScheduleRowToDto(row: ScheduledScrapeRow): ScheduledScrape {
+  return {
+    id: row.id,
+    name: row.name,
+    cron: row.cron,
+    config: row.config,
+    enabled: row.enabled,
+    lastRunAt: row.lastRunAt?.toISOString() || null,
+    nextRunAt: row.nextRunAt?.toISOString() || null,
+    lastJobId: row.lastJobId,
+    createdAt: row.createdAt.toISOString(),
   };
 }
 
+/**
+ * Helper function to map database webhook delivery row to DTO (payload omitted)
+ */
+function mapWebhookDeliveryRowToDto(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    jobId: row.jobId,
+    event: row.event as WebhookEvent,
+    url: row.url,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    lastStatusCode: row.lastStatusCode,
+    lastError: row.lastError,
+    createdAt: row.createdAt.toISOString(),
+    deliveredAt: row.deliveredAt?.toISOString() || null,
+  };
+}
+
+/**
+ * Helper function to map database image revision row to DTO
+ */
+function mapImageRevisionRowToDto(row: ImageRevisionRow): ImageRevision {
+  return {
+    id: row.id,
+    imageId: row.imageId,
+    titleField: row.titleField,
+    subjectField: row.subjectField,
+    tags: row.tags,
+    comments: row.comments,
+    authors: row.authors,
+    dateTaken: row.dateTaken,
+    copyright: row.copyright,
+    labelValues: row.labelValues,
+    caption: row.caption,
+    changes: row.changes,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Helper function to map database catalog row and its job memberships to DTO
+ */
+function mapCatalogRowToDetails(row: CatalogImageRow, jobIds: string[]): CatalogImage {
+  return {
+    ...mapImageRowToDto(row),
+    firstSeenAt: row.firstSeenAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    lastChangedAt: row.lastChangedAt?.toISOString() || null,
+    jobIds,
+  };
+}
+
+// Outcome of one webhook delivery attempt
+export type WebhookAttemptResult = {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt?: Date;
+};
+
+// Optional parts of a job's images (raw page metadata is large and only needed for exports)
+export type ScrapeJobReadOptions = {
+  includeRawMetadata?: boolean;
+};
+
+// Fields of a schedule that can change after creation
+export type ScheduledScrapeUpdates = Partial<InsertScheduledScrape> & {
+  lastRunAt?: Date | null;
+  nextRunAt?: Date | null;
+  lastJobId?: string | null;
+};
+
 export interface IStorage {
-  createScrapeJob(url: string, config: ScrapeConfig): Promise<ScrapeJob>;
-  getScrapeJob(id: string): Promise<ScrapeJob | undefined>;
+  createScrapeJob(url: string, config: ScrapeConfig, scheduleId?: string): Promise<ScrapeJob>;
+  getScrapeJob(id: string, options?: ScrapeJobReadOptions): Promise<ScrapeJob | undefined>;
+  getScrapeJobSummary(id: string): Promise<ScrapeJobSummary | undefined>;
   updateScrapeJob(id: string, updates: Partial<ScrapeJob>): Promise<ScrapeJob | undefined>;
-  getAllScrapeJobs(): Promise<ScrapeJob[]>;
+  getAllScrapeJobs(): Promise<ScrapeJobSummary[]>;
+  getScrapeJobImages(jobId: string, query: JobImagesQuery): Promise<{ images: ScrapedImage[]; total: number }>;
+  getScrapeJobIdsByStatus(statuses: ScrapeJob["status"][]): Promise<string[]>;
+  saveJobLinks(jobId: string, links: ImageLink[], thumbnails: Map<string, string>): Promise<void>;
+  updateJobLinkStatus(jobId: string, imageId: string, status: JobLinkStatus): Promise<void>;
+  getJobLinks(jobId: string): Promise<StoredJobLink[]>;
+  getScrapedImageIds(jobId: string): Promise<Set<string>>;
+  updateScrapedImageMetadata(jobId: string, images: ScrapedImage[]): Promise<void>;
+  createSchedule(input: InsertScheduledScrape, nextRunAt: Date | null): Promise<ScheduledScrape>;
+  getSchedule(id: string): Promise<ScheduledScrape | undefined>;
+  getAllSchedules(): Promise<ScheduledScrape[]>;
+  getDueSchedules(now: Date): Promise<ScheduledScrape[]>;
+  updateSchedule(id: string, updates: ScheduledScrapeUpdates): Promise<ScheduledScrape | undefined>;
+  deleteSchedule(id: string): Promise<boolean>;
+  getScheduleSeenImageIds(scheduleId: string, excludeJobId: string): Promise<Set<string>>;
+  createWebhookDelivery(id: string, jobId: string, event: WebhookEvent, url: string, payload: unknown): Promise<void>;
+  updateWebhookDelivery(id: string, result: WebhookAttemptResult): Promise<void>;
+  getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]>;
+  getCatalogImage(imageId: string): Promise<ScrapedImage | undefined>;
+  getCatalogImageDetails(imageId: string): Promise<CatalogImage | undefined>;
+  getCatalogImages(query: CatalogImagesQuery): Promise<{ images: CatalogImage[]; total: number }>;
+  upsertCatalogImage(image: ScrapedImage): Promise<MetadataFieldChange[]>;
+  getImageHistory(imageId: string): Promise<ImageRevision[] | undefined>;
+  getImageTags(jobId?: string): Promise<Array<string | null>>;
 }
 
 export class PostgresStorage implements IStorage {
-  async createScrapeJob(url: string, config: ScrapeConfig): Promise<ScrapeJob> {
+  async createScrapeJob(url: string, config: ScrapeConfig, scheduleId?: string): Promise<ScrapeJob> {
     const id = randomUUID();
     const now = new Date();
     
@@ -41,6 +215,7 @@ export class PostgresStorage implements IStorage {
     await (db as any).insert(schema.scrapeJobs).values({
       id,
       url,
+      scheduleId: scheduleId ?? null,
       status: "pending",
       progress: 0,
       totalImages: 0,
@@ -53,6 +228,8 @@ export class PostgresStorage implements IStorage {
     return {
       id,
       url,
+      effectiveUrl: null,
+      scheduleId: scheduleId ?? null,
       status: "pending",
       progress: 0,
       totalImages: 0,
@@ -65,7 +242,7 @@ export class PostgresStorage implements IStorage {
     };
   }
 
-  async getScrapeJob(id: string): Promise<ScrapeJob | undefined> {
+  async getScrapeJob(id: string, options: ScrapeJobReadOptions = {}): Promise<ScrapeJob | undefined> {
     // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
     const [job] = await (db as any)
       .select()
@@ -79,26 +256,29 @@ export class PostgresStorage implements IStorage {
       .from(schema.scrapedImages)
       .where(eq(schema.scrapedImages.jobId, id));
 
-    const jobRow = job as ScrapeJobRow;
     const imageRows = (images || []) as ScrapedImageRow[];
 
     return {
-      id: jobRow.id,
-      url: jobRow.url,
-      status: jobRow.status as "pending" | "scraping" | "completed" | "error",
-      progress: jobRow.progress,
-      totalImages: jobRow.totalImages,
-      scrapedImages: jobRow.scrapedImages,
-      images: (imageRows || []).map(mapImageRowToDto),
-      error: jobRow.error,
-      startedAt: jobRow.startedAt.toISOString(),
-      completedAt: jobRow.completedAt?.toISOString() || null,
-      config: jobRow.config,
+      ...mapJobRowToSummary(job as ScrapeJobRow),
+      images: imageRows.map(img => options.includeRawMetadata
+        ? { ...mapImageRowToDto(img), rawMetadata: img.rawMetadata ?? null }
+        : mapImageRowToDto(img)),
     };
   }
 
+  async getScrapeJobSummary(id: string): Promise<ScrapeJobSummary | undefined> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [job] = await (db as any)
+      .select()
+      .from(schema.scrapeJobs)
+      .where(eq(schema.scrapeJobs.id, id));
+
+    return job ? mapJobRowToSummary(job as ScrapeJobRow) : undefined;
+  }
+
   async updateScrapeJob(id: string, updates: Partial<ScrapeJob>): Promise<ScrapeJob | undefined> {
     const dbUpdates: Partial<{
+      effectiveUrl: string | null;
       status: string;
       progress: number;
       totalImages: number;
@@ -107,6 +287,7 @@ export class PostgresStorage implements IStorage {
       completedAt: Date | null;
     }> = {};
     
+    if (updates.effectiveUrl !== undefined) dbUpdates.effectiveUrl = updates.effectiveUrl;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
     if (updates.progress !== undefined) dbUpdates.progress = updates.progress;
     if (updates.totalImages !== undefined) dbUpdates.totalImages = updates.totalImages;
@@ -141,6 +322,17 @@ export class PostgresStorage implements IStorage {
         authors: img.authors,
         dateTaken: img.dateTaken,
         copyright: img.copyright,
+        city: img.city ?? null,
+        country: img.country ?? null,
+        location: img.location ?? null,
+        event: img.event ?? null,
+        contentPartner: img.contentPartner ?? null,
+        featuring: img.featuring ?? null,
+        people: img.people ?? null,
+        dateTakenEdtf: img.dateTakenEdtf ?? null,
+        rights: img.rights ?? null,
+        canvasImagePath: img.canvasImagePath ?? null,
+        rawMetadata: img.rawMetadata ?? null,
         createdAt: new Date(),
       }));
 
@@ -150,64 +342,633 @@ export class PostgresStorage implements IStorage {
         .onConflictDoNothing({ target: [schema.scrapedImages.jobId, schema.scrapedImages.imageId] });
       
       console.log(`✓ Inserted up to ${updates.images.length} images (duplicates automatically skipped by database)`);
+
+      await this.addJobImageMemberships(id, updates.images.map(img => img.imageId));
     }
 
     return this.getScrapeJob(id);
   }
 
-  async getAllScrapeJobs(): Promise<ScrapeJob[]> {
+  async getAllScrapeJobs(): Promise<ScrapeJobSummary[]> {
     try {
-      // Use LEFT JOIN to fetch all jobs and their images in a single query
-      // This eliminates the N+1 query problem
-      const result = await (db as any)
+      // Summaries only - images are paged through getScrapeJobImages
+      const rows = await (db as any)
         .select()
         .from(schema.scrapeJobs)
-        .leftJoin(
-          schema.scrapedImages,
-          eq(schema.scrapedImages.jobId, schema.scrapeJobs.id)
-        )
         .orderBy(desc(schema.scrapeJobs.startedAt));
 
-      if (!result || result.length === 0) {
-        return [];
-      }
+      return ((rows || []) as ScrapeJobRow[]).map(mapJobRowToSummary);
+    } catch (error) {
+      console.error("Error in getAllScrapeJobs (returning empty array):", error);
+      return [];
+    }
+  }
+
+  async getScrapeJobImages(
+    jobId: string,
+    query: JobImagesQuery
+  ): Promise<{ images: ScrapedImage[]; total: number }> {
+    const images = schema.scrapedImages;
+    const conditions: (SQL | undefined)[] = [eq(images.jobId, jobId)];
+
+    if (query.q) {
+      // Case-insensitive substring match across the identifier and text metadata fields
+      // (% and _ in the search text are matched literally)
+      const pattern = `%${query.q.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+      const searchable = [images.imageId, images.titleField, images.subjectField, images.tags, images.comments, images.authors];
+      conditions.push(or(...searchable.map(column => sql`lower(${column}) like ${pattern} escape '\\'`)));
+    }
+
+    if (query.hasCanvas !== undefined) {
+      conditions.push(query.hasCanvas ? isNotNull(images.canvasImagePath) : isNull(images.canvasImagePath));
+    }
+
+    if (query.missingField) {
+      const column = images[query.missingField];
+      conditions.push(or(isNull(column), eq(column, "")));
+    }
+
+    if (query.changedSince) {
+      // Change tracking lives on the catalog record, not on the per-job copy
+      const changedImageIds = (db as any)
+        .select({ imageId: schema.images.imageId })
+        .from(schema.images)
+        .where(gte(schema.images.lastChangedAt, query.changedSince));
+      conditions.push(inArray(images.imageId, changedImageIds));
+    }
+
+    if (query.person) {
+      const imageIds = await this.findImageIdsWithPerson(images, query.person, eq(images.jobId, jobId));
+      conditions.push(inArray(images.imageId, imageIds));
+    }
+
+    const where = and(...conditions);
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [countRow] = await (db as any)
+      .select({ count: sql<number>`count(*)` })
+      .from(images)
+      .where(where);
+
+    const rows = await (db as any)
+      .select()
+      .from(images)
+      .where(where)
+      .orderBy(asc(images.createdAt), asc(images.imageId))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    return {
+      images: ((rows || []) as ScrapedImageRow[]).map(mapImageRowToDto),
+      // PostgreSQL returns count(*) as a string (bigint)
+      total: Number(countRow?.count ?? 0),
+    };
+  }
+
+  async getScrapeJobIdsByStatus(statuses: ScrapeJob["status"][]): Promise<string[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select({ id: schema.scrapeJobs.id })
+      .from(schema.scrapeJobs)
+      .where(inArray(schema.scrapeJobs.status, statuses));
 
-      // Group images by job ID to construct the final result
-      const jobsMap = new Map<string, ScrapeJob>();
-
-      for (const row of result) {
-        const jobRow = row.scrape_jobs as ScrapeJobRow;
-        const imageRow = row.scraped_images as ScrapedImageRow | null;
-
-        // Create job entry if it doesn't exist yet
-        if (!jobsMap.has(jobRow.id)) {
-          jobsMap.set(jobRow.id, {
-            id: jobRow.id,
-            url: jobRow.url,
-            status: jobRow.status as "pending" | "scraping" | "completed" | "error",
-            progress: jobRow.progress,
-            totalImages: jobRow.totalImages,
-            scrapedImages: jobRow.scrapedImages,
-            images: [],
-            error: jobRow.error,
-            startedAt: jobRow.startedAt.toISOString(),
-            completedAt: jobRow.completedAt?.toISOString() || null,
-            config: jobRow.config,
-          });
+    return (rows || []).map((row: { id: string }) => row.id);
+  }
+
+  /**
+   * Persist the discovered link queue of a job so it can be resumed after a restart.
+   * Links that are already stored for the job keep their current state.
+   */
+  async saveJobLinks(jobId: string, links: ImageLink[], thumbnails: Map<string, string>): Promise<void> {
+    const now = new Date();
+    const rows = links.map((link, position) => ({
+      id: randomUUID(),
+      jobId,
+      imageId: link.imageId,
+      url: link.url,
+      hash: link.hash,
+      thumbnailUrl: thumbnails.get(link.imageId) || null,
+      position,
+      status: "pending",
+      updatedAt: now,
+    }));
+
+    for (let i = 0; i < rows.length; i += LINK_INSERT_BATCH_SIZE) {
+      // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+      await (db as any).insert(schema.scrapeJobLinks)
+        .values(rows.slice(i, i + LINK_INSERT_BATCH_SIZE))
+        .onConflictDoNothing({ target: [schema.scrapeJobLinks.jobId, schema.scrapeJobLinks.imageId] });
+    }
+  }
+
+  async updateJobLinkStatus(jobId: string, imageId: string, status: JobLinkStatus): Promise<void> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    await (db as any)
+      .update(schema.scrapeJobLinks)
+      .set({ status, updatedAt: new Date() })
+      .where(and(
+        eq(schema.scrapeJobLinks.jobId, jobId),
+        eq(schema.scrapeJobLinks.imageId, imageId)
+      ));
+  }
+
+  async getJobLinks(jobId: string): Promise<StoredJobLink[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select()
+      .from(schema.scrapeJobLinks)
+      .where(eq(schema.scrapeJobLinks.jobId, jobId))
+      .orderBy(asc(schema.scrapeJobLinks.position));
+
+    return ((rows || []) as ScrapeJobLinkRow[]).map(row => ({
+      url: row.url,
+      imageId: row.imageId,
+      hash: row.hash,
+      thumbnailUrl: row.thumbnailUrl,
+      position: row.position,
+      status: row.status as JobLinkStatus,
+    }));
+  }
+
+  async getScrapedImageIds(jobId: string): Promise<Set<string>> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select({ imageId: schema.scrapedImages.imageId })
+      .from(schema.scrapedImages)
+      .where(eq(schema.scrapedImages.jobId, jobId));
+
+    return new Set((rows || []).map((row: { imageId: string }) => row.imageId));
+  }
+
+  /**
+   * Write re-normalized metadata to a job's images, and to the catalog for images this job
+   * extracted last (latest extraction wins), in one transaction
+   */
+  async updateScrapedImageMetadata(jobId: string, images: ScrapedImage[]): Promise<void> {
+    if (images.length === 0) return;
+
+    const imageJobIds = await this.getImageJobIds(images.map(image => image.imageId));
+    const isLatestJob = (imageId: string) => {
+      const jobIds = imageJobIds.get(imageId) || [];
+      return jobIds[jobIds.length - 1] === jobId;
+    };
+
+    const updates = [
+      ...images.map(image => ({
+        table: schema.scrapedImages,
+        where: and(eq(schema.scrapedImages.jobId, jobId), eq(schema.scrapedImages.imageId, image.imageId)),
+        fields: mapNormalizedFields(image),
+      })),
+      ...images.filter(image => isLatestJob(image.imageId)).map(image => ({
+        table: schema.images,
+        where: eq(schema.images.imageId, image.imageId),
+        fields: mapNormalizedFields(image),
+      })),
+    ];
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    if (dbType === "sqlite") {
+      // better-sqlite3 transactions are synchronous, so the statements run with run()
+      (db as any).transaction((tx: any) => {
+        for (const update of updates) {
+          tx.update(update.table).set(update.fields).where(update.where).run();
+        }
+      });
+    } else {
+      await (db as any).transaction(async (tx: any) => {
+        for (const update of updates) {
+          await tx.update(update.table).set(update.fields).where(update.where);
         }
+      });
+    }
+  }
+
+  async createSchedule(input: InsertScheduledScrape, nextRunAt: Date | null): Promise<ScheduledScrape> {
+    const row = {
+      id: randomUUID(),
+      name: input.name,
+      cron: input.cron,
+      config: input.config,
+      enabled: input.enabled,
+      lastRunAt: null,
+      nextRunAt,
+      lastJobId: null,
+      createdAt: new Date(),
+    };
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    await (db as any).insert(schema.scheduledScrapes).values(row);
+
+    return mapScheduleRowToDto(row);
+  }
+
+  async getSchedule(id: string): Promise<ScheduledScrape | undefined> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [row] = await (db as any)
+      .select()
+      .from(schema.scheduledScrapes)
+      .where(eq(schema.scheduledScrapes.id, id));
+
+    return row ? mapScheduleRowToDto(row as ScheduledScrapeRow) : undefined;
+  }
+
+  async getAllSchedules(): Promise<ScheduledScrape[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select()
+      .from(schema.scheduledScrapes)
+      .orderBy(asc(schema.scheduledScrapes.createdAt));
+
+    return ((rows || []) as ScheduledScrapeRow[]).map(mapScheduleRowToDto);
+  }
+
+  async getDueSchedules(now: Date): Promise<ScheduledScrape[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select()
+      .from(schema.scheduledScrapes)
+      .where(and(
+        eq(schema.scheduledScrapes.enabled, true),
+        lte(schema.scheduledScrapes.nextRunAt, now)
+      ))
+      .orderBy(asc(schema.scheduledScrapes.nextRunAt));
+
+    return ((rows || []) as ScheduledScrapeRow[]).map(mapScheduleRowToDto);
+  }
+
+  async updateSchedule(id: string, updates: ScheduledScrapeUpdates): Promise<ScheduledScrape | undefined> {
+    const dbUpdates: ScheduledScrapeUpdates = {};
+
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.cron !== undefined) dbUpdates.cron = updates.cron;
+    if (updates.config !== undefined) dbUpdates.config = updates.config;
+    if (updates.enabled !== undefined) dbUpdates.enabled = updates.enabled;
+    if (updates.lastRunAt !== undefined) dbUpdates.lastRunAt = updates.lastRunAt;
+    if (updates.nextRunAt !== undefined) dbUpdates.nextRunAt = updates.nextRunAt;
+    if (updates.lastJobId !== undefined) dbUpdates.lastJobId = updates.lastJobId;
+
+    if (Object.keys(dbUpdates).length > 0) {
+      // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+      await (db as any)
+        .update(schema.scheduledScrapes)
+        .set(dbUpdates)
+        .where(eq(schema.scheduledScrapes.id, id));
+    }
+
+    return this.getSchedule(id);
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const deleted = await (db as any)
+      .delete(schema.scheduledScrapes)
+      .where(eq(schema.scheduledScrapes.id, id))
+      .returning({ id: schema.scheduledScrapes.id });
+
+    return (deleted || []).length > 0;
+  }
+
+  /**
+   * Image IDs already scraped by earlier runs of a schedule
+   */
+  async getScheduleSeenImageIds(scheduleId: string, excludeJobId: string): Promise<Set<string>> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .selectDistinct({ imageId: schema.scrapedImages.imageId })
+      .from(schema.scrapedImages)
+      .innerJoin(schema.scrapeJobs, eq(schema.scrapedImages.jobId, schema.scrapeJobs.id))
+      .where(and(
+        eq(schema.scrapeJobs.scheduleId, scheduleId),
+        ne(schema.scrapeJobs.id, excludeJobId)
+      ));
+
+    return new Set((rows || []).map((row: { imageId: string }) => row.imageId));
+  }
+
+  async createWebhookDelivery(id: string, jobId: string, event: WebhookEvent, url: string, payload: unknown): Promise<void> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    await (db as any).insert(schema.webhookDeliveries).values({
+      id,
+      jobId,
+      event,
+      url,
+      payload,
+      status: "pending",
+      attempts: 0,
+      lastStatusCode: null,
+      lastError: null,
+      createdAt: new Date(),
+      deliveredAt: null,
+    });
+  }
+
+  async updateWebhookDelivery(id: string, result: WebhookAttemptResult): Promise<void> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    await (db as any)
+      .update(schema.webhookDeliveries)
+      .set({
+        status: result.status,
+        attempts: result.attempts,
+        lastStatusCode: result.lastStatusCode,
+        lastError: result.lastError,
+        deliveredAt: result.deliveredAt ?? null,
+      })
+      .where(eq(schema.webhookDeliveries.id, id));
+  }
+
+  async getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select()
+      .from(schema.webhookDeliveries)
+      .where(eq(schema.webhookDeliveries.jobId, jobId))
+      .orderBy(asc(schema.webhookDeliveries.createdAt));
+
+    return ((rows || []) as WebhookDeliveryRow[]).map(mapWebhookDeliveryRowToDto);
+  }
+
+  /**
+   * Record that images belong to a job and refresh their last-seen time in the catalog
+   * (only for memberships that are new, since progress updates resend every image)
+   */
+  private async addJobImageMemberships(jobId: string, imageIds: string[]): Promise<void> {
+    const now = new Date();
+
+    for (let i = 0; i < imageIds.length; i += LINK_INSERT_BATCH_SIZE) {
+      const batch = imageIds.slice(i, i + LINK_INSERT_BATCH_SIZE);
+
+      // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+      const inserted = await (db as any).insert(schema.jobImages)
+        .values(batch.map(imageId => ({ id: randomUUID(), jobId, imageId, addedAt: now })))
+        .onConflictDoNothing({ target: [schema.jobImages.jobId, schema.jobImages.imageId] })
+        .returning({ imageId: schema.jobImages.imageId });
+
+      const newImageIds = (inserted || []).map((row: { imageId: string }) => row.imageId);
+      if (newImageIds.length > 0) {
+        await (db as any)
+          .update(schema.images)
+          .set({ lastSeenAt: now })
+          .where(inArray(schema.images.imageId, newImageIds));
+      }
+    }
+  }
+
+  async getCatalogImage(imageId: string): Promise<ScrapedImage | undefined> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [row] = await (db as any)
+      .select()
+      .from(schema.images)
+      .where(eq(schema.images.imageId, imageId));
+
+    if (!row) return undefined;
+
+    // Reused records carry the raw metadata into the new job so it can be re-normalized too
+    const catalogRow = row as CatalogImageRow;
+    return { ...mapImageRowToDto(catalogRow), rawMetadata: catalogRow.rawMetadata ?? null };
+  }
+
+  async getCatalogImageDetails(imageId: string): Promise<CatalogImage | undefined> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [row] = await (db as any)
+      .select()
+      .from(schema.images)
+      .where(eq(schema.images.imageId, imageId));
+
+    if (!row) return undefined;
+
+    const jobIds = await this.getImageJobIds([imageId]);
+    return mapCatalogRowToDetails(row as CatalogImageRow, jobIds.get(imageId) || []);
+  }
+
+  async getCatalogImages(query: CatalogImagesQuery): Promise<{ images: CatalogImage[]; total: number }> {
+    const personImageIds = query.person
+      ? await this.findImageIdsWithPerson(schema.images, query.person)
+      : undefined;
+    const where = and(
+      query.changedSince ? gte(schema.images.lastChangedAt, query.changedSince) : undefined,
+      personImageIds ? inArray(schema.images.imageId, personImageIds) : undefined
+    );
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [countRow] = await (db as any)
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.images)
+      .where(where);
+
+    const rows = await (db as any)
+      .select()
+      .from(schema.images)
+      .where(where)
+      .orderBy(
+        query.changedSince ? desc(schema.images.lastChangedAt) : desc(schema.images.lastSeenAt),
+        asc(schema.images.imageId)
+      )
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const catalogRows = (rows || []) as CatalogImageRow[];
+    const jobIds = await this.getImageJobIds(catalogRows.map(row => row.imageId));
+
+    return {
+      images: catalogRows.map(row => mapCatalogRowToDetails(row, jobIds.get(row.imageId) || [])),
+      // PostgreSQL returns count(*) as a string (bigint)
+      total: Number(countRow?.count ?? 0),
+    };
+  }
+
+  /**
+   * IDs of the images (of a job, or of the catalog) whose people list names a person
+   * Names are compared by personNameKey, ignoring case, diacritics and dots, which SQL cannot
+   * do the same way on PostgreSQL and SQLite, so the people lists are matched here
+   */
+  private async findImageIdsWithPerson(
+    table: typeof schema.scrapedImages | typeof schema.images,
+    name: string,
+    scope?: SQL
+  ): Promise<string[]> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select({ imageId: table.imageId, people: table.people })
+      .from(table)
+      .where(and(isNotNull(table.people), scope));
 
-        // Add image to job if it exists (LEFT JOIN may return null for jobs without images)
-        if (imageRow) {
-          jobsMap.get(jobRow.id)!.images.push(mapImageRowToDto(imageRow));
+    return ((rows || []) as Array<{ imageId: string; people: string[] | null }>)
+      .filter(row => peopleIncludes(row.people, name))
+      .map(row => row.imageId);
+  }
+
+  /**
+   * Job IDs each image belongs to, in the order the images were added
+   */
+  private async getImageJobIds(imageIds: string[]): Promise<Map<string, string[]>> {
+    const jobIds = new Map<string, string[]>();
+    if (imageIds.length === 0) return jobIds;
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const memberships = await (db as any)
+      .select({ imageId: schema.jobImages.imageId, jobId: schema.jobImages.jobId })
+      .from(schema.jobImages)
+      .where(inArray(schema.jobImages.imageId, imageIds))
+      .orderBy(asc(schema.jobImages.addedAt));
+
+    for (const membership of (memberships || []) as Array<{ imageId: string; jobId: string }>) {
+      const ids = jobIds.get(membership.imageId) || [];
+      ids.push(membership.jobId);
+      jobIds.set(membership.imageId, ids);
+    }
+
+    return jobIds;
+  }
+
+  /**
+   * Store a successfully extracted image in the catalog (latest extraction wins)
+   * and record a revision when it is new or SmartFrame changed its metadata.
+   * Whether it changed is decided on the raw label/value pairs and caption, so normalizer
+   * changes don't count as edits; the clean field diff is kept for display.
+   * Returns the fields that changed (empty for new or unchanged images)
+   */
+  async upsertCatalogImage(image: ScrapedImage): Promise<MetadataFieldChange[]> {
+    const now = new Date();
+    const labelValues = image.rawMetadata?.labelValues;
+    const current: MetadataSnapshot = {
+      titleField: image.titleField,
+      subjectField: image.subjectField,
+      tags: image.tags,
+      comments: image.comments,
+      authors: image.authors,
+      dateTaken: image.dateTaken,
+      copyright: image.copyright,
+      labelValues: labelValues && labelValues.length > 0 ? labelValues : null,
+    };
+    const currentRaw: RawMetadataSnapshot | null = image.rawMetadata
+      ? { labelValues: current.labelValues, caption: image.rawMetadata.caption }
+      : null;
+
+    // Compare against the latest revision, or the catalog record for images cataloged before revisions existed
+    const [latestRevision] = await (db as any)
+      .select()
+      .from(schema.imageRevisions)
+      .where(eq(schema.imageRevisions.imageId, image.imageId))
+      .orderBy(desc(schema.imageRevisions.createdAt))
+      .limit(1);
+    let previous: MetadataSnapshot | undefined;
+    let previousRaw: RawMetadataSnapshot | null = null;
+    if (latestRevision) {
+      const revision = latestRevision as ImageRevisionRow;
+      previous = revision;
+      if (revision.labelValues || revision.caption) {
+        previousRaw = { labelValues: revision.labelValues, caption: revision.caption };
+      }
+    } else {
+      const [existing] = await (db as any)
+        .select()
+        .from(schema.images)
+        .where(eq(schema.images.imageId, image.imageId));
+      if (existing) {
+        const row = existing as CatalogImageRow;
+        previous = { ...row, labelValues: null };
+        if (row.rawMetadata) {
+          const rawLabelValues = row.rawMetadata.labelValues;
+          previousRaw = {
+            labelValues: rawLabelValues.length > 0 ? rawLabelValues : null,
+            caption: row.rawMetadata.caption,
+          };
         }
       }
+    }
 
-      // Convert map to array, maintaining the order from the query
-      return Array.from(jobsMap.values());
-    } catch (error) {
-      console.error("Error in getAllScrapeJobs (returning empty array):", error);
-      return [];
+    let changes: MetadataFieldChange[] = [];
+    if (previous && previousRaw && currentRaw) {
+      const rawChanges = diffRawMetadata(previousRaw, currentRaw);
+      if (rawChanges.length > 0) {
+        changes = [...diffMetadataSnapshots({ ...previous, labelValues: null }, { ...current, labelValues: null }), ...rawChanges];
+      }
+    } else if (previous) {
+      // Versions scraped before raw metadata was kept can only be compared on their clean fields
+      changes = diffMetadataSnapshots(previous, current);
     }
+
+    const fields = {
+      hash: image.hash,
+      url: image.url,
+      copyLink: image.copyLink,
+      smartframeId: image.smartframeId,
+      thumbnailUrl: image.thumbnailUrl,
+      titleField: image.titleField,
+      subjectField: image.subjectField,
+      tags: image.tags,
+      comments: image.comments,
+      authors: image.authors,
+      dateTaken: image.dateTaken,
+      copyright: image.copyright,
+      city: image.city ?? null,
+      country: image.country ?? null,
+      location: image.location ?? null,
+      event: image.event ?? null,
+      contentPartner: image.contentPartner ?? null,
+      featuring: image.featuring ?? null,
+      people: image.people ?? null,
+      dateTakenEdtf: image.dateTakenEdtf ?? null,
+      rights: image.rights ?? null,
+      canvasImagePath: image.canvasImagePath ?? null,
+      rawMetadata: image.rawMetadata ?? null,
+      lastSeenAt: now,
+      ...(changes.length > 0 ? { lastChangedAt: now } : {}),
+    };
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    await (db as any).insert(schema.images)
+      .values({ imageId: image.imageId, ...fields, firstSeenAt: now })
+      .onConflictDoUpdate({ target: schema.images.imageId, set: fields });
+
+    if (!latestRevision || changes.length > 0) {
+      await (db as any).insert(schema.imageRevisions).values({
+        id: randomUUID(),
+        imageId: image.imageId,
+        ...current,
+        caption: currentRaw?.caption ?? null,
+        changes,
+        createdAt: now,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Scraped versions of a catalog image, oldest first (undefined if the image is not cataloged)
+   */
+  async getImageHistory(imageId: string): Promise<ImageRevision[] | undefined> {
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const [catalogRow] = await (db as any)
+      .select({ imageId: schema.images.imageId })
+      .from(schema.images)
+      .where(eq(schema.images.imageId, imageId));
+
+    if (!catalogRow) return undefined;
+
+    const rows = await (db as any)
+      .select()
+      .from(schema.imageRevisions)
+      .where(eq(schema.imageRevisions.imageId, imageId))
+      .orderBy(asc(schema.imageRevisions.createdAt));
+
+    return ((rows || []) as ImageRevisionRow[]).map(mapImageRevisionRowToDto);
+  }
+
+  /**
+   * Tags field of every image in a job, or of every catalog image when no job is given
+   */
+  async getImageTags(jobId?: string): Promise<Array<string | null>> {
+    const table = jobId ? schema.scrapedImages : schema.images;
+
+    // Type assertion needed due to union type of db (PostgreSQL vs SQLite)
+    const rows = await (db as any)
+      .select({ tags: table.tags })
+      .from(table)
+      .where(jobId ? eq(schema.scrapedImages.jobId, jobId) : undefined);
+
+    return ((rows || []) as Array<{ tags: string | null }>).map(row => row.tags);
   }
 }
 
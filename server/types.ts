@@ -1,6 +1,6 @@
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
-import type { ScrapeConfig } from "../shared/schema";
+import type { ImageRights, MetadataFieldChange, RawMetadata, ScrapeConfig } from "../shared/schema";
 import * as pgSchema from "./db/schema";
 import * as sqliteSchema from "./db/sqlite-schema";
 
@@ -10,6 +10,8 @@ import * as sqliteSchema from "./db/sqlite-schema";
 export type ScrapeJobRowPg = {
   id: string;
   url: string;
+  effectiveUrl: string | null;
+  scheduleId: string | null;
   status: string;
   progress: number;
   totalImages: number;
@@ -26,6 +28,8 @@ export type ScrapeJobRowPg = {
 export type ScrapeJobRowSqlite = {
   id: string;
   url: string;
+  effectiveUrl: string | null;
+  scheduleId: string | null;
   status: string;
   progress: number;
   totalImages: number;
@@ -60,6 +64,17 @@ export type ScrapedImageRowPg = {
   authors: string | null;
   dateTaken: string | null;
   copyright: string | null;
+  city: string | null;
+  country: string | null;
+  location: string | null;
+  event: string | null;
+  contentPartner: string | null;
+  featuring: string | null;
+  people: string[] | null;
+  dateTakenEdtf: string | null;
+  rights: ImageRights | null;
+  canvasImagePath: string | null;
+  rawMetadata: RawMetadata | null;
   createdAt: Date;
 };
 
@@ -82,6 +97,17 @@ export type ScrapedImageRowSqlite = {
   authors: string | null;
   dateTaken: string | null;
   copyright: string | null;
+  city: string | null;
+  country: string | null;
+  location: string | null;
+  event: string | null;
+  contentPartner: string | null;
+  featuring: string | null;
+  people: string[] | null;
+  dateTakenEdtf: string | null;
+  rights: ImageRights | null;
+  canvasImagePath: string | null;
+  rawMetadata: RawMetadata | null;
   createdAt: Date;
 };
 
@@ -90,6 +116,229 @@ export type ScrapedImageRowSqlite = {
  */
 export type ScrapedImageRow = ScrapedImageRowPg | ScrapedImageRowSqlite;
 
+/**
+ * Database row type for discovered job links (PostgreSQL)
+ */
+export type ScrapeJobLinkRowPg = {
+  id: string;
+  jobId: string;
+  imageId: string;
+  url: string;
+  hash: string;
+  thumbnailUrl: string | null;
+  position: number;
+  status: string;
+  updatedAt: Date;
+};
+
+/**
+ * Database row type for discovered job links (SQLite)
+ */
+export type ScrapeJobLinkRowSqlite = {
+  id: string;
+  jobId: string;
+  imageId: string;
+  url: string;
+  hash: string;
+  thumbnailUrl: string | null;
+  position: number;
+  status: string;
+  updatedAt: Date;
+};
+
+/**
+ * Unified job link row type (works for both databases)
+ */
+export type ScrapeJobLinkRow = ScrapeJobLinkRowPg | ScrapeJobLinkRowSqlite;
+
+/**
+ * Database row type for scheduled scrapes (PostgreSQL)
+ */
+export type ScheduledScrapeRowPg = {
+  id: string;
+  name: string;
+  cron: string;
+  config: ScrapeConfig;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  lastJobId: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Database row type for scheduled scrapes (SQLite)
+ */
+export type ScheduledScrapeRowSqlite = {
+  id: string;
+  name: string;
+  cron: string;
+  config: ScrapeConfig;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  lastJobId: string | null;
+  createdAt: Date;
+};
+
+/**
+ * Unified scheduled scrape row type (works for both databases)
+ */
+export type ScheduledScrapeRow = ScheduledScrapeRowPg | ScheduledScrapeRowSqlite;
+
+/**
+ * Database row type for webhook deliveries (PostgreSQL)
+ */
+export type WebhookDeliveryRowPg = {
+  id: string;
+  jobId: string;
+  event: string;
+  url: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+};
+
+/**
+ * Database row type for webhook deliveries (SQLite)
+ */
+export type WebhookDeliveryRowSqlite = {
+  id: string;
+  jobId: string;
+  event: string;
+  url: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+};
+
+/**
+ * Unified webhook delivery row type (works for both databases)
+ */
+export type WebhookDeliveryRow = WebhookDeliveryRowPg | WebhookDeliveryRowSqlite;
+
+/**
+ * Database row type for the global image catalog (PostgreSQL)
+ */
+export type CatalogImageRowPg = {
+  imageId: string;
+  hash: string;
+  url: string;
+  copyLink: string;
+  smartframeId: string;
+  thumbnailUrl: string | null;
+  titleField: string | null;
+  subjectField: string | null;
+  tags: string | null;
+  comments: string | null;
+  authors: string | null;
+  dateTaken: string | null;
+  copyright: string | null;
+  city: string | null;
+  country: string | null;
+  location: string | null;
+  event: string | null;
+  contentPartner: string | null;
+  featuring: string | null;
+  people: string[] | null;
+  dateTakenEdtf: string | null;
+  rights: ImageRights | null;
+  canvasImagePath: string | null;
+  rawMetadata: RawMetadata | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  lastChangedAt: Date | null;
+};
+
+/**
+ * Database row type for the global image catalog (SQLite)
+ */
+export type CatalogImageRowSqlite = {
+  imageId: string;
+  hash: string;
+  url: string;
+  copyLink: string;
+  smartframeId: string;
+  thumbnailUrl: string | null;
+  titleField: string | null;
+  subjectField: string | null;
+  tags: string | null;
+  comments: string | null;
+  authors: string | null;
+  dateTaken: string | null;
+  copyright: string | null;
+  city: string | null;
+  country: string | null;
+  location: string | null;
+  event: string | null;
+  contentPartner: string | null;
+  featuring: string | null;
+  people: string[] | null;
+  dateTakenEdtf: string | null;
+  rights: ImageRights | null;
+  canvasImagePath: string | null;
+  rawMetadata: RawMetadata | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  lastChangedAt: Date | null;
+};
+
+/**
+ * Unified image catalog row type (works for both databases)
+ */
+export type CatalogImageRow = CatalogImageRowPg | CatalogImageRowSqlite;
+
+/**
+ * Database row type for image metadata revisions (PostgreSQL)
+ */
+export type ImageRevisionRowPg = {
+  id: string;
+  imageId: string;
+  titleField: string | null;
+  subjectField: string | null;
+  tags: string | null;
+  comments: string | null;
+  authors: string | null;
+  dateTaken: string | null;
+  copyright: string | null;
+  labelValues: Array<{ label: string; value: string }> | null;
+  caption: string | null;
+  changes: MetadataFieldChange[];
+  createdAt: Date;
+};
+
+/**
+ * Database row type for image metadata revisions (SQLite)
+ */
+export type ImageRevisionRowSqlite = {
+  id: string;
+  imageId: string;
+  titleField: string | null;
+  subjectField: string | null;
+  tags: string | null;
+  comments: string | null;
+  authors: string | null;
+  dateTaken: string | null;
+  copyright: string | null;
+  labelValues: Array<{ label: string; value: string }> | null;
+  caption: string | null;
+  changes: MetadataFieldChange[];
+  createdAt: Date;
+};
+
+/**
+ * Unified image revision row type (works for both databases)
+ */
+export type ImageRevisionRow = ImageRevisionRowPg | ImageRevisionRowSqlite;
+
 /**
  * Typed Drizzle database client for PostgreSQL
  */
@@ -170,11 +419,23 @@ export interface ScraperConfig {
     canvasConcurrency?: number;
     interTabDelayMin?: number;
     interTabDelayMax?: number;
+    httpRequestDelayMs?: number;
     ensureTabActive?: boolean;
     pageRecreationInterval?: number;
     maxTasksPerProcess?: number;
     processRecyclingEnabled?: boolean;
     memoryThresholdMB?: number;
+    autoResumeInterruptedJobs?: boolean;
+  };
+  webhooks?: {
+    urls?: string[];
+    // Hosts webhooks may reach even though they are (or resolve to) private addresses
+    allowedHosts?: string[];
+    secret?: string;
+    progressEvery?: number;
+    maxAttempts?: number;
+    retryBaseDelayMs?: number;
+    timeoutMs?: number;
   };
   navigation?: {
     timeout: number;
@@ -228,5 +489,17 @@ export interface ScraperConfig {
   };
   metadata?: {
     metadataTimeout?: number;
+    labelMappingsFile?: string;
+    personAliasesFile?: string;
+    tagTaxonomyFile?: string;
+  };
+  caption?: {
+    enableMultiParagraph?: boolean;
+    // Locale pack codes to register (all packs in localesDir when omitted)
+    supportedLocales?: string[];
+    defaultLocale?: string;
+    localesDir?: string;
+    // Named caption templates for exports (see caption-generator.ts for the syntax)
+    templates?: Record<string, string>;
   };
 }
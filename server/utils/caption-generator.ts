@@ -1,3 +1,5 @@
+import type { ScrapedImage } from '../../shared/schema';
+
 export interface CaptionData {
   title?: string | null;
   captionRaw?: string | null;
@@ -9,36 +11,189 @@ export interface CaptionData {
   copyright?: string | null;
 }
 
-export function generateCaption(data: CaptionData): string {
-  const lines: string[] = [];
-  
-  // Add title/description first
-  if (data.title) {
-    lines.push(data.title);
-  }
-  
-  if (data.captionRaw) {
-    lines.push(data.captionRaw);
+/**
+ * Values a caption template can use: CaptionData plus the clean and structured image fields
+ * `location` falls back to "city, country" and `credit` to copyright, then photographer
+ */
+export interface CaptionTemplateData extends CaptionData {
+  location?: string | null;
+  credit?: string | null;
+  titleField?: string | null;
+  subjectField?: string | null;
+  tags?: string | null;
+  comments?: string | null;
+  authors?: string | null;
+  event?: string | null;
+  contentPartner?: string | null;
+}
+
+export const CAPTION_TEMPLATE_FIELDS = [
+  'title', 'captionRaw', 'featuring', 'city', 'country', 'dateTaken', 'photographer', 'copyright',
+  'location', 'credit', 'titleField', 'subjectField', 'tags', 'comments', 'authors', 'event', 'contentPartner',
+] as const satisfies readonly (keyof CaptionTemplateData)[];
+
+type CaptionTemplateField = typeof CAPTION_TEMPLATE_FIELDS[number];
+
+/**
+ * The layout generateCaption has always produced
+ */
+export const DEFAULT_CAPTION_TEMPLATE = [
+  '{{#title}}',
+  '{{title}}',
+  '{{/title}}',
+  '{{#captionRaw}}',
+  '{{captionRaw}}',
+  '{{/captionRaw}}',
+  '{{#featuring}}',
+  'Featuring: {{featuring}}',
+  '{{/featuring}}',
+  '{{#location}}',
+  'Where: {{location}}',
+  '{{/location}}',
+  '{{#dateTaken}}',
+  'When: {{dateTaken}}',
+  '{{/dateTaken}}',
+  '{{#credit}}',
+  'Credit: {{credit}}',
+  '{{/credit}}',
+].join('\n');
+
+/**
+ * CaptionTemplateError - The template does not parse (unknown field, unbalanced section)
+ */
+export class CaptionTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptionTemplateError';
   }
-  
-  // Add structured metadata fields
-  if (data.featuring) {
-    lines.push(`Featuring: ${data.featuring}`);
+}
+
+type CaptionTemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'field'; field: CaptionTemplateField }
+  | { type: 'section'; field: CaptionTemplateField; inverted: boolean; children: CaptionTemplateNode[] };
+
+export type CompiledCaptionTemplate = CaptionTemplateNode[];
+
+const TAG_REGEX = /\{\{\s*([#^/]?)\s*([A-Za-z]+)\s*\}\}/g;
+
+// A line holding nothing but a section tag disappears with its line break, as in mustache
+const STANDALONE_SECTION_TAG_REGEX = /^[ \t]*(\{\{\s*[#^/]\s*[A-Za-z]+\s*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+function isTemplateField(name: string): name is CaptionTemplateField {
+  return (CAPTION_TEMPLATE_FIELDS as readonly string[]).includes(name);
+}
+
+/**
+ * Parse a caption template
+ * Syntax: {{field}} inserts a value, {{#field}}...{{/field}} renders only when the field
+ * has a value and {{^field}}...{{/field}} only when it has none
+ * @throws CaptionTemplateError
+ */
+export function compileCaptionTemplate(source: string): CompiledCaptionTemplate {
+  const root: CaptionTemplateNode[] = [];
+  const stack: Array<{ field: CaptionTemplateField; children: CaptionTemplateNode[] }> = [];
+  const normalized = source.replace(STANDALONE_SECTION_TAG_REGEX, '$1');
+
+  let current = root;
+  let lastIndex = 0;
+  for (const match of normalized.matchAll(TAG_REGEX)) {
+    const [tag, sigil, name] = match;
+    if (match.index > lastIndex) {
+      current.push({ type: 'text', text: normalized.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + tag.length;
+
+    if (!isTemplateField(name)) {
+      throw new CaptionTemplateError(`Unknown caption field "${name}"`);
+    }
+
+    if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.field !== name) {
+        throw new CaptionTemplateError(`Unexpected {{/${name}}}`);
+      }
+      current = stack.length > 0 ? stack[stack.length - 1].children : root;
+    } else if (sigil) {
+      const section: CaptionTemplateNode = { type: 'section', field: name, inverted: sigil === '^', children: [] };
+      current.push(section);
+      stack.push({ field: name, children: section.children });
+      current = section.children;
+    } else {
+      current.push({ type: 'field', field: name });
+    }
   }
-  
-  if (data.city || data.country) {
-    const location = [data.city, data.country].filter(Boolean).join(', ');
-    lines.push(`Where: ${location}`);
+
+  if (stack.length > 0) {
+    throw new CaptionTemplateError(`Unclosed section {{#${stack[stack.length - 1].field}}}`);
   }
-  
-  if (data.dateTaken) {
-    lines.push(`When: ${data.dateTaken}`);
+  if (lastIndex < normalized.length) {
+    current.push({ type: 'text', text: normalized.slice(lastIndex) });
   }
-  
-  const credit = data.copyright || data.photographer;
-  if (credit) {
-    lines.push(`Credit: ${credit}`);
+  return root;
+}
+
+function fieldValue(data: CaptionTemplateData, field: CaptionTemplateField): string {
+  switch (field) {
+    case 'location':
+      return data.location?.trim() || [data.city, data.country].filter(Boolean).join(', ');
+    case 'credit':
+      return data.credit?.trim() || data.copyright?.trim() || data.photographer?.trim() || '';
+    default:
+      return data[field]?.trim() || '';
   }
-  
-  return lines.join('\n');
+}
+
+function renderNodes(nodes: CaptionTemplateNode[], data: CaptionTemplateData): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'field':
+        return fieldValue(data, node.field);
+      case 'section': {
+        const hasValue = fieldValue(data, node.field) !== '';
+        return hasValue !== node.inverted ? renderNodes(node.children, data) : '';
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Render a caption template (source or compiled) with trailing whitespace removed
+ * @throws CaptionTemplateError when given a template source that does not parse
+ */
+export function renderCaptionTemplate(template: string | CompiledCaptionTemplate, data: CaptionTemplateData): string {
+  const compiled = typeof template === 'string' ? compileCaptionTemplate(template) : template;
+  return renderNodes(compiled, data).replace(/\s+$/, '');
+}
+
+const defaultCaptionTemplate = compileCaptionTemplate(DEFAULT_CAPTION_TEMPLATE);
+
+export function generateCaption(data: CaptionData): string {
+  return renderCaptionTemplate(defaultCaptionTemplate, data);
+}
+
+/**
+ * Template values for a stored image
+ */
+export function captionDataFromImage(image: ScrapedImage): CaptionTemplateData {
+  return {
+    title: image.titleField,
+    captionRaw: image.rawMetadata?.caption ?? null,
+    featuring: image.featuring || image.subjectField,
+    city: image.city,
+    country: image.country,
+    dateTaken: image.dateTaken,
+    photographer: image.authors,
+    copyright: image.copyright,
+    location: image.location,
+    titleField: image.titleField,
+    subjectField: image.subjectField,
+    tags: image.tags,
+    comments: image.comments,
+    authors: image.authors,
+    event: image.event,
+    contentPartner: image.contentPartner,
+  };
 }
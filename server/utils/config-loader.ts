@@ -1,6 +1,25 @@
 import fs from 'fs';
 import path from 'path';
+import YAML from 'yaml';
+import {
+  labelMappingRulesSchema,
+  localePackSchema,
+  personAliasesSchema,
+  tagTaxonomySchema,
+  type LabelMappingRule,
+  type LocalePack,
+  type PersonAliases,
+  type TagTaxonomy,
+} from '../../shared/schema';
 import type { ScraperConfig } from '../types';
+import { compileCaptionTemplate, DEFAULT_CAPTION_TEMPLATE } from './caption-generator';
+
+const DEFAULT_LABEL_MAPPINGS_FILE = 'label-mappings.json';
+const DEFAULT_PERSON_ALIASES_FILE = 'person-aliases.json';
+const DEFAULT_TAG_TAXONOMY_FILE = 'tag-taxonomy.json';
+const DEFAULT_LOCALES_DIR = 'locales';
+const LOCALE_PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const CAPTION_TEMPLATE_NAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
 
 /**
  * Default configuration values for the scraper
@@ -53,3 +72,184 @@ export function loadScraperConfig(): ScraperConfig {
     return DEFAULT_CONFIG;
   }
 }
+
+/**
+ * Path of the label mapping rules file (metadata.labelMappingsFile, relative to the working directory)
+ */
+export function getLabelMappingsPath(config: ScraperConfig | null): string {
+  return path.resolve(process.cwd(), config?.metadata?.labelMappingsFile || DEFAULT_LABEL_MAPPINGS_FILE);
+}
+
+/**
+ * Load the label-to-field mapping rules
+ * Falls back to the bundled label-mappings.json if the configured file is missing or invalid,
+ * and to no rules if that can't be read either
+ *
+ * @returns Validated rules in file order
+ */
+export function loadLabelMappingRules(config: ScraperConfig | null): LabelMappingRule[] {
+  const rulesPath = getLabelMappingsPath(config);
+  const bundledPath = path.resolve(process.cwd(), DEFAULT_LABEL_MAPPINGS_FILE);
+  const candidates = rulesPath === bundledPath ? [rulesPath] : [rulesPath, bundledPath];
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = labelMappingRulesSchema.parse(JSON.parse(fs.readFileSync(candidate, 'utf-8')));
+      console.log(`✓ Loaded ${parsed.rules.length} label mapping rules from ${path.basename(candidate)}`);
+      return parsed.rules;
+    } catch (error) {
+      const fallback = candidate === bundledPath ? 'labels will not be mapped' : 'using the bundled rules';
+      console.warn(`⚠️  Could not load label mapping rules from ${candidate}, ${fallback}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Write the label-to-field mapping rules back to the rules file
+ */
+export function saveLabelMappingRules(config: ScraperConfig | null, rules: LabelMappingRule[]): void {
+  fs.writeFileSync(getLabelMappingsPath(config), JSON.stringify({ rules }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Path of the person alias dictionary (metadata.personAliasesFile, relative to the working directory)
+ */
+export function getPersonAliasesPath(config: ScraperConfig | null): string {
+  return path.resolve(process.cwd(), config?.metadata?.personAliasesFile || DEFAULT_PERSON_ALIASES_FILE);
+}
+
+/**
+ * Load the person alias dictionary (canonical name -> other spellings)
+ * Falls back to no aliases if the file is missing or invalid
+ */
+export function loadPersonAliases(config: ScraperConfig | null): PersonAliases {
+  const aliasesPath = getPersonAliasesPath(config);
+  try {
+    const parsed = personAliasesSchema.parse(JSON.parse(fs.readFileSync(aliasesPath, 'utf-8')));
+    console.log(`✓ Loaded ${Object.keys(parsed.aliases).length} person aliases from ${path.basename(aliasesPath)}`);
+    return parsed.aliases;
+  } catch (error) {
+    console.warn(`⚠️  Could not load person aliases from ${aliasesPath}, names will not be merged:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/**
+ * Write the person alias dictionary back to its file
+ */
+export function savePersonAliases(config: ScraperConfig | null, aliases: PersonAliases): void {
+  fs.writeFileSync(getPersonAliasesPath(config), JSON.stringify({ aliases }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Path of the tag taxonomy (metadata.tagTaxonomyFile, relative to the working directory)
+ */
+export function getTagTaxonomyPath(config: ScraperConfig | null): string {
+  return path.resolve(process.cwd(), config?.metadata?.tagTaxonomyFile || DEFAULT_TAG_TAXONOMY_FILE);
+}
+
+/**
+ * Load the tag taxonomy (synonyms, stop-words, categories and limits)
+ * Falls back to an empty taxonomy (tags only de-duplicated) if the file is missing or invalid
+ */
+export function loadTagTaxonomy(config: ScraperConfig | null): TagTaxonomy {
+  const taxonomyPath = getTagTaxonomyPath(config);
+  try {
+    const taxonomy = tagTaxonomySchema.parse(JSON.parse(fs.readFileSync(taxonomyPath, 'utf-8')));
+    console.log(`✓ Loaded tag taxonomy from ${path.basename(taxonomyPath)} (${Object.keys(taxonomy.synonyms).length} synonym groups, ${taxonomy.stopwords.length} stop-words)`);
+    return taxonomy;
+  } catch (error) {
+    console.warn(`⚠️  Could not load tag taxonomy from ${taxonomyPath}, tags will not be merged:`, error instanceof Error ? error.message : error);
+    return tagTaxonomySchema.parse({});
+  }
+}
+
+/**
+ * Write the tag taxonomy back to its file
+ */
+export function saveTagTaxonomy(config: ScraperConfig | null, taxonomy: TagTaxonomy): void {
+  fs.writeFileSync(getTagTaxonomyPath(config), JSON.stringify(taxonomy, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Directory holding the caption locale packs (caption.localesDir, relative to the working directory)
+ */
+export function getLocalesDir(config: ScraperConfig | null): string {
+  return path.resolve(process.cwd(), config?.caption?.localesDir || DEFAULT_LOCALES_DIR);
+}
+
+/**
+ * Load the caption locale packs (<code>.json, <code>.yaml or <code>.yml)
+ * Only packs listed in caption.supportedLocales are loaded when that list is set.
+ * Invalid packs are skipped with a warning.
+ *
+ * @returns Validated packs sorted by code
+ */
+export function loadLocalePacks(config: ScraperConfig | null): LocalePack[] {
+  const localesDir = getLocalesDir(config);
+  const supported = config?.caption?.supportedLocales;
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(localesDir)
+      .filter(file => LOCALE_PACK_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort();
+  } catch (error) {
+    console.warn(`⚠️  Could not read locale packs from ${localesDir}, only English captions will be parsed:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+
+  const packs = new Map<string, LocalePack>();
+  for (const file of files) {
+    const code = path.basename(file, path.extname(file));
+    if (supported && !supported.includes(code)) continue;
+    if (packs.has(code)) {
+      console.warn(`⚠️  Skipping locale pack ${file}: another file already defines '${code}'`);
+      continue;
+    }
+
+    try {
+      const content = fs.readFileSync(path.join(localesDir, file), 'utf-8');
+      const data = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+      packs.set(code, localePackSchema.parse({ ...data, code }));
+    } catch (error) {
+      console.warn(`⚠️  Skipping invalid locale pack ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const code of supported ?? []) {
+    if (!packs.has(code)) {
+      console.warn(`⚠️  caption.supportedLocales lists '${code}' but no valid pack was found in ${localesDir}`);
+    }
+  }
+
+  console.log(`✓ Loaded ${packs.size} caption locale packs (${Array.from(packs.keys()).join(', ')})`);
+  return Array.from(packs.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Named caption templates from caption.templates
+ * 'default' is the built-in layout unless the config overrides it; invalid templates are skipped with a warning
+ *
+ * @returns Template sources keyed by name
+ */
+export function loadCaptionTemplates(config: ScraperConfig | null): Record<string, string> {
+  const templates: Record<string, string> = { default: DEFAULT_CAPTION_TEMPLATE };
+
+  for (const [name, template] of Object.entries(config?.caption?.templates ?? {})) {
+    if (!CAPTION_TEMPLATE_NAME_REGEX.test(name) || typeof template !== 'string') {
+      console.warn(`⚠️  Skipping caption template "${name}": names use letters, digits, '-' and '_' and templates are strings`);
+      continue;
+    }
+    try {
+      compileCaptionTemplate(template);
+      templates[name] = template;
+    } catch (error) {
+      console.warn(`⚠️  Skipping caption template "${name}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return templates;
+}
@@ -0,0 +1,173 @@
+/**
+ * Cron expression parsing for scheduled scrapes
+ * Standard 5-field syntax (minute hour day-of-month month day-of-week) evaluated in server local time.
+ * Supports "*", lists, ranges, steps, month/day names and the @hourly/@daily/@weekly/@monthly/@yearly macros
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Upper bound for the next-run search (covers Feb 29 schedules)
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(token: string, min: number, names?: string[], nameOffset: number = 0): number {
+  const lower = token.toLowerCase();
+  const nameIndex = names ? names.indexOf(lower) : -1;
+  if (nameIndex !== -1) return nameIndex + nameOffset;
+
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid cron value "${token}"`);
+  }
+  const value = parseInt(token, 10);
+  if (value < min) {
+    throw new Error(`Cron value ${value} is below ${min}`);
+  }
+  return value;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || !rangePart) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseValue(stepPart, 1);
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, min, names, nameOffset);
+      end = parseValue(to, min, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, min, names, nameOffset);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (end > max || start > end) {
+      throw new Error(`Cron range "${rangePart}" is outside ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing an Error with a readable message when it is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+  const daysOfWeek = parseField(dowField, 0, 7, DAY_NAMES);
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minuteField, 0, 59),
+    hours: parseField(hourField, 0, 23),
+    daysOfMonth: parseField(domField, 1, 31),
+    months: parseField(monthField, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    // Like standard cron, a field starting with '*' (e.g. '*/2') counts as unrestricted
+    daysOfMonthRestricted: !domField.startsWith('*'),
+    daysOfWeekRestricted: !dowField.startsWith('*'),
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `after` (to the minute) at which the expression fires
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCronExpression(expression);
+
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error(`Cron expression "${expression}" never fires`);
+}
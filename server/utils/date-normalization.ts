@@ -1,13 +1,56 @@
-import { parse, format, isValid } from 'date-fns';
+import { parse, format, isValid, lastDayOfMonth } from 'date-fns';
+
+/**
+ * How much of the date is known
+ * 'time' - date and time of day, 'season' - a meteorological season of a year
+ */
+export type DatePrecision = 'time' | 'day' | 'month' | 'season' | 'year' | 'decade';
+
+/**
+ * A parsed date, instant or range
+ * start/end are the first and last day covered (the timestamp itself for 'time')
+ */
+export interface ParsedDate {
+  original: string;
+  start: string;
+  end: string;
+  precision: DatePrecision;
+  // "12-14 June 2023", "1985-87"
+  interval: boolean;
+  // "c. 1970s", "circa 1900", "1985~"
+  approximate: boolean;
+  // "1985?"
+  uncertain: boolean;
+  // UTC offset of a timestamp ("+02:00", "Z"); null when not given
+  timezone: string | null;
+  // ISO 8601: 2023-06-12, 2023-06, 1985, 1970/1979, 2023-06-12/2023-06-14, 2023-06-12T18:30:00+02:00
+  iso: string;
+  // EDTF: like iso, plus 197X (decade), 1985-22 (summer) and ~ ? % qualifiers
+  edtf: string;
+}
+
+// A single point of a date before qualifiers and ranges are applied
+interface DateSpan {
+  start: string;
+  end: string;
+  precision: DatePrecision;
+  timezone: string | null;
+  iso: string;
+  edtf: string;
+}
 
 const DATE_FORMATS = [
   'yyyy-MM-dd',
   'dd MMM yyyy',
   'd MMM yyyy',
+  'dd MMMM yyyy',
+  'd MMMM yyyy',
   'MMMM dd, yyyy',
   'MMMM d, yyyy',
+  'MMMM d yyyy',
   'MMM dd, yyyy',
   'MMM d, yyyy',
+  'MMM d yyyy',
   'dd/MM/yyyy',
   'd/M/yyyy',
   'MM/dd/yyyy',
@@ -27,6 +70,84 @@ const DATE_FORMATS = [
   'EEEE, d MMMM yyyy',
 ];
 
+const MONTH_FORMATS = [
+  'MMMM yyyy',
+  'MMM yyyy',
+  'MMMM, yyyy',
+  'MM/yyyy',
+  'M/yyyy',
+  'MM.yyyy',
+];
+
+const ENGLISH_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// EDTF season codes 21-24, northern hemisphere meteorological seasons
+const SEASONS: Record<string, { code: number; firstMonth: number }> = {
+  spring: { code: 21, firstMonth: 3 },
+  summer: { code: 22, firstMonth: 6 },
+  autumn: { code: 23, firstMonth: 9 },
+  fall: { code: 23, firstMonth: 9 },
+  winter: { code: 24, firstMonth: 12 },
+};
+
+const PRECISION_ORDER: DatePrecision[] = ['time', 'day', 'month', 'season', 'year', 'decade'];
+
+const APPROXIMATE_PREFIX_REGEX = /^(?:circa|approximately|approx\.?|about|around|ca\.|ca(?=\s)|c\.)\s*/i;
+const QUALIFIER_SUFFIX_REGEX = /\s*([~?%])$/;
+const TIMESTAMP_REGEX = /^(\d{4})[-:](\d{2})[-:](\d{2})[T\s](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?)?$/i;
+const RANGE_SEPARATOR_REGEX = /\s*(?:\/|–|—|\s-\s|\bto\b|\buntil\b|\bthrough\b)\s*/i;
+
+// Month names from the caption locale packs (see registerLocaleMonthNames)
+let localeMonthNames: string[][][] = [];
+
+/**
+ * Month names accepted besides English, one entry per locale (12 months, each with its forms)
+ * Registered with the caption locale packs
+ */
+export function registerLocaleMonthNames(months: string[][][]): void {
+  localeMonthNames = months;
+}
+
+/**
+ * Whole-word match for any script (\b only knows ASCII letters)
+ */
+export function wordRegex(word: string): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\d])${escaped}(?![\\p{L}\\d])`, 'giu');
+}
+
+/**
+ * Replace localized month names with English ones so date-fns can parse them,
+ * dropping the words that join day, month and year ("25 de agosto de 2012", "25 sierpnia 2012 r.")
+ */
+function translateMonthNames(text: string): string {
+  let translated = text;
+  let found = false;
+
+  for (const months of localeMonthNames) {
+    months.forEach((names, monthIndex) => {
+      for (const name of names) {
+        if (wordRegex(name).test(translated)) {
+          translated = translated.replace(wordRegex(name), ENGLISH_MONTHS[monthIndex]);
+          found = true;
+        }
+      }
+    });
+  }
+
+  if (!found) return text;
+
+  return translated
+    .replace(/^(\d{1,2})\./, '$1')
+    .replace(/(?<![\p{L}])(?:de|del|di|van)(?![\p{L}])/giu, ' ')
+    .replace(/\s+r\.?$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 /**
  * Applies century repair logic to fix truncated years
  * Heuristic: 00YY → 20YY, 0YYY → 20YY (assumes 2000-2099)
@@ -37,106 +158,364 @@ const DATE_FORMATS = [
 function repairCentury(year: number): number {
   const currentYear = new Date().getFullYear();
   let repairedYear = year;
-  
+
   // If year is in format 0-999 (truncated/missing leading digit), add 2000
   if (repairedYear >= 0 && repairedYear < 1000) {
     repairedYear = 2000 + repairedYear;
   }
-  
+
   // Preserve genuine 19th-century dates (1800-1899)
   if (repairedYear >= 1800 && repairedYear < 1900) {
     return repairedYear;
   }
-  
+
   // Iterate: subtract 100 until year falls inside valid range [1900, currentYear+1]
   while (repairedYear > currentYear + 1) {
     repairedYear -= 100;
   }
-  
+
   // Iterate: add 100 if year is too far in the past (shouldn't happen often)
   while (repairedYear < 1800) {
     repairedYear += 100;
   }
-  
+
   return repairedYear;
 }
 
-/**
- * Multi-format date parser with bespoke century repair logic
- * Handles truncated years (00XX → 20XX) and validates plausibility
- */
-export function normalizeDate(dateString: string | null | undefined): string | null {
-  if (!dateString) return null;
-  
-  // Pre-clean the date string
-  let cleanDateString = dateString
-    .replace(/\.$/, '')
-    .replace(/(\d)(st|nd|rd|th)/g, '$1')
-    .trim();
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function lastDay(year: number, month: number): string {
+  return format(lastDayOfMonth(new Date(year, month - 1, 1)), 'yyyy-MM-dd');
+}
+
+function daySpan(date: Date): DateSpan {
+  const day = format(date, 'yyyy-MM-dd');
+  return { start: day, end: day, precision: 'day', timezone: null, iso: day, edtf: day };
+}
+
+function monthSpan(year: number, month: number): DateSpan {
+  const value = `${pad(year, 4)}-${pad(month)}`;
+  return { start: `${value}-01`, end: lastDay(year, month), precision: 'month', timezone: null, iso: value, edtf: value };
+}
+
+function seasonSpan(year: number, season: keyof typeof SEASONS): DateSpan {
+  const { code, firstMonth } = SEASONS[season];
+  // Winter runs from December into the next year
+  const endYear = firstMonth === 12 ? year + 1 : year;
+  const endMonth = (firstMonth + 2 - 1) % 12 + 1;
+  return {
+    start: `${pad(year, 4)}-${pad(firstMonth)}-01`,
+    end: lastDay(endYear, endMonth),
+    precision: 'season',
+    timezone: null,
+    iso: `${pad(year, 4)}-${pad(firstMonth)}/${pad(endYear, 4)}-${pad(endMonth)}`,
+    edtf: `${pad(year, 4)}-${code}`,
+  };
+}
+
+function yearSpan(year: number): DateSpan {
+  const value = pad(year, 4);
+  return { start: `${value}-01-01`, end: `${value}-12-31`, precision: 'year', timezone: null, iso: value, edtf: value };
+}
+
+function decadeSpan(firstYear: number): DateSpan {
+  const first = pad(firstYear, 4);
+  const last = pad(firstYear + 9, 4);
+  return {
+    start: `${first}-01-01`,
+    end: `${last}-12-31`,
+    precision: 'decade',
+    timezone: null,
+    iso: `${first}/${last}`,
+    edtf: `${first.slice(0, 3)}X`,
+  };
+}
+
+function normalizeTimezone(zone: string | undefined): string | null {
+  if (!zone) return null;
+  if (/^(?:z|utc|gmt)$/i.test(zone)) return 'Z';
+  const [, sign, hours, minutes] = zone.match(/^([+-])(\d{2}):?(\d{2})?$/)!;
+  return `${sign}${hours}:${minutes ?? '00'}`;
+}
+
+// 2023-06-12T18:30:00+02:00, 2023-06-12 18:30Z, EXIF 2023:06:12 18:30:00
+function parseTimestamp(text: string): DateSpan | null {
+  const match = text.match(TIMESTAMP_REGEX);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, fraction, zone] = match;
+  const date = parse(`${year}-${month}-${day}`, 'yyyy-MM-dd', new Date());
+  if (!isValid(date) || Number(hours) > 23 || Number(minutes) > 59 || Number(seconds ?? 0) > 59) return null;
+
+  const timezone = normalizeTimezone(zone);
+  const value = `${year}-${month}-${day}T${hours}:${minutes}:${seconds ?? '00'}${fraction ?? ''}${timezone ?? ''}`;
+  return { start: value, end: value, precision: 'time', timezone, iso: value, edtf: value };
+}
+
+// Numeric ISO 8601 / EDTF forms: 1985, 1985-06, 1985-22, 197X
+function parseNumericDate(text: string): DateSpan | null {
+  let match = text.match(/^(\d{4})$/);
+  if (match) return yearSpan(Number(match[1]));
+
+  match = text.match(/^(\d{3})X$/i);
+  if (match) return decadeSpan(Number(match[1]) * 10);
+
+  match = text.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    const [year, code] = [Number(match[1]), Number(match[2])];
+    if (code >= 1 && code <= 12) return monthSpan(year, code);
+    const season = Object.keys(SEASONS).find(name => SEASONS[name].code === code);
+    if (season) return seasonSpan(year, season);
+  }
+
+  return null;
+}
+
+// 1970s, the 1970s, '70s
+function parseDecade(text: string): DateSpan | null {
+  const match = text.match(/^(?:the\s+)?(\d{3}0)'?s$/i);
+  if (match) return decadeSpan(Number(match[1]));
+
+  const short = text.match(/^(?:the\s+)?['’](\d0)s$/i);
+  return short ? decadeSpan(repairCentury(Number(short[1]))) : null;
+}
+
+// Summer 1985, autumn of 2020
+function parseSeason(text: string): DateSpan | null {
+  const match = text.match(/^(spring|summer|autumn|fall|winter)\s+(?:of\s+)?(\d{4})$/i);
+  return match ? seasonSpan(Number(match[2]), match[1].toLowerCase()) : null;
+}
+
+function parseWithFormats(text: string, formats: string[]): Date | null {
+  const referenceDate = new Date();
+  for (const fmt of formats) {
+    const parsedDate = parse(text, fmt, referenceDate);
+    if (isValid(parsedDate)) return parsedDate;
+  }
+  return null;
+}
+
+function parseDay(text: string): DateSpan | null {
+  let cleanDateString = text;
 
   // Critical Fix: Detect and repair truncated year formats
-  // Pattern: 00XX-MM-DD → 20XX-MM-DD
-  const truncatedYearMatch = cleanDateString.match(/^00(\d{2})[-/.](\d{2})[-/.](\d{2})$/);
+  // 00XX-MM-DD → 20XX-MM-DD, 0XXX-MM-DD → 2XXX-MM-DD (e.g., 0012-08-25 → 2012-08-25)
+  const truncatedYearMatch = cleanDateString.match(/^0(0\d{2}|\d{3})[-/.](\d{2})[-/.](\d{2})$/);
   if (truncatedYearMatch) {
     const [, year, month, day] = truncatedYearMatch;
-    cleanDateString = `20${year}-${month}-${day}`;
-    console.log(`🔧 Century repair: ${dateString} → ${cleanDateString}`);
-  }
-
-  // Pattern: 0XXX-MM-DD → 2XXX-MM-DD (e.g., 0012-08-25 → 2012-08-25)
-  const fourDigitTruncMatch = cleanDateString.match(/^0(\d{3})[-/.](\d{2})[-/.](\d{2})$/);
-  if (fourDigitTruncMatch) {
-    const [, year, month, day] = fourDigitTruncMatch;
     cleanDateString = `2${year}-${month}-${day}`;
-    console.log(`🔧 Century repair: ${dateString} → ${cleanDateString}`);
+    console.log(`🔧 Century repair: ${text} → ${cleanDateString}`);
   }
 
-  const referenceDate = new Date();
-  
-  // Try all supported date formats
-  for (const fmt of DATE_FORMATS) {
-    try {
-      const parsedDate = parse(cleanDateString, fmt, referenceDate);
-      
-      if (isValid(parsedDate)) {
-        const year = parsedDate.getFullYear();
-        
-        // Apply century repair logic if year is implausible
-        if (year < 1900 || year > new Date().getFullYear() + 1) {
-          const repairedYear = repairCentury(year);
-          if (repairedYear !== year) {
-            parsedDate.setFullYear(repairedYear);
-            console.log(`🔧 Century repair: ${year} → ${repairedYear} for date ${dateString}`);
-          }
-        }
-        
-        return format(parsedDate, 'yyyy-MM-dd');
-      }
-    } catch (error) {
-      // Continue to next format
+  const parsedDate = parseWithFormats(cleanDateString, DATE_FORMATS);
+  if (!parsedDate) return null;
+
+  // Apply century repair logic if year is implausible
+  const year = parsedDate.getFullYear();
+  if (year < 1900 || year > new Date().getFullYear() + 1) {
+    const repairedYear = repairCentury(year);
+    if (repairedYear !== year) {
+      parsedDate.setFullYear(repairedYear);
+      console.log(`🔧 Century repair: ${year} → ${repairedYear} for date ${text}`);
     }
   }
-  
-  // Fallback: Try direct parsing
-  try {
-    const directParse = new Date(cleanDateString);
-    if (isValid(directParse) && !isNaN(directParse.getTime())) {
-      const year = directParse.getFullYear();
-      
-      // Apply century repair
-      if (year < 1900 || year > new Date().getFullYear() + 1) {
-        const repairedYear = repairCentury(year);
-        directParse.setFullYear(repairedYear);
-        console.log(`🔧 Century repair: ${year} → ${repairedYear} for date ${dateString}`);
-      }
-      
-      return format(directParse, 'yyyy-MM-dd');
-    }
-  } catch (error) {
-    // Continue to error logging
+
+  return daySpan(parsedDate);
+}
+
+function parseMonth(text: string): DateSpan | null {
+  const parsedDate = parseWithFormats(text, MONTH_FORMATS);
+  return parsedDate ? monthSpan(parsedDate.getFullYear(), parsedDate.getMonth() + 1) : null;
+}
+
+function parsePoint(text: string): DateSpan | null {
+  return parseTimestamp(text)
+    ?? parseNumericDate(text)
+    ?? parseDecade(text)
+    ?? parseSeason(text)
+    ?? parseDay(text)
+    ?? parseMonth(text);
+}
+
+function yearOf(span: DateSpan): string {
+  return span.start.slice(0, 4);
+}
+
+/**
+ * The start of a range, completed from its end when it leaves out the month or year
+ * ("12" of "12-14 June 2023", "June" of "June - August 2023", "12 June" of "12 June - 3 July 2023")
+ */
+function parseRangeStart(text: string, end: DateSpan): DateSpan | null {
+  const direct = parsePoint(text);
+  if (direct) return direct;
+
+  if (/^\d{1,2}$/.test(text) && end.precision === 'day') {
+    return parseDay(`${end.start.slice(0, 8)}${pad(Number(text))}`);
   }
-  
-  // Log unresolvable dates for investigation
-  console.log(`⚠️ Unresolvable date format: "${dateString}"`);
-  return null;
+
+  // 1985-87
+  if (/^\d{2}$/.test(text)) return null;
+
+  return parsePoint(`${text} ${yearOf(end)}`);
+}
+
+function parseRangeEnd(text: string, startText: string): string {
+  // "1985-87": the end year takes its century from the start
+  if (/^\d{4}$/.test(startText) && /^\d{2}$/.test(text)) {
+    return `${startText.slice(0, 2)}${text}`;
+  }
+  return text;
+}
+
+function combineSpans(start: DateSpan, end: DateSpan): DateSpan | null {
+  if (start.start > end.start) return null;
+
+  const precision = PRECISION_ORDER[Math.max(PRECISION_ORDER.indexOf(start.precision), PRECISION_ORDER.indexOf(end.precision))];
+  return {
+    start: start.start,
+    end: end.end,
+    precision,
+    timezone: start.timezone ?? end.timezone,
+    iso: `${start.iso}/${end.iso}`,
+    edtf: `${start.edtf}/${end.edtf}`,
+  };
+}
+
+function splitQualifiers(text: string): { text: string; approximate: boolean; uncertain: boolean } {
+  let approximate = false;
+  let uncertain = false;
+  let rest = text;
+
+  if (APPROXIMATE_PREFIX_REGEX.test(rest)) {
+    approximate = true;
+    rest = rest.replace(APPROXIMATE_PREFIX_REGEX, '');
+  }
+
+  const suffix = rest.match(QUALIFIER_SUFFIX_REGEX);
+  if (suffix) {
+    approximate = approximate || suffix[1] !== '?';
+    uncertain = suffix[1] !== '~';
+    rest = rest.replace(QUALIFIER_SUFFIX_REGEX, '');
+  }
+
+  return { text: rest.trim(), approximate, uncertain };
+}
+
+function qualify(edtf: string, approximate: boolean, uncertain: boolean): string {
+  if (approximate && uncertain) return `${edtf}%`;
+  if (approximate) return `${edtf}~`;
+  if (uncertain) return `${edtf}?`;
+  return edtf;
+}
+
+interface QualifiedSpan extends DateSpan {
+  approximate: boolean;
+  uncertain: boolean;
+}
+
+function parseQualifiedPoint(text: string): QualifiedSpan | null {
+  const qualifiers = splitQualifiers(text);
+  const span = parsePoint(qualifiers.text);
+  return span ? { ...span, approximate: qualifiers.approximate, uncertain: qualifiers.uncertain } : null;
+}
+
+function parseRange(text: string): QualifiedSpan | null {
+  let parts: [string, string] | null = null;
+
+  // 12-14 June 2023
+  let match = text.match(/^(\d{1,2})\s*-\s*(\d{1,2})\s+(.+)$/);
+  if (match) parts = [match[1], `${match[2]} ${match[3]}`];
+
+  // June 12-14, 2023
+  match = match ? null : text.match(/^(\p{L}+\.?)\s+(\d{1,2})\s*-\s*(\d{1,2}),?\s+(\d{4})$/u);
+  if (match) parts = [`${match[1]} ${match[2]}, ${match[4]}`, `${match[1]} ${match[3]}, ${match[4]}`];
+
+  // 1985-1987, 1985-87
+  match = parts ? null : text.match(/^(\d{4})\s*-\s*(\d{4}|\d{2})$/);
+  if (match) parts = [match[1], match[2]];
+
+  if (!parts) {
+    const split = text.split(RANGE_SEPARATOR_REGEX);
+    if (split.length === 2 && split[0] && split[1]) parts = [split[0], split[1]];
+  }
+  if (!parts) return null;
+
+  const startQualifiers = splitQualifiers(parts[0]);
+  const endQualifiers = splitQualifiers(parseRangeEnd(parts[1], parts[0]));
+  const end = parsePoint(endQualifiers.text);
+  const start = end ? parseRangeStart(startQualifiers.text, end) : null;
+  if (!start || !end) return null;
+
+  const combined = combineSpans(
+    { ...start, edtf: qualify(start.edtf, startQualifiers.approximate, startQualifiers.uncertain) },
+    { ...end, edtf: qualify(end.edtf, endQualifiers.approximate, endQualifiers.uncertain) }
+  );
+  if (!combined) return null;
+
+  return {
+    ...combined,
+    approximate: startQualifiers.approximate || endQualifiers.approximate,
+    uncertain: startQualifiers.uncertain || endQualifiers.uncertain,
+  };
+}
+
+/**
+ * Parse a date as it appears in captions, labels or page data into a structured value
+ * Handles full dates in many formats (with century repair and localized month names),
+ * timestamps with offsets, months, seasons, years, decades, ranges ("12-14 June 2023",
+ * "1985-87", ISO/EDTF intervals) and approximate or uncertain dates ("c. 1970s", "1985?")
+ * @returns null when the text is not a recognizable date
+ */
+export function parseDate(dateString: string | null | undefined): ParsedDate | null {
+  if (!dateString) return null;
+
+  const original = dateString.trim();
+
+  // Pre-clean the date string
+  const cleanDateString = translateMonthNames(original)
+    .replace(/\.$/, '')
+    .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!cleanDateString) return null;
+
+  const qualifiers = splitQualifiers(cleanDateString);
+  const point = parseQualifiedPoint(cleanDateString);
+  const span = point ?? parseRange(qualifiers.text);
+
+  if (!span) return null;
+
+  // Qualifiers around a whole range ("c. 1970-1975") apply to both ends
+  const interval = !point;
+  const approximate = span.approximate || (interval && qualifiers.approximate);
+  const uncertain = span.uncertain || (interval && qualifiers.uncertain);
+  let edtf = span.edtf;
+  if (!interval) {
+    edtf = qualify(span.edtf, approximate, uncertain);
+  } else if (qualifiers.approximate || qualifiers.uncertain) {
+    edtf = span.edtf.split('/').map(part => qualify(part.replace(/[~?%]$/, ''), approximate, uncertain)).join('/');
+  }
+
+  return {
+    original,
+    start: span.start,
+    end: span.end,
+    precision: span.precision,
+    interval,
+    approximate,
+    uncertain,
+    timezone: span.timezone,
+    iso: span.iso,
+    edtf,
+  };
+}
+
+/**
+ * Normalize a date to its EDTF form, which keeps partial dates, ranges and qualifiers
+ * (and is plain ISO 8601 for days and timestamps), so the value can be parsed again later
+ */
+export function normalizeDate(dateString: string | null | undefined): string | null {
+  return parseDate(dateString)?.edtf ?? null;
 }
@@ -0,0 +1,120 @@
+/**
+ * ZIP bundle export
+ * Packs a job's CSV and JSON exports, its extracted canvas images (with any archived
+ * original PNGs), optional XMP sidecars and a manifest of SHA-256 checksums into one archive
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Writable } from 'stream';
+import type { ExportManifest, ScrapedImage } from '../../shared/schema';
+import { buildXmpSidecar, xmpSidecarName } from './xmp-sidecar';
+import { ZipWriter } from './zip-writer';
+
+export interface ExportBundleOptions {
+  jobId: string;
+  url: string;
+  csv: string;
+  json: string;
+  images: ScrapedImage[];
+  // Add an .xmp sidecar next to each image
+  includeXmp: boolean;
+}
+
+// Image formats that are already compressed and are stored as-is
+const STORED_EXTENSIONS = new Set(['.jpg', '.jpeg', '.webp', '.png']);
+
+/**
+ * Files on disk for an image's extracted canvas: the JPEG/WebP itself plus the original PNG
+ * the canvas extractor archives next to small images ("<id>_canvas_full_original.png",
+ * or "_tiled_original.png" for tiled captures)
+ */
+export function canvasImageFiles(canvasImagePath: string): string[] {
+  const directory = path.dirname(canvasImagePath);
+  const baseName = path.basename(canvasImagePath, path.extname(canvasImagePath));
+  const candidates = [
+    canvasImagePath,
+    path.join(directory, `${baseName}_original.png`),
+    path.join(directory, `${baseName}_tiled_original.png`),
+  ];
+  return candidates.filter(file => fs.existsSync(file));
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Archive names for one image's files, unique across the bundle
+ * Two canvases can share a basename (same ID in different folders) and sanitized IDs can
+ * collide, so on a clash all of the image's files get its ID as a prefix (plus a counter
+ * if that clashes too), keeping each image paired with its sidecar
+ */
+export function uniqueEntryNames(usedNames: Set<string>, imageId: string, names: string[]): string[] {
+  const safeImageId = imageId.replace(/[^a-zA-Z0-9._-]/g, '_');
+  let candidates = names;
+  for (let attempt = 1; candidates.some(name => usedNames.has(name)); attempt++) {
+    const prefix = attempt === 1 ? safeImageId : `${safeImageId}-${attempt}`;
+    candidates = names.map(name => `${prefix}_${name}`);
+  }
+  candidates.forEach(name => usedNames.add(name));
+  return candidates;
+}
+
+/**
+ * Stream a job's export bundle as a ZIP archive and end the output
+ * Layout: the CSV and JSON exports at the root, images and sidecars under images/,
+ * and manifest.json last with the checksum of every other entry
+ * @returns the manifest written to the archive
+ */
+export async function writeExportBundle(output: Writable, options: ExportBundleOptions): Promise<ExportManifest> {
+  const zip = new ZipWriter(output);
+  const manifest: ExportManifest = {
+    jobId: options.jobId,
+    url: options.url,
+    createdAt: new Date().toISOString(),
+    totalImages: options.images.length,
+    files: [],
+    missingImages: [],
+  };
+  const usedImageNames = new Set<string>();
+
+  const add = async (name: string, data: Buffer | string, store = false) => {
+    await zip.addFile(name, data, { store });
+    manifest.files.push({ path: name, size: Buffer.byteLength(data), sha256: sha256(data) });
+  };
+
+  await add(`smartframe-export-${options.jobId}.csv`, options.csv);
+  await add(`smartframe-export-${options.jobId}.json`, options.json);
+
+  for (const image of options.images) {
+    const files = image.canvasImagePath ? canvasImageFiles(image.canvasImagePath) : [];
+    if (image.canvasImagePath && !files.includes(image.canvasImagePath)) {
+      // Extracted before the output folder was cleaned up or moved
+      manifest.missingImages.push(image.imageId);
+    }
+
+    const names = uniqueEntryNames(usedImageNames, image.imageId, [
+      ...files.map(file => path.basename(file)),
+      ...(options.includeXmp ? [xmpSidecarName(image)] : []),
+    ]);
+
+    // One image at a time, so the bundle never holds more than a single file in memory
+    for (const [index, file] of files.entries()) {
+      // Stop before reading from disk once the client has gone
+      if (output.destroyed) {
+        throw new Error('ZIP output closed before the archive was finished');
+      }
+      await add(`images/${names[index]}`, await fs.promises.readFile(file), STORED_EXTENSIONS.has(path.extname(file).toLowerCase()));
+    }
+
+    if (options.includeXmp) {
+      await add(`images/${names[files.length]}`, buildXmpSidecar(image));
+    }
+  }
+
+  await zip.addFile('manifest.json', JSON.stringify(manifest, null, 2));
+  await zip.finish();
+  return manifest;
+}
@@ -0,0 +1,26 @@
+/**
+ * Common given names (lowercase, without diacritics), used to recognize "Last, First" names
+ * Not exhaustive on purpose: a comma between two words that are not known to be a surname and
+ * a given name ("Adele, Drake") is read as a list separator
+ */
+export const COMMON_GIVEN_NAMES = new Set([
+  'aaron', 'adam', 'adrian', 'aidan', 'alan', 'albert', 'alex', 'alexander', 'alexandra', 'alice',
+  'alicia', 'alison', 'amanda', 'amy', 'andrea', 'andrew', 'andy', 'angela', 'angelina', 'anna',
+  'anne', 'anthony', 'antonio', 'ashley', 'barbara', 'ben', 'benjamin', 'bill', 'bob', 'brad',
+  'brian', 'bruce', 'carl', 'carlos', 'caroline', 'catherine', 'charles', 'charlie', 'charlotte', 'chloe',
+  'chris', 'christian', 'christina', 'christine', 'christopher', 'claire', 'claudia', 'colin', 'daniel', 'danny',
+  'david', 'dean', 'declan', 'diana', 'diane', 'dominic', 'donald', 'dylan', 'ed', 'eddie',
+  'edward', 'elizabeth', 'ella', 'ellen', 'emily', 'emma', 'eric', 'eva', 'frank', 'gary',
+  'george', 'gemma', 'grace', 'hannah', 'harry', 'heather', 'helen', 'henry', 'hugh', 'ian',
+  'isabel', 'isabella', 'jack', 'jacob', 'james', 'jamie', 'jane', 'janet', 'jason', 'jeff',
+  'jennifer', 'jenny', 'jessica', 'jim', 'joan', 'joe', 'john', 'jonathan', 'jordan', 'jose',
+  'joseph', 'josh', 'joshua', 'julia', 'julian', 'julie', 'justin', 'karen', 'kate', 'katherine',
+  'kathryn', 'katie', 'keith', 'kelly', 'kevin', 'kim', 'laura', 'lauren', 'lee', 'leo',
+  'liam', 'lily', 'linda', 'lisa', 'louis', 'louise', 'lucy', 'luke', 'margaret', 'maria',
+  'marie', 'mark', 'martin', 'mary', 'matt', 'matthew', 'megan', 'michael', 'michelle', 'mike',
+  'natalie', 'nicholas', 'nick', 'nicola', 'nicole', 'niall', 'noah', 'oliver', 'olivia', 'patricia',
+  'patrick', 'paul', 'peter', 'philip', 'rachel', 'rebecca', 'richard', 'rob', 'robert', 'robin',
+  'ruth', 'ryan', 'sam', 'samantha', 'samuel', 'sarah', 'scott', 'sean', 'sophie', 'stephen',
+  'steve', 'steven', 'susan', 'thomas', 'tim', 'timothy', 'tom', 'tony', 'victoria', 'william',
+  'zayn', 'zoe',
+]);
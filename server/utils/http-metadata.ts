@@ -0,0 +1,216 @@
+/**
+ * HTTP metadata extraction - reads SmartFrame image pages without a browser
+ * Image detail pages are server-rendered by Next.js, so the __NEXT_DATA__ payload and the
+ * label/value list are already present in the HTML returned by a plain GET request
+ */
+
+import type { SmartframeMetadata } from '../types';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Provider names shown as headings that are not the image title
+const PROVIDER_HEADING = /^(WENN|Getty|AFP|Reuters|Shutterstock)$/i;
+
+// Caption lines that carry structured metadata, e.g. "Featuring: John Smith"
+const CAPTION_LABEL_LINE = /^(Featuring|Where|When|Credit|Photographer|Photo\s*Credit)\s*[:–—-]\s*(.+)$/i;
+
+export interface ImagePageResponse {
+  status: number;
+  html: string | null;
+}
+
+/**
+ * Fetch an image page with the same browser identity the Puppeteer path uses
+ * Non-2xx responses resolve with html = null; network failures and timeouts reject
+ */
+export async function fetchImagePage(url: string, timeoutMs: number = 15000): Promise<ImagePageResponse> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml',
+      'Accept-Language': 'en-US,en;q=0.9',
+    },
+    redirect: 'follow',
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    return { status: response.status, html: null };
+  }
+
+  return { status: response.status, html: await response.text() };
+}
+
+// Numeric references beyond the Unicode range are left as written
+function decodeCodePoint(entity: string, codePoint: number): string {
+  return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (entity, hex) => decodeCodePoint(entity, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (entity, dec) => decodeCodePoint(entity, parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text content of an HTML fragment (line breaks kept so caption lines can be parsed)
+ */
+function textContent(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+function matchAll(html: string, pattern: RegExp): string[] {
+  return Array.from(html.matchAll(pattern), match => match[1]);
+}
+
+/**
+ * Map the __NEXT_DATA__ payload onto the nextData shape parseMetadata expects
+ * (same candidate paths as the in-page extraction)
+ */
+export function extractNextData(html: string): Record<string, unknown> | null {
+  const script = html.match(/<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i);
+  if (!script) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(script[1]);
+  } catch {
+    return null;
+  }
+
+  const possiblePaths = [
+    parsed?.props?.pageProps?.image?.metadata,
+    parsed?.props?.pageProps?.metadata,
+    parsed?.props?.pageProps?.image,
+    parsed?.props?.image?.metadata,
+    parsed?.pageProps?.image?.metadata,
+  ];
+
+  const imageMetadata = possiblePaths.find(candidate => candidate && typeof candidate === 'object');
+  if (!imageMetadata) return null;
+
+  return {
+    photographer: imageMetadata.photographer || imageMetadata.credit || imageMetadata.byline || imageMetadata.author,
+    dimensions: imageMetadata.dimensions || imageMetadata.imageSize || imageMetadata.size,
+    fileSize: imageMetadata.fileSize || imageMetadata.file_size,
+    country: imageMetadata.country || imageMetadata.countryCode,
+    city: imageMetadata.city || imageMetadata.location,
+    date: imageMetadata.date || imageMetadata.dateCreated || imageMetadata.dateTaken || imageMetadata.created,
+    eventTitle: imageMetadata.eventTitle || imageMetadata.event || imageMetadata.matchEvent,
+    title: imageMetadata.title || imageMetadata.headline || imageMetadata.name,
+    caption: imageMetadata.caption || imageMetadata.description,
+    featuring: imageMetadata.featuring || imageMetadata.people || imageMetadata.subject,
+    people: imageMetadata.people || imageMetadata.featuring,
+    tags: imageMetadata.tags || imageMetadata.keywords || imageMetadata.categories || [],
+    copyright: imageMetadata.copyright || imageMetadata.copyrightNotice,
+    credit: imageMetadata.credit || imageMetadata.photographer,
+    comments: imageMetadata.comments || imageMetadata.notes,
+    authors: imageMetadata.authors || imageMetadata.author || imageMetadata.photographer,
+  };
+}
+
+/**
+ * Extract "<li><strong>Label:</strong> value</li>" pairs (button values win, as in the DOM path)
+ */
+export function extractLabelValues(html: string): Array<{ label: string; value: string }> {
+  const labelValues: Array<{ label: string; value: string }> = [];
+
+  for (const item of matchAll(html, /<li\b[^>]*>([\s\S]*?)<\/li>/gi)) {
+    const strong = item.match(/<strong\b[^>]*>([\s\S]*?)<\/strong>([\s\S]*)/i);
+    if (!strong) continue;
+
+    const label = textContent(strong[1]).replace(':', '').trim();
+    if (!label || labelValues.some(lv => lv.label.toLowerCase() === label.toLowerCase())) continue;
+
+    const button = item.match(/<button\b[^>]*>([\s\S]*?)<\/button>/i);
+    const value = textContent(button ? button[1] : strong[2]);
+
+    if (value) {
+      labelValues.push({ label, value });
+    }
+  }
+
+  return labelValues;
+}
+
+function extractCaption(html: string): string | null {
+  for (const paragraph of matchAll(html, /<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+    const text = textContent(paragraph);
+    if (text.length <= 20) continue;
+
+    const hasMetadata = /featuring|where|when|credit|photographer/i.test(text) ||
+      /\d{2}\s*[A-Za-z]{3}\s*\d{4}/.test(text) ||
+      /\d{2}\.\d{2}\.\d{2}/.test(text) ||
+      text.includes(' - ');
+
+    if (hasMetadata) return text;
+  }
+  return null;
+}
+
+function extractKeywords(html: string): string[] {
+  const keywords: string[] = [];
+  const sections = html.split(/(?=<h2\b)/i).filter(section =>
+    /^<h2\b[^>]*>[\s\S]*?keyword[\s\S]*?<\/h2>/i.test(section)
+  );
+
+  for (const section of sections) {
+    for (const button of matchAll(section, /<button\b[^>]*type=["']button["'][^>]*>([\s\S]*?)<\/button>/gi)) {
+      const keyword = textContent(button);
+      if (keyword && !keyword.includes('SmartFrame') && !keyword.includes('View all')) {
+        keywords.push(keyword);
+      }
+    }
+  }
+  return keywords;
+}
+
+/**
+ * Parse a server-rendered image page into the raw shape produced by the browser extraction
+ */
+export function parseImagePageHtml(html: string): SmartframeMetadata {
+  const labelValues = extractLabelValues(html);
+
+  const heading = matchAll(html, /<h1\b[^>]*>([\s\S]*?)<\/h1>/gi)
+    .map(textContent)
+    .find(text => text && !PROVIDER_HEADING.test(text));
+  const title = heading || null;
+
+  const caption = extractCaption(html);
+  if (caption) {
+    for (const line of caption.split('\n').map(l => l.trim()).filter(Boolean)) {
+      const labelMatch = line.match(CAPTION_LABEL_LINE);
+      if (labelMatch && !labelValues.some(lv => lv.label.toLowerCase() === labelMatch[1].trim().toLowerCase())) {
+        labelValues.push({ label: labelMatch[1].trim(), value: labelMatch[2].trim() });
+      }
+    }
+  }
+
+  const partner = html.match(/SmartFrame Content Partner\s*<\/h6>[\s\S]*?<h2\b[^>]*>([\s\S]*?)<\/h2>/i);
+  const contentPartner = partner ? textContent(partner[1]) || null : null;
+
+  return {
+    title,
+    caption,
+    labelValues,
+    nextData: extractNextData(html),
+    contentPartner,
+    keywords: extractKeywords(html),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Job control registry - cooperative cancellation and pausing of running scrape jobs
+ * The scraper checks the control between images, so a stop request takes effect
+ * once the image currently being processed has finished
+ */
+
+import type { ScrapeConfig, JobLinkStatus } from '../../shared/schema';
+
+export type JobControlRequest = 'none' | 'pause' | 'cancel';
+
+export type ImageLink = { url: string; imageId: string; hash: string };
+
+/**
+ * A discovered link as persisted in the scrape_job_links table
+ */
+export interface StoredJobLink extends ImageLink {
+  thumbnailUrl: string | null;
+  position: number;
+  status: JobLinkStatus;
+}
+
+/**
+ * Snapshot of a paused job - everything needed to continue processing
+ * from the next unprocessed link without repeating discovery
+ */
+export interface PausedJobState {
+  url: string;
+  config: ScrapeConfig;
+  remainingLinks: ImageLink[];
+  thumbnails: Map<string, string>;
+  totalLinks: number;
+  attemptedCount: number;
+  scrapedCount: number;
+}
+
+export class JobControl {
+  private request: JobControlRequest = 'none';
+
+  requestPause(): void {
+    // Cancellation always wins over a pause request
+    if (this.request !== 'cancel') {
+      this.request = 'pause';
+    }
+  }
+
+  requestCancel(): void {
+    this.request = 'cancel';
+  }
+
+  getRequest(): JobControlRequest {
+    return this.request;
+  }
+
+  isStopRequested(): boolean {
+    return this.request !== 'none';
+  }
+}
+
+class JobControlRegistry {
+  private controls = new Map<string, JobControl>();
+  private pausedJobs = new Map<string, PausedJobState>();
+
+  /**
+   * Register a control for a job that is about to start running
+   */
+  register(jobId: string): JobControl {
+    const control = new JobControl();
+    this.controls.set(jobId, control);
+    return control;
+  }
+
+  get(jobId: string): JobControl | undefined {
+    return this.controls.get(jobId);
+  }
+
+  release(jobId: string): void {
+    this.controls.delete(jobId);
+  }
+
+  /**
+   * Store the state of a job that stopped because of a pause request
+   */
+  savePaused(jobId: string, state: PausedJobState): void {
+    this.pausedJobs.set(jobId, state);
+  }
+
+  getPaused(jobId: string): PausedJobState | undefined {
+    return this.pausedJobs.get(jobId);
+  }
+
+  /**
+   * Remove and return the paused state of a job (used on resume and cancel)
+   */
+  takePaused(jobId: string): PausedJobState | undefined {
+    const state = this.pausedJobs.get(jobId);
+    this.pausedJobs.delete(jobId);
+    return state;
+  }
+}
+
+export const jobControlRegistry = new JobControlRegistry();
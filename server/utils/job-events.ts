@@ -0,0 +1,52 @@
+/**
+ * Job event bus - fan-out of typed job events to SSE subscribers
+ * The scraper emits events as a job progresses; each open
+ * GET /api/scrape/job/:jobId/events connection subscribes to one job
+ */
+
+import type { JobEvent } from '../../shared/schema';
+
+export type JobEventListener = (event: JobEvent) => void;
+
+class JobEventBus {
+  private listeners = new Map<string, Set<JobEventListener>>();
+
+  /**
+   * Subscribe to the events of one job
+   * @returns function that removes the subscription
+   */
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    let jobListeners = this.listeners.get(jobId);
+    if (!jobListeners) {
+      jobListeners = new Set();
+      this.listeners.set(jobId, jobListeners);
+    }
+    jobListeners.add(listener);
+
+    return () => {
+      jobListeners!.delete(listener);
+      if (jobListeners!.size === 0) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+
+  emit(event: JobEvent): void {
+    const jobListeners = this.listeners.get(event.jobId);
+    if (!jobListeners) return;
+
+    for (const listener of Array.from(jobListeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`⚠️  Job event listener failed for ${event.jobId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  getSubscriberCount(jobId: string): number {
+    return this.listeners.get(jobId)?.size ?? 0;
+  }
+}
+
+export const jobEventBus = new JobEventBus();
@@ -0,0 +1,149 @@
+/**
+ * Declarative mapping of SmartFrame metadata labels to image fields
+ * Rules are loaded from label-mappings.json (see loadLabelMappingRules) and applied
+ * to the label/value pairs read from an image page
+ */
+
+import { parseDate, type ParsedDate } from './date-normalization';
+import type {
+  CleanMetadataField,
+  LabelMappingRule,
+  LabelValue,
+  ScrapedImage,
+  StructuredMetadataField,
+  UnmappedLabel,
+} from '../../shared/schema';
+
+export type LabelMappedFields = Partial<Pick<ScrapedImage, CleanMetadataField | StructuredMetadataField | 'dateTakenEdtf'>>;
+
+export interface CompiledLabelMappingRule {
+  rule: LabelMappingRule;
+  aliases: Set<string>;
+  pattern: RegExp | null;
+  valuePattern: RegExp | null;
+}
+
+/**
+ * Prepare rules for matching, ordered by precedence (highest first, ties keep file order)
+ */
+export function compileLabelMappingRules(rules: LabelMappingRule[]): CompiledLabelMappingRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.precedence - a.rule.precedence || a.index - b.index)
+    .map(({ rule }) => ({
+      rule,
+      aliases: new Set(rule.aliases.map(alias => alias.trim().toLowerCase())),
+      pattern: rule.pattern ? new RegExp(rule.pattern, 'i') : null,
+      valuePattern: rule.valuePattern ? new RegExp(rule.valuePattern, 'i') : null,
+    }));
+}
+
+function matchesLabel(compiled: CompiledLabelMappingRule, label: string): boolean {
+  const normalized = label.trim().toLowerCase();
+  return compiled.aliases.has(normalized) || (compiled.pattern?.test(label.trim()) ?? false);
+}
+
+// "City, Country" or just "Country" - anything else is left to the location field
+function splitLocation(value: string): { city: string | null; country: string | null } {
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length === 2) return { city: parts[0], country: parts[1] };
+  if (parts.length === 1) return { city: null, country: parts[0] };
+  return { city: null, country: null };
+}
+
+function transformValue(value: string, transform: LabelMappingRule['transform'], parsedDate: ParsedDate | null): string | null {
+  switch (transform) {
+    case 'date':
+      return parsedDate?.iso || value;
+    case 'location-city':
+      return splitLocation(value).city;
+    case 'location-country':
+      return splitLocation(value).country;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Write label values into the target fields
+ * Values already present on the target count as earlier values (first-wins keeps them,
+ * append adds to them). Labels must already be cleaned; empty values are skipped.
+ * @returns the labels no rule matched, in page order
+ */
+export function applyLabelMappings(
+  target: LabelMappedFields,
+  labelValues: LabelValue[],
+  rules: CompiledLabelMappingRule[]
+): string[] {
+  const unmapped: string[] = [];
+  const matches: Array<{ compiled: CompiledLabelMappingRule; value: string }> = [];
+
+  for (const { label, value } of labelValues) {
+    if (!value) continue;
+
+    const matching = rules.filter(compiled => matchesLabel(compiled, label));
+    if (matching.length === 0) {
+      unmapped.push(label);
+      continue;
+    }
+    for (const compiled of matching) {
+      matches.push({ compiled, value });
+    }
+  }
+
+  // Apply in precedence order so higher-precedence rules win first-wins fields
+  matches.sort((a, b) => rules.indexOf(a.compiled) - rules.indexOf(b.compiled));
+
+  for (const { compiled, value } of matches) {
+    const { rule, valuePattern } = compiled;
+    if (valuePattern && !valuePattern.test(value)) continue;
+
+    const parsedDate = rule.transform === 'date' ? parseDate(value) : null;
+    const transformed = transformValue(value, rule.transform, parsedDate);
+    if (!transformed) continue;
+
+    for (const field of rule.fields) {
+      const existing = target[field];
+      if (!existing) {
+        target[field] = transformed;
+        // dateTaken holds the ISO form, the EDTF form keeps seasons, decades and qualifiers
+        if (field === 'dateTaken' && rule.transform === 'date') {
+          target.dateTakenEdtf = parsedDate?.edtf ?? null;
+        }
+      } else if (rule.mode === 'append') {
+        const parts = existing.split(rule.separator).map(part => part.trim());
+        if (!parts.includes(transformed)) {
+          target[field] = `${existing}${rule.separator}${transformed}`;
+        }
+      }
+    }
+  }
+
+  return unmapped;
+}
+
+/**
+ * Count the labels that no rule maps across a set of images (most frequent first)
+ */
+export function findUnmappedLabels(
+  imagesLabelValues: LabelValue[][],
+  rules: CompiledLabelMappingRule[]
+): UnmappedLabel[] {
+  const byLabel = new Map<string, UnmappedLabel>();
+
+  for (const labelValues of imagesLabelValues) {
+    for (const { label, value } of labelValues) {
+      if (!value || rules.some(compiled => matchesLabel(compiled, label))) continue;
+
+      const key = label.trim().toLowerCase();
+      const entry = byLabel.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        byLabel.set(key, { label: label.trim(), count: 1, sampleValue: value });
+      }
+    }
+  }
+
+  return Array.from(byLabel.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,175 @@
+/**
+ * Field-level diffs between two scraped versions of an image
+ * Compares the seven clean metadata fields plus the raw SmartFrame label/value pairs,
+ * and separately the raw page data (to tell SmartFrame edits from normalizer changes),
+ * the structured location/event/credit fields, the people list, the EDTF date and the parsed rights
+ */
+
+import type { CleanMetadataField, LabelValue, MetadataFieldChange, ScrapedImage, StructuredMetadataField } from '../../shared/schema';
+
+export type MetadataSnapshot = Pick<ScrapedImage, CleanMetadataField> & {
+  labelValues: LabelValue[] | null;
+};
+
+// Page data as SmartFrame published it (null when the version was not scraped from a page)
+export type RawMetadataSnapshot = {
+  labelValues: LabelValue[] | null;
+  caption: string | null;
+};
+
+export const CLEAN_METADATA_FIELDS: CleanMetadataField[] = [
+  'titleField',
+  'subjectField',
+  'tags',
+  'comments',
+  'authors',
+  'dateTaken',
+  'copyright',
+];
+
+export const STRUCTURED_METADATA_FIELDS: StructuredMetadataField[] = [
+  'city',
+  'country',
+  'location',
+  'event',
+  'contentPartner',
+  'featuring',
+];
+
+// Empty strings and null both mean "no value"
+function normalizeValue(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// Label order on the page is not meaningful, so compare label/value pairs as a sorted list
+function normalizeLabelValues(labelValues: LabelValue[] | null): string | null {
+  if (!labelValues || labelValues.length === 0) return null;
+  const pairs = labelValues
+    .map(({ label, value }) => `${label.trim().toLowerCase()}\u0000${value.trim()}`)
+    .sort();
+  return JSON.stringify(pairs);
+}
+
+/**
+ * List the fields that differ between two snapshots
+ */
+export function diffMetadataSnapshots(previous: MetadataSnapshot, current: MetadataSnapshot): MetadataFieldChange[] {
+  const changes: MetadataFieldChange[] = [];
+
+  for (const field of CLEAN_METADATA_FIELDS) {
+    const before = normalizeValue(previous[field]);
+    const after = normalizeValue(current[field]);
+    if (before !== after) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  // Label/value pairs are only compared when both versions captured them
+  // (catalog reuse and older revisions have no raw pairs)
+  if (previous.labelValues && current.labelValues &&
+      normalizeLabelValues(previous.labelValues) !== normalizeLabelValues(current.labelValues)) {
+    changes.push({
+      field: 'labelValues',
+      before: JSON.stringify(previous.labelValues),
+      after: JSON.stringify(current.labelValues),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * List the page data SmartFrame changed between two scrapes: label/value pairs and caption
+ * Clean fields are left out, since they also change when the normalizer does
+ */
+export function diffRawMetadata(previous: RawMetadataSnapshot, current: RawMetadataSnapshot): MetadataFieldChange[] {
+  const changes: MetadataFieldChange[] = [];
+
+  if (normalizeLabelValues(previous.labelValues) !== normalizeLabelValues(current.labelValues)) {
+    changes.push({
+      field: 'labelValues',
+      before: previous.labelValues ? JSON.stringify(previous.labelValues) : null,
+      after: current.labelValues ? JSON.stringify(current.labelValues) : null,
+    });
+  }
+
+  const before = normalizeValue(previous.caption);
+  const after = normalizeValue(current.caption);
+  if (before !== after) {
+    changes.push({ field: 'caption', before, after });
+  }
+
+  return changes;
+}
+
+/**
+ * List the structured fields that differ between two versions of an image
+ */
+export function diffStructuredFields(
+  previous: Pick<ScrapedImage, StructuredMetadataField>,
+  current: Pick<ScrapedImage, StructuredMetadataField>
+): MetadataFieldChange[] {
+  const changes: MetadataFieldChange[] = [];
+
+  for (const field of STRUCTURED_METADATA_FIELDS) {
+    const before = normalizeValue(previous[field]);
+    const after = normalizeValue(current[field]);
+    if (before !== after) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the people lists of two versions of an image (order matters, it follows the caption)
+ */
+export function diffPeople(
+  previous: Pick<ScrapedImage, 'people'>,
+  current: Pick<ScrapedImage, 'people'>
+): MetadataFieldChange[] {
+  const before = previous.people && previous.people.length > 0 ? JSON.stringify(previous.people) : null;
+  const after = current.people && current.people.length > 0 ? JSON.stringify(current.people) : null;
+  return before !== after ? [{ field: 'people', before, after }] : [];
+}
+
+/**
+ * Compare the EDTF dates of two versions of an image (dateTaken itself is a clean field)
+ */
+export function diffDateTakenEdtf(
+  previous: Pick<ScrapedImage, 'dateTakenEdtf'>,
+  current: Pick<ScrapedImage, 'dateTakenEdtf'>
+): MetadataFieldChange[] {
+  const before = normalizeValue(previous.dateTakenEdtf);
+  const after = normalizeValue(current.dateTakenEdtf);
+  return before !== after ? [{ field: 'dateTakenEdtf', before, after }] : [];
+}
+
+/**
+ * Compare the parsed rights of two versions of an image
+ */
+export function diffRights(
+  previous: Pick<ScrapedImage, 'rights'>,
+  current: Pick<ScrapedImage, 'rights'>
+): MetadataFieldChange[] {
+  const before = previous.rights ? JSON.stringify(previous.rights) : null;
+  const after = current.rights ? JSON.stringify(current.rights) : null;
+  return before !== after ? [{ field: 'rights', before, after }] : [];
+}
+
+/**
+ * Every field normalization produces that differs between two versions of an image:
+ * the clean fields (label values are page data, not normalized), structured fields,
+ * people, the EDTF date and rights
+ */
+export function diffNormalizedFields(previous: ScrapedImage, current: ScrapedImage): MetadataFieldChange[] {
+  return [
+    ...diffMetadataSnapshots({ ...previous, labelValues: null }, { ...current, labelValues: null }),
+    ...diffStructuredFields(previous, current),
+    ...diffPeople(previous, current),
+    ...diffDateTakenEdtf(previous, current),
+    ...diffRights(previous, current),
+  ];
+}
@@ -1,4 +1,6 @@
-import { parse, format, isValid } from "date-fns";
+import { parseDate, registerLocaleMonthNames, wordRegex } from "./date-normalization";
+import { applyTagTaxonomy, EMPTY_TAG_TAXONOMY, splitTags, type CompiledTagTaxonomy } from "./tag-taxonomy";
+import { loadLocalePacks } from "./config-loader";
 
 /**
  * Interface for locale-specific caption patterns
@@ -8,38 +10,48 @@ export interface CaptionLocale {
   where: string[];
   when: string[];
   credit: string[];
+  // Month names (with declined forms) by month, January first - used by parseDate
+  months?: string[][];
+  // Frequent short words of the language - used by detectLocale alongside the labels
+  stopwords?: string[];
 }
 
+// Built-in English patterns, the fallback locale and the one used when no pack for 'en' is registered
+const ENGLISH_LOCALE: CaptionLocale = {
+  featuring: ['Featuring', 'Featured', 'Pictured', 'Featuring:', 'Featured:', 'Pictured:'],
+  where: ['Where', 'Location', 'Venue', 'Where:', 'Location:', 'Venue:'],
+  when: ['When', 'Date', 'Taken', 'When:', 'Date:', 'Taken:'],
+  credit: ['Credit', 'Photo by', 'Photographer', 'Credit:', 'Photo by:', 'Photographer:', 'Image by', 'Image by:'],
+  stopwords: ['the', 'and', 'with', 'during', 'at', 'of', 'attends', 'arrives', 'his', 'her'],
+};
+
+// Registered locale patterns, keyed by locale code (see registerLocalePacks)
+let localePatterns: Record<string, CaptionLocale> = { en: ENGLISH_LOCALE };
+
 /**
- * Locale patterns for multi-paragraph caption parsing
- * Supports English, Spanish, French, and German
+ * Locale patterns for multi-paragraph caption parsing, keyed by locale code
+ * Holds the packs in locales/ from module load on; English is always present
  */
-export const LOCALE_PATTERNS: Record<string, CaptionLocale> = {
-  en: {
-    featuring: ['Featuring', 'Featured', 'Pictured', 'Featuring:', 'Featured:', 'Pictured:'],
-    where: ['Where', 'Location', 'Venue', 'Where:', 'Location:', 'Venue:'],
-    when: ['When', 'Date', 'Taken', 'When:', 'Date:', 'Taken:'],
-    credit: ['Credit', 'Photo by', 'Photographer', 'Credit:', 'Photo by:', 'Photographer:', 'Image by', 'Image by:'],
-  },
-  es: {
-    featuring: ['Presentando', 'Protagonista', 'En la foto', 'Presentando:', 'Protagonista:', 'En la foto:'],
-    where: ['Dónde', 'Donde', 'Ubicación', 'Lugar', 'Dónde:', 'Donde:', 'Ubicación:', 'Lugar:'],
-    when: ['Cuándo', 'Cuando', 'Fecha', 'Tomada', 'Cuándo:', 'Cuando:', 'Fecha:', 'Tomada:'],
-    credit: ['Crédito', 'Credito', 'Foto por', 'Fotógrafo', 'Fotografo', 'Crédito:', 'Credito:', 'Foto por:', 'Fotógrafo:', 'Fotografo:'],
-  },
-  fr: {
-    featuring: ['Mettant en vedette', 'Vedette', 'Sur la photo', 'Présentant', 'Mettant en vedette:', 'Vedette:', 'Sur la photo:', 'Présentant:'],
-    where: ['Où', 'Ou', 'Emplacement', 'Lieu', 'Où:', 'Ou:', 'Emplacement:', 'Lieu:'],
-    when: ['Quand', 'Date', 'Prise', 'Quand:', 'Date:', 'Prise:'],
-    credit: ['Crédit', 'Credit', 'Photo par', 'Photographe', 'Crédit:', 'Credit:', 'Photo par:', 'Photographe:'],
-  },
-  de: {
-    featuring: ['Mit', 'Abgebildet', 'Vorgestellt', 'Mit:', 'Abgebildet:', 'Vorgestellt:'],
-    where: ['Wo', 'Ort', 'Standort', 'Wo:', 'Ort:', 'Standort:'],
-    when: ['Wann', 'Datum', 'Aufgenommen', 'Wann:', 'Datum:', 'Aufgenommen:'],
-    credit: ['Kredit', 'Foto von', 'Fotograf', 'Kredit:', 'Foto von:', 'Fotograf:'],
-  },
-};
+export function getLocalePatterns(): Readonly<Record<string, CaptionLocale>> {
+  return localePatterns;
+}
+
+/**
+ * Replace the registered locale packs
+ * Keeps the built-in English patterns unless a pack for 'en' is given
+ */
+export function registerLocalePacks(packs: Record<string, CaptionLocale>): void {
+  localePatterns = { en: ENGLISH_LOCALE, ...packs };
+  registerLocaleMonthNames(Object.values(localePatterns).flatMap(locale => locale.months ? [locale.months] : []));
+}
+
+// The bundled packs, until the scraper registers the ones its configuration selects
+registerLocalePacks(Object.fromEntries(loadLocalePacks(null).map(({ code, name, ...patterns }) => [code, patterns])));
+
+// Escape a literal for use in a RegExp
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
 /**
  * Interface for parsed multi-paragraph caption
@@ -161,58 +173,20 @@ export function decodeHTMLEntities(text: string | null): string | null {
 }
 
 /**
- * Normalizes and repairs dates, especially fixing truncated years like 0012-08-25 → 2012-08-25
+ * Normalizes a date to ISO 8601 (see parseDate for the accepted forms)
+ * Text that does not parse but contains a year is kept as written
+ * @param parsed - parseDate result when the caller already has it
  */
-export function normalizeDateTaken(dateString: string | null): string | null {
+export function normalizeDateTaken(dateString: string | null, parsed = parseDate(dateString)): string | null {
   if (!dateString) return null;
-  
-  let cleaned = dateString.trim();
-  
-  // Fix legacy year truncation: 0012-08-25 → 2012-08-25
-  const truncatedYearMatch = cleaned.match(/^00(\d{2})-(\d{2})-(\d{2})$/);
-  if (truncatedYearMatch) {
-    const [, year, month, day] = truncatedYearMatch;
-    cleaned = `20${year}-${month}-${day}`;
-  }
-  
-  // Try parsing various date formats
-  const formats = [
-    'yyyy-MM-dd',           // ISO: 2012-08-25
-    'dd MMM yyyy',          // 25 Aug 2012
-    'dd.MM.yy',             // 25.08.12
-    'dd/MM/yyyy',           // 25/08/2012
-    'MM/dd/yyyy',           // 08/25/2012
-    'yyyy/MM/dd',           // 2012/08/25
-    'd MMMM yyyy',          // 25 August 2012
-    'MMMM d, yyyy',         // August 25, 2012
-  ];
-  
-  for (const formatStr of formats) {
-    try {
-      const parsed = parse(cleaned, formatStr, new Date());
-      if (isValid(parsed)) {
-        // Return in ISO 8601 format
-        return format(parsed, 'yyyy-MM-dd');
-      }
-    } catch {
-      // Try next format
-    }
-  }
-  
-  // If already in ISO format, validate and return
-  if (/^\d{4}-\d{2}-\d{2}$/.test(cleaned)) {
-    const parsed = new Date(cleaned);
-    if (isValid(parsed)) {
-      return cleaned;
-    }
-  }
-  
+  if (parsed) return parsed.iso;
+
+  // Log unresolvable dates for investigation
+  console.log(`⚠️ Unresolvable date format: "${dateString}"`);
+
   // Return cleaned string if parsing failed but looks like a date
-  if (/\d{4}/.test(cleaned)) {
-    return cleaned;
-  }
-  
-  return null;
+  const cleaned = dateString.trim();
+  return /\d{4}/.test(cleaned) ? cleaned : null;
 }
 
 /**
@@ -240,25 +214,29 @@ export function cleanText(text: string | null): string | null {
 
 /**
  * Detects the locale of a caption based on pattern matches
- * Returns the locale with the most pattern matches
+ * Labels followed by a colon ("Dove:", "Waar:") score 2, stopwords score 1 per occurrence;
+ * returns the locale with the highest score
  */
 export function detectLocale(text: string): string {
   if (!text) return 'en';
   
-  const lowerText = text.toLowerCase();
   const matchCounts: Record<string, number> = {};
   
-  // Count pattern matches for each locale
-  for (const [locale, patterns] of Object.entries(LOCALE_PATTERNS)) {
+  for (const [locale, patterns] of Object.entries(localePatterns)) {
     let count = 0;
     
-    // Check all pattern types for this locale
-    for (const patternList of Object.values(patterns)) {
-      for (const pattern of patternList) {
-        if (lowerText.includes(pattern.toLowerCase())) {
-          count++;
-        }
-      }
+    // Labels only count as whole words followed by a colon, so "Com" doesn't match ".com"
+    const labels = new Set(
+      [...patterns.featuring, ...patterns.where, ...patterns.when, ...patterns.credit]
+        .map(pattern => pattern.replace(/:$/, ''))
+    );
+    for (const label of labels) {
+      const regex = new RegExp(`(?<![\\p{L}\\d])${escapeRegex(label)}\\s*:`, 'giu');
+      count += (text.match(regex)?.length ?? 0) * 2;
+    }
+    
+    for (const stopword of patterns.stopwords ?? []) {
+      count += text.match(wordRegex(stopword))?.length ?? 0;
     }
     
     matchCounts[locale] = count;
@@ -280,7 +258,7 @@ export function detectLocale(text: string): string {
 
 /**
  * Parses multi-paragraph captions to extract structured metadata
- * Supports English, Spanish, French, and German
+ * Supports every registered locale (see getLocalePatterns)
  */
 export function parseMultiParagraphCaption(rawText: string, locale?: string): ParsedCaption {
   // Initialize result with empty values
@@ -297,7 +275,7 @@ export function parseMultiParagraphCaption(rawText: string, locale?: string): Pa
   
   // Detect locale if not provided
   const effectiveLocale = locale || detectLocale(rawText);
-  const patterns = LOCALE_PATTERNS[effectiveLocale] || LOCALE_PATTERNS.en;
+  const patterns = localePatterns[effectiveLocale] || localePatterns.en;
   
   // Split by double newlines or <br><br> tags to get paragraphs
   const paragraphs = rawText
@@ -322,8 +300,9 @@ export function parseMultiParagraphCaption(rawText: string, locale?: string): Pa
     const normalizedPattern = pattern.replace(/:$/, '');
     // Escape special regex characters
     const escapedPattern = normalizedPattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    // Create regex that matches the pattern with optional colon and whitespace
-    return new RegExp(`^${escapedPattern}\\s*:?\\s*(.+)$`, 'i');
+    // Create regex that matches the pattern with optional colon and whitespace,
+    // but not as the start of a longer word ("Con" must not match "Concerto")
+    return new RegExp(`^${escapedPattern}(?![\\p{L}\\d])\\s*:?\\s*(.+)$`, 'iu');
   };
   
   // Helper function to process a single line for metadata patterns
@@ -741,20 +720,15 @@ export function extractSubject(title: string | null, caption: string | null): st
 }
 
 /**
- * Normalizes tags/keywords - removes duplicates, normalizes casing
+ * Normalizes tags/keywords - merges synonyms, drops stop-words and junk tokens,
+ * removes duplicates (ignoring case and accents) and applies the maxTags limit
+ * @param taxonomy - Compiled tag taxonomy (only de-duplicates when omitted)
  */
-export function normalizeTags(tags: string[] | string | null): string | null {
+export function normalizeTags(tags: string[] | string | null, taxonomy: CompiledTagTaxonomy = EMPTY_TAG_TAXONOMY): string | null {
   if (!tags) return null;
   
   // Convert to array if string
-  let tagArray: string[];
-  if (typeof tags === 'string') {
-    // Split by common delimiters
-    tagArray = tags.split(/[;,]/).map(t => t.trim()).filter(Boolean);
-  } else {
-    tagArray = tags;
-  }
-  
+  const tagArray = typeof tags === 'string' ? splitTags(tags) : tags;
   if (tagArray.length === 0) return null;
   
   // Clean each tag
@@ -762,11 +736,7 @@ export function normalizeTags(tags: string[] | string | null): string | null {
     .map(tag => cleanText(tag))
     .filter((tag): tag is string => tag !== null && tag.length > 0);
   
-  // Remove duplicates (case-insensitive)
-  const uniqueTags = Array.from(
-    new Map(cleanedTags.map(tag => [tag.toLowerCase(), tag])).values()
-  );
-  
+  const uniqueTags = applyTagTaxonomy(cleanedTags, taxonomy);
   if (uniqueTags.length === 0) return null;
   
   // Join with semicolons
@@ -1019,18 +989,27 @@ export interface CleanImageMetadata {
   authors: string | null;
   dateTaken: string | null;
   copyright: string | null;
+
+  // EDTF form of dateTaken (keeps seasons, decades and approximate dates)
+  dateTakenEdtf: string | null;
+
+  // Subject parsed out of the title or caption, null when subjectField only falls back to the title
+  parsedSubject: string | null;
 }
 
 /**
  * ISSUE 3 FIX: Added config parameter to pass enableMultiParagraph and locale to cleanComments
  * @param rawImage - Raw scraped image data
  * @param config - Optional scraper configuration (for multi-paragraph caption parsing)
+ * @param tagTaxonomy - Optional compiled tag taxonomy (synonyms, stop-words, maxTags)
  */
-export function transformToCleanMetadata(rawImage: any, config?: any): CleanImageMetadata {
+export function transformToCleanMetadata(rawImage: any, config?: any, tagTaxonomy?: CompiledTagTaxonomy): CleanImageMetadata {
   const title = cleanText(rawImage.title);
   const extractedSubject = extractSubject(rawImage.title, rawImage.caption);
   const cleanedAuthors = cleanText(rawImage.authors || rawImage.photographer);
-  const cleanedDate = normalizeDateTaken(rawImage.dateTaken || rawImage.date);
+  const rawDate = rawImage.dateTaken || rawImage.date;
+  const parsedDate = parseDate(rawDate);
+  const cleanedDate = normalizeDateTaken(rawDate, parsedDate);
   const cleanedCopyright = cleanCopyright(rawImage.copyright || rawImage.photographer);
   
   // ISSUE 3 FIX: Pass enableMultiParagraph and locale from config to cleanComments
@@ -1056,6 +1035,12 @@ export function transformToCleanMetadata(rawImage: any, config?: any): CleanImag
     subjectField = title;
   }
   
+  // The extractor's last passes return the title itself (or its first 80 characters),
+  // which is not a subject anyone was named in
+  const parsedSubject = extractedSubject && extractedSubject !== title && !extractedSubject.endsWith('...')
+    ? extractedSubject
+    : null;
+  
   // Comments: Combine cleaned comments with comprehensive metadata
   let comprehensiveComments = cleanedComments || '';
   
@@ -1093,10 +1078,12 @@ export function transformToCleanMetadata(rawImage: any, config?: any): CleanImag
     // Transform to 7 clean fields
     titleField: title,
     subjectField: subjectField,
-    tags: normalizeTags(rawImage.tags),
+    tags: normalizeTags(rawImage.tags, tagTaxonomy),
     comments: comprehensiveComments || null,
     authors: cleanedAuthors,
     dateTaken: cleanedDate,
     copyright: cleanedCopyright,
+    dateTakenEdtf: parsedDate?.edtf ?? null,
+    parsedSubject,
   };
 }
@@ -0,0 +1,169 @@
+/**
+ * Metadata quality scoring
+ * Scores each image of a job on missing fields, suspiciously short titles, mojibake
+ * remnants, dates the parser could not read and captions shared with other images
+ */
+
+import type {
+  CleanMetadataField,
+  ImageQuality,
+  JobQualityReport,
+  QualityIssue,
+  QualityIssueType,
+  ScrapedImage,
+} from '../../shared/schema';
+import { qualityIssueTypeSchema } from '../../shared/schema';
+import { CLEAN_METADATA_FIELDS } from './metadata-diff';
+
+export type QualityImage = Pick<ScrapedImage, 'imageId' | CleanMetadataField> & {
+  dateTakenEdtf?: string | null;
+};
+
+// ISO 8601 value the normalizer stores for a parsed date: a year, month, day or timestamp,
+// or an interval of them (seasons, decades, ranges)
+const ISO_DATE_POINT = String.raw`\d{4}(?:-\d{2}(?:-\d{2}(?:T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?)?)?)?`;
+const ISO_DATE_REGEX = new RegExp(`^${ISO_DATE_POINT}(?:/${ISO_DATE_POINT})?$`);
+
+// Points taken off the score of 100 per issue
+const ISSUE_PENALTIES: Record<QualityIssueType, number> = {
+  missingField: 10,
+  shortTitle: 15,
+  mojibake: 20,
+  unparsedDate: 10,
+  duplicateCaption: 15,
+};
+
+// A missing title or caption costs more than a missing tag list
+const MISSING_FIELD_PENALTIES: Partial<Record<CleanMetadataField, number>> = {
+  titleField: 25,
+  comments: 15,
+};
+
+// Titles shorter than this are usually a fragment ("IMG", "Untitled", a lone name)
+const MIN_TITLE_LENGTH = 10;
+
+// Left-over UTF-8 mis-decoding that fixMojibake did not map: â€ / Ã© / Â° fragments and U+FFFD
+const MOJIBAKE_REGEX = /â€|Ã[\s\u0080-\u00BF]|Â[\u0080-\u00BF]|\uFFFD/;
+
+// Lines transformToCleanMetadata appends after the caption
+const APPENDED_METADATA_LINE = /^(?:Author|Date|Copyright):\s/;
+
+function hasValue(value: string | null | undefined): value is string {
+  return !!value?.trim();
+}
+
+/**
+ * Caption text of an image for duplicate detection: the comments without the appended
+ * Author/Date/Copyright lines, lowercased with whitespace collapsed
+ */
+export function captionKey(comments: string | null | undefined): string | null {
+  if (!comments) return null;
+  const caption = comments
+    .split('\n')
+    .filter(line => !APPENDED_METADATA_LINE.test(line.trim()))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return caption || null;
+}
+
+/**
+ * Caption keys used by more than one image
+ */
+export function findDuplicateCaptions(images: QualityImage[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const image of images) {
+    const key = captionKey(image.comments);
+    if (!key) continue;
+    if (seen.has(key)) duplicates.add(key);
+    seen.add(key);
+  }
+  return duplicates;
+}
+
+function isUnparsedDate(image: QualityImage): boolean {
+  if (!hasValue(image.dateTaken) || image.dateTakenEdtf) return false;
+  // Images stored before the EDTF column have no EDTF form, but a parsed date was stored as ISO
+  return !ISO_DATE_REGEX.test(image.dateTaken.trim());
+}
+
+function issuePenalty(issue: QualityIssue): number {
+  if (issue.type === 'missingField') {
+    return MISSING_FIELD_PENALTIES[issue.field] ?? ISSUE_PENALTIES.missingField;
+  }
+  return ISSUE_PENALTIES[issue.type];
+}
+
+/**
+ * Issues and score (0-100) of one image
+ * @param duplicateCaptions - caption keys shared by several images of the job (findDuplicateCaptions)
+ */
+export function scoreImageQuality(image: QualityImage, duplicateCaptions: Set<string> = new Set()): ImageQuality {
+  const issues: QualityIssue[] = [];
+
+  for (const field of CLEAN_METADATA_FIELDS) {
+    if (!hasValue(image[field])) {
+      issues.push({ type: 'missingField', field });
+    } else if (MOJIBAKE_REGEX.test(image[field]!)) {
+      issues.push({ type: 'mojibake', field });
+    }
+  }
+
+  if (hasValue(image.titleField) && image.titleField.trim().length < MIN_TITLE_LENGTH) {
+    issues.push({ type: 'shortTitle', field: 'titleField' });
+  }
+
+  if (isUnparsedDate(image)) {
+    issues.push({ type: 'unparsedDate', field: 'dateTaken' });
+  }
+
+  const caption = captionKey(image.comments);
+  if (caption && duplicateCaptions.has(caption)) {
+    issues.push({ type: 'duplicateCaption', field: 'comments' });
+  }
+
+  const score = Math.max(0, 100 - issues.reduce((total, issue) => total + issuePenalty(issue), 0));
+  return { imageId: image.imageId, score, issues };
+}
+
+/**
+ * Quality report of a job's images
+ * Counts are per image (an image missing three fields counts once under missingField)
+ * @param threshold - images scoring below this are listed as low quality
+ */
+export function buildQualityReport(
+  jobId: string,
+  images: QualityImage[],
+  threshold: number
+): JobQualityReport {
+  const duplicateCaptions = findDuplicateCaptions(images);
+  const scored = images.map(image => scoreImageQuality(image, duplicateCaptions));
+
+  const issueCounts = Object.fromEntries(qualityIssueTypeSchema.options.map(type => [type, 0])) as Record<QualityIssueType, number>;
+  const missingFieldCounts = Object.fromEntries(CLEAN_METADATA_FIELDS.map(field => [field, 0])) as Record<CleanMetadataField, number>;
+
+  for (const { issues } of scored) {
+    new Set(issues.map(issue => issue.type)).forEach(type => issueCounts[type]++);
+    issues
+      .filter(issue => issue.type === 'missingField')
+      .forEach(issue => missingFieldCounts[issue.field]++);
+  }
+
+  const lowQuality = scored
+    .filter(image => image.score < threshold)
+    .sort((a, b) => a.score - b.score || a.imageId.localeCompare(b.imageId));
+  const totalScore = scored.reduce((total, image) => total + image.score, 0);
+
+  return {
+    jobId,
+    threshold,
+    totalImages: images.length,
+    averageScore: images.length > 0 ? Math.round(totalScore / images.length) : 100,
+    lowQualityImages: lowQuality.length,
+    issueCounts,
+    missingFieldCounts,
+    images: lowQuality,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Person name normalization for featuring/subject text
+ * Splits free text into individual names, canonicalizes casing and "Last, First" order,
+ * and resolves spellings listed in the person alias dictionary (person-aliases.json)
+ */
+
+import type { PersonAliases } from '../../shared/schema';
+import { COMMON_GIVEN_NAMES } from './given-names';
+
+// Lookup from name key (see personNameKey) to canonical name
+export type CompiledPersonAliases = Map<string, string>;
+
+// Segments with more words than this are descriptions rather than names
+const MAX_NAME_WORDS = 6;
+
+const NAME_SEPARATOR_REGEX = /\s*(?:;|\||\s\/\s|&|\+|\band\b|\bwith\b|\bfeat(?:uring)?\.?(?=\s)|\bft\.?(?=\s))\s*/i;
+const POSITION_MARKER_REGEX = /^(?:\(?\s*(?:l\s*-\s*r|r\s*-\s*l|left to right|from left)\s*\)?\s*:?\s*)/i;
+const NAME_SUFFIXES = new Set(['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv']);
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'da', 'di', 'del', 'della', 'du', 'la', 'le', 'bin', 'al', 'y']);
+
+/**
+ * Key used to compare names: lowercase, no diacritics, no dots, single spaces
+ */
+export function personNameKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the alias lookup; every canonical name also matches itself
+ */
+export function compilePersonAliases(aliases: PersonAliases): CompiledPersonAliases {
+  const compiled: CompiledPersonAliases = new Map();
+  for (const [canonical, spellings] of Object.entries(aliases)) {
+    for (const spelling of [canonical, ...spellings]) {
+      compiled.set(personNameKey(spelling), canonical);
+    }
+  }
+  return compiled;
+}
+
+function capitalizeWord(word: string, isFirst: boolean): string {
+  const lower = word.toLowerCase();
+  if (!isFirst && NAME_PARTICLES.has(lower)) return lower;
+  if (/^(?:ii|iii|iv)$/.test(lower)) return lower.toUpperCase();
+
+  // Capitalize after hyphens, apostrophes and dots (Jean-Luc, O'Brien, J.K.) and after Mc (McDonald)
+  return lower
+    .replace(/(^|[-'’.])(\p{L})/gu, (_, separator: string, letter: string) => `${separator}${letter.toUpperCase()}`)
+    .replace(/^Mc(\p{L})/u, (_, letter: string) => `Mc${letter.toUpperCase()}`);
+}
+
+/**
+ * Tidy a single name: whitespace, surrounding punctuation, and casing when the
+ * source was all upper or all lower case (mixed case is kept as written)
+ * @returns null when the text does not look like a name
+ */
+export function normalizePersonName(name: string): string | null {
+  const cleaned = name
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.:;'"“”‘’-]+|[\s,:;'"“”‘’-]+$/g, '')
+    .trim();
+
+  if (!/\p{L}/u.test(cleaned)) return null;
+
+  const words = cleaned.split(' ');
+  if (words.length > MAX_NAME_WORDS) return null;
+
+  const letters = cleaned.replace(/[^\p{L}]/gu, '');
+  const isSingleCase = letters === letters.toUpperCase() || letters === letters.toLowerCase();
+  if (!isSingleCase) return cleaned;
+
+  return words.map((word, index) => capitalizeWord(word, index === 0)).join(' ');
+}
+
+// Initials stand in for given names ("J.", "J.K.")
+const INITIALS_REGEX = /^(?:\p{L}\.)+$/u;
+
+function isSuffix(word: string): boolean {
+  return NAME_SUFFIXES.has(word.toLowerCase());
+}
+
+function looksLikeGivenName(text: string): boolean {
+  const words = text.split(/\s+/);
+  return words.length <= 2 && words.every(word =>
+    INITIALS_REGEX.test(word) || COMMON_GIVEN_NAMES.has(personNameKey(word))
+  );
+}
+
+// "Styles, Harry" is one name when Harry looks like a given name and Styles isn't a name on its own
+function isLastFirst(left: string, right: string, aliases: CompiledPersonAliases): boolean {
+  if (left.split(/\s+/).length !== 1) return false;
+  if (aliases.has(personNameKey(`${right} ${left}`))) return true;
+  if (aliases.has(personNameKey(left)) || aliases.has(personNameKey(right))) return false;
+  return looksLikeGivenName(right);
+}
+
+// "Styles, Harry" → "Harry Styles", "Downey, Robert, Jr." → "Robert Downey Jr.";
+// any other comma separates names, and a suffix stays with the name before it
+function splitCommaSegment(segment: string, aliases: CompiledPersonAliases): string[] {
+  const parts: string[] = [];
+  for (const part of segment.split(',').map(part => part.trim()).filter(Boolean)) {
+    if (parts.length > 0 && isSuffix(part)) {
+      parts[parts.length - 1] += ` ${part}`;
+    } else {
+      parts.push(part);
+    }
+  }
+  if (parts.length !== 2) return parts;
+
+  const [left, right] = parts;
+  const rightWords = right.split(/\s+/);
+  const suffix = rightWords.length > 1 && isSuffix(rightWords[rightWords.length - 1]) ? rightWords.pop() : undefined;
+  const given = rightWords.join(' ');
+  if (!isLastFirst(left, given, aliases)) return parts;
+
+  return [suffix ? `${given} ${left} ${suffix}` : `${given} ${left}`];
+}
+
+/**
+ * Split featuring/subject text into individual raw names
+ * (names in the alias dictionary decide whether "A, B" is one "Last, First" name or two names)
+ */
+export function splitPersonNames(text: string, aliases: CompiledPersonAliases = new Map()): string[] {
+  return text
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(POSITION_MARKER_REGEX, '')
+    .split(NAME_SEPARATOR_REGEX)
+    .flatMap(segment => splitCommaSegment(segment.trim(), aliases))
+    .filter(Boolean);
+}
+
+/**
+ * Individual, canonical person names in text order (duplicates removed)
+ */
+export function extractPersonNames(text: string | null | undefined, aliases: CompiledPersonAliases): string[] {
+  if (!text) return [];
+
+  const names: string[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of splitPersonNames(text, aliases)) {
+    const normalized = normalizePersonName(raw);
+    if (!normalized) continue;
+
+    const canonical = aliases.get(personNameKey(normalized)) ?? normalized;
+    const key = personNameKey(canonical);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    names.push(canonical);
+  }
+
+  return names;
+}
+
+/**
+ * Canonical form of a name typed into a person filter ("styles, harry" → "Harry Styles")
+ */
+export function canonicalPersonName(name: string, aliases: CompiledPersonAliases): string | null {
+  return extractPersonNames(name, aliases)[0] ?? null;
+}
+
+/**
+ * Whether a people list names a person, comparing names by personNameKey
+ * (both the job image and the export person filters match this way)
+ */
+export function peopleIncludes(people: string[] | null | undefined, name: string): boolean {
+  const key = personNameKey(name);
+  return !!people?.some(person => personNameKey(person) === key);
+}
@@ -0,0 +1,245 @@
+/**
+ * Rights and licensing extraction
+ * Parses the copyright, credit and caption text of an image into the rights holder,
+ * year, agency, credit line, usage terms, restriction wording and embargo date
+ */
+
+import type { ImageRights, LabelValue } from '../../shared/schema';
+import { parseDate } from './date-normalization';
+
+export interface RightsSource {
+  copyright?: string | null;
+  caption?: string | null;
+  authors?: string | null;
+  contentPartner?: string | null;
+  labelValues?: LabelValue[] | null;
+}
+
+// Agencies recognized inside credit and copyright text
+const KNOWN_AGENCIES = [
+  'WENN', 'Getty Images', 'Reuters', 'Associated Press', 'AP Photo', 'PA Images', 'PA Wire',
+  'Shutterstock', 'Alamy', 'Splash News', 'Backgrid', 'EPA', 'AFP', 'Rex Features',
+  'Avalon', 'Mirrorpix', 'Bauer-Griffin', 'Cover Images', 'Zuma Press',
+];
+
+const USAGE_TERMS: Array<{ pattern: RegExp; term: string }> = [
+  { pattern: /\b(?:for\s+)?editorial\s+(?:use\s+)?only\b|\bfor\s+editorial\s+use\b/i, term: 'Editorial use only' },
+  { pattern: /\bnot\s+for\s+commercial\s+use\b|\bnon[-\s]commercial\b/i, term: 'Non-commercial use only' },
+  { pattern: /\bpersonal\s+use\s+only\b/i, term: 'Personal use only' },
+  { pattern: /\broyalty[-\s]free\b/i, term: 'Royalty free' },
+  { pattern: /\brights[-\s]managed\b/i, term: 'Rights managed' },
+  { pattern: /\b(?:cleared\s+for\s+commercial\s+use|commercial\s+use\s+(?:allowed|permitted))\b/i, term: 'Commercial use' },
+  { pattern: /\bpublic\s+domain\b|\bCC0\b/i, term: 'Public domain' },
+];
+
+const CREATIVE_COMMONS_REGEX = /\b(?:creative\s+commons|CC)[\s-]+(BY(?:-(?:NC|ND|SA))*)(?:\s+(\d\.\d))?\b/i;
+
+const RESTRICTION_PATTERNS: RegExp[] = [
+  /\bmandatory\s+(?:credit|byline)\b/i,
+  /\bmust\s+(?:credit|call|contact|obtain)\b/i,
+  /\bno\s+(?:sales?|archiv\w*|books?|merchandis\w*|web|online|internet|tv|television|magazines?|newspapers?|advertising|commercial\s+use|third[-\s]part(?:y|ies)|syndication|resale)\b/i,
+  /\bnot\s+(?:for|to\s+be)\s+(?:sale|sold|used|use|published|publication|distribut\w*|resale)\b/i,
+  /\b(?:online|print|tv|web|uk|us|usa)\s+out\b/i,
+  /\bstrictly\s+(?:no|not|for)\b/i,
+  /\brestrictions?\s+appl(?:y|ies)\b|\brestricted\s+(?:use|rights)\b/i,
+  /\b(?:permission|clearance)\s+(?:is\s+)?(?:required|needed)\b/i,
+  /\bwithout\s+(?:prior\s+)?(?:written\s+)?permission\b/i,
+];
+
+// Same wording, but only where a clause starts with it: captions are free prose, so "no online
+// coverage of the non-commercial event" or "let us out" must not read as restrictions
+function atClauseStart(pattern: RegExp): RegExp {
+  return new RegExp(`^(?:${pattern.source})`, pattern.flags);
+}
+
+interface RightsWordingPatterns {
+  usageTerms: Array<{ pattern: RegExp; term: string }>;
+  creativeCommons: RegExp;
+  restrictions: RegExp[];
+}
+
+// Copyright text and rights labels
+const ANYWHERE: RightsWordingPatterns = {
+  usageTerms: USAGE_TERMS,
+  creativeCommons: CREATIVE_COMMONS_REGEX,
+  restrictions: RESTRICTION_PATTERNS,
+};
+
+// Caption lines and sentences
+const AT_CLAUSE_START: RightsWordingPatterns = {
+  usageTerms: USAGE_TERMS.map(({ pattern, term }) => ({ pattern: atClauseStart(pattern), term })),
+  creativeCommons: atClauseStart(CREATIVE_COMMONS_REGEX),
+  restrictions: RESTRICTION_PATTERNS.map(atClauseStart),
+};
+
+const EMBARGO_PATTERNS: RegExp[] = [
+  /\bembargo(?:ed)?\b\s*(?:until|till|to|:)?\s*(.+)$/i,
+  /\b(?:not|do\s+not|don't)\s+(?:for\s+)?(?:publish\w*|publication|release|use)\s+(?:before|until|prior\s+to)\s+(.+)$/i,
+];
+
+// Offsets of the time zones used in embargo notices
+const TIMEZONE_OFFSETS: Record<string, string> = {
+  GMT: 'Z', UTC: 'Z', Z: 'Z', BST: '+01:00', CET: '+01:00', CEST: '+02:00',
+  EST: '-05:00', EDT: '-04:00', PST: '-08:00', PDT: '-07:00',
+};
+
+// A time standing on its own, not the "16.06" of a dotted date like 16.06.2023
+const TIME_REGEX = /(?<![\d.])(\d{1,2})[:.](\d{2})(?!\.?\d)\s*(am|pm)?\s*(GMT|UTC|BST|CEST|CET|EST|EDT|PST|PDT|Z)?/i;
+
+// Labels whose values carry rights information ("Usage", "Restrictions", "License")
+const RIGHTS_LABEL_REGEX = /restriction|usage|rights|licen[cs]e|embargo|credit|copyright/i;
+
+const CREDIT_LINE_REGEX = /^(?:photo\s+credit|picture\s+credit|credit|photo\s+by|photographer)\s*:\s*(.+)$/im;
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.;:|*-]+|[\s,.;:|*-]+$/g, '')
+    .trim();
+}
+
+// Copyright/credit text split into sentences and clauses
+function splitSegments(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!])\s+(?=[A-Z*(])|\s+[-–|]\s+|;\s*|\*{2,}/)
+    .map(tidy)
+    .filter(Boolean);
+}
+
+function findAgency(text: string): string | null {
+  return KNOWN_AGENCIES.find(agency => new RegExp(`\\b${agency.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text)) ?? null;
+}
+
+function twentyFourHour(hours: number, meridiem: string | undefined): number {
+  if (!meridiem) return hours;
+  const isPm = meridiem.toLowerCase() === 'pm';
+  return (hours % 12) + (isPm ? 12 : 0);
+}
+
+/**
+ * Date (or timestamp, when a time is given) of an embargo notice's text after "embargoed until"
+ * "00:01 GMT on Friday 12 June 2023" → 2023-06-12T00:01:00Z
+ */
+export function parseEmbargoDate(text: string): string | null {
+  const time = text.match(TIME_REGEX);
+  const dateText = text
+    .replace(TIME_REGEX, ' ')
+    .replace(/\b(?:on|at|the)\b/gi, ' ')
+    .replace(/\b(?:mon|tues|wednes|thurs|fri|satur|sun)day\b,?/gi, ' ')
+    .replace(/[()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const parsed = parseDate(dateText);
+  if (!parsed || (parsed.precision !== 'day' && parsed.precision !== 'time') || parsed.interval) return null;
+  if (parsed.precision === 'time' || !time) return parsed.start;
+
+  const hours = twentyFourHour(Number(time[1]), time[3]);
+  if (hours > 23 || Number(time[2]) > 59) return parsed.start;
+
+  const offset = time[4] ? TIMEZONE_OFFSETS[time[4].toUpperCase()] : '';
+  return `${parsed.start}T${String(hours).padStart(2, '0')}:${time[2]}:00${offset}`;
+}
+
+function matchUsageTerms(segment: string, patterns: RightsWordingPatterns): string[] {
+  const terms = patterns.usageTerms.filter(({ pattern }) => pattern.test(segment)).map(({ term }) => term);
+  const creativeCommons = segment.match(patterns.creativeCommons);
+  if (creativeCommons) {
+    terms.push(['CC', creativeCommons[1].toUpperCase(), creativeCommons[2]].filter(Boolean).join(' '));
+  }
+  return terms;
+}
+
+function matchesRestriction(segment: string, patterns: RightsWordingPatterns): boolean {
+  return patterns.restrictions.some(pattern => pattern.test(segment));
+}
+
+// until is null for an embargo without a readable date ("embargoed until further notice")
+function matchEmbargo(segment: string): { until: string | null } | null {
+  for (const pattern of EMBARGO_PATTERNS) {
+    const match = segment.match(pattern);
+    if (match) return { until: parseEmbargoDate(match[1]) };
+  }
+  return null;
+}
+
+// "© 2023 Rocky/WENN.com. All rights reserved" → holder text "Rocky/WENN.com", year 2023
+function parseCopyrightHolder(segment: string): { holder: string | null; year: number | null } {
+  const year = segment.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  const holder = tidy(segment
+    .replace(/©|\(c\)|\bcopyright\b|\bcopr\.?/gi, ' ')
+    .replace(/\b(?:1[89]\d{2}|20\d{2})(?:\s*[-–]\s*(?:1[89]\d{2}|20\d{2}))?\b/g, ' ')
+    .replace(/\ball\s+rights\s+reserved\b/gi, ' ')
+    .replace(/^\s*(?:photo|image|picture)\s+(?:by|credit)\s*:?/i, ' '));
+
+  return { holder: holder || null, year: year ? Number(year[1]) : null };
+}
+
+function isLegalWording(segment: string): boolean {
+  return matchUsageTerms(segment, ANYWHERE).length > 0 ||
+    matchesRestriction(segment, ANYWHERE) ||
+    EMBARGO_PATTERNS.some(pattern => pattern.test(segment)) ||
+    /^all\s+rights\s+reserved$/i.test(segment);
+}
+
+/**
+ * Structured rights information of an image
+ * The rights holder is the agency of a "Photographer/Agency" credit, otherwise the copyright owner;
+ * the credit line is an explicit "Credit:" caption line or credit label when there is one
+ * @returns null when none of the text carries rights information
+ */
+export function parseRights(source: RightsSource): ImageRights | null {
+  const rightsLabelText = (source.labelValues ?? [])
+    .filter(({ label }) => RIGHTS_LABEL_REGEX.test(label))
+    .map(({ label, value }) => `${label}: ${value}`);
+
+  const copyrightSegments = source.copyright ? splitSegments(source.copyright) : [];
+  const allSegments = [
+    ...copyrightSegments.map(segment => ({ segment, patterns: ANYWHERE })),
+    ...rightsLabelText.flatMap(splitSegments).map(segment => ({ segment, patterns: ANYWHERE })),
+    ...(source.caption ? splitSegments(source.caption) : []).map(segment => ({ segment, patterns: AT_CLAUSE_START })),
+  ];
+
+  const usageTerms = new Set<string>();
+  const restrictions = new Set<string>();
+  let embargoUntil: string | null = null;
+
+  for (const { segment, patterns } of allSegments) {
+    matchUsageTerms(segment, patterns).forEach(term => usageTerms.add(term));
+    if (matchesRestriction(segment, patterns)) restrictions.add(segment);
+
+    const embargo = matchEmbargo(segment);
+    if (embargo?.until) embargoUntil = embargoUntil ?? embargo.until;
+    // An embargo with no date still restricts publication
+    else if (embargo) restrictions.add(segment);
+  }
+
+  // The holder comes from the first copyright clause that is not usage or restriction wording
+  const holderSegment = copyrightSegments.find(segment => !isLegalWording(segment));
+  const { holder, year } = holderSegment ? parseCopyrightHolder(holderSegment) : { holder: null, year: null };
+
+  const explicitCredit = source.caption?.match(CREDIT_LINE_REGEX)?.[1] ??
+    source.labelValues?.find(({ label }) => /credit/i.test(label))?.value;
+  const creditLine = (explicitCredit ? tidy(explicitCredit) : null) || holder || tidy(source.authors ?? '') || null;
+
+  // "Rocky/WENN.com" and "Jane Doe via Getty Images" name the agency last
+  const creditParts = (holder ?? creditLine ?? '').split(/\s*\/\s*|\s+via\s+/i).filter(Boolean);
+  const agency = (creditParts.length > 1 ? creditParts[creditParts.length - 1] : null) ??
+    findAgency(holder ?? '') ?? findAgency(creditLine ?? '') ??
+    (source.contentPartner?.trim() || null);
+  const rightsHolder = creditParts.length > 1 ? agency : holder;
+
+  const rights: ImageRights = {
+    rightsHolder,
+    year,
+    agency,
+    creditLine,
+    usageTerms: Array.from(usageTerms),
+    restrictions: Array.from(restrictions),
+    embargoUntil,
+  };
+
+  const hasRights = rightsHolder || year || agency || creditLine || embargoUntil ||
+    rights.usageTerms.length > 0 || rights.restrictions.length > 0;
+  return hasRights ? rights : null;
+}
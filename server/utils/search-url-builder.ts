@@ -0,0 +1,67 @@
+/**
+ * SmartFrame search URL builder
+ * Applies the job's sort order and search facets to the target URL before navigation,
+ * so the configured options actually shape the result set that gets scraped
+ */
+
+import type { ScrapeConfig } from '../../shared/schema';
+
+// Query parameter names used by smartframe.com/search
+const SEARCH_PARAMS = {
+  sortBy: 'sortBy',
+  dateFrom: 'dateFrom',
+  dateTo: 'dateTo',
+  photographer: 'photographer',
+  collection: 'collection',
+} as const;
+
+const DEFAULT_SORT: ScrapeConfig['sortBy'] = 'relevance';
+
+/**
+ * Check whether a URL points at a SmartFrame search results page
+ * (image detail pages under /search/image/ are left untouched)
+ */
+export function isSearchResultsUrl(url: URL): boolean {
+  return url.hostname.endsWith('smartframe.com') &&
+    /^\/search\/?$/.test(url.pathname);
+}
+
+/**
+ * Build the effective search URL for a job
+ * - sortBy from the config replaces the URL's sort, except that the default ("relevance")
+ *   never overrides a sort that was explicitly present in the pasted URL
+ * - each configured facet is set on the URL; facets that are not configured keep the URL's value
+ * @returns the input URL unchanged when it is not a search results page or cannot be parsed
+ */
+export function buildSearchUrl(
+  rawUrl: string,
+  options: Pick<ScrapeConfig, 'sortBy' | 'filters'>
+): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return rawUrl;
+  }
+
+  if (!isSearchResultsUrl(url)) {
+    return rawUrl;
+  }
+
+  const params = url.searchParams;
+  const sortBy = options.sortBy || DEFAULT_SORT;
+
+  if (sortBy !== DEFAULT_SORT || !params.has(SEARCH_PARAMS.sortBy)) {
+    params.set(SEARCH_PARAMS.sortBy, sortBy);
+  }
+
+  const filters = options.filters;
+  if (filters) {
+    if (filters.dateFrom) params.set(SEARCH_PARAMS.dateFrom, filters.dateFrom);
+    if (filters.dateTo) params.set(SEARCH_PARAMS.dateTo, filters.dateTo);
+    if (filters.photographer) params.set(SEARCH_PARAMS.photographer, filters.photographer);
+    if (filters.collection) params.set(SEARCH_PARAMS.collection, filters.collection);
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,183 @@
+/**
+ * Tag normalization against the tag taxonomy (tag-taxonomy.json)
+ * Merges synonyms into one canonical tag, drops stop-words and junk tokens,
+ * limits the tag count and groups tags into hierarchical categories
+ */
+
+import { tagTaxonomySchema, type TagReport, type TagTaxonomy } from '../../shared/schema';
+
+export interface CompiledTagTaxonomy {
+  // Tag key (see tagKey) -> canonical tag
+  synonyms: Map<string, string>;
+  stopwords: Set<string>;
+  // Tag key -> categories listing the tag
+  categories: Map<string, string[]>;
+  minTagLength?: number;
+  maxTags?: number;
+}
+
+/**
+ * Key used to compare tags: lowercase, no diacritics, hyphens/underscores as spaces
+ */
+export function tagKey(tag: string): string {
+  return tag
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[-_\s]+/g, ' ')
+    .trim();
+}
+
+export function compileTagTaxonomy(taxonomy: TagTaxonomy): CompiledTagTaxonomy {
+  const synonyms = new Map<string, string>();
+  for (const [canonical, spellings] of Object.entries(taxonomy.synonyms)) {
+    for (const spelling of [canonical, ...spellings]) {
+      synonyms.set(tagKey(spelling), canonical);
+    }
+  }
+
+  const categories = new Map<string, string[]>();
+  for (const [category, tags] of Object.entries(taxonomy.categories)) {
+    for (const tag of tags) {
+      // Categories may list any spelling of a tag
+      const key = tagKey(synonyms.get(tagKey(tag)) ?? tag);
+      const listed = categories.get(key) ?? [];
+      if (!listed.includes(category)) listed.push(category);
+      categories.set(key, listed);
+    }
+  }
+
+  return {
+    synonyms,
+    stopwords: new Set(taxonomy.stopwords.map(tagKey)),
+    categories,
+    minTagLength: taxonomy.minTagLength,
+    maxTags: taxonomy.maxTags,
+  };
+}
+
+/**
+ * A taxonomy without any rules: tags are only de-duplicated
+ */
+export const EMPTY_TAG_TAXONOMY = compileTagTaxonomy(tagTaxonomySchema.parse({}));
+
+/**
+ * Canonical form of a single tag, or null when it is a stop-word or junk
+ */
+export function canonicalTag(tag: string, taxonomy: CompiledTagTaxonomy): string | null {
+  const trimmed = tag.trim();
+  const key = tagKey(trimmed);
+  if (taxonomy.minTagLength !== undefined && (key.length < taxonomy.minTagLength || !/[\p{L}\p{N}]/u.test(key))) return null;
+  if (taxonomy.stopwords.has(key)) return null;
+
+  const canonical = taxonomy.synonyms.get(key) ?? trimmed;
+  return taxonomy.stopwords.has(tagKey(canonical)) ? null : canonical;
+}
+
+/**
+ * Canonical tags in source order, duplicates removed and limited to maxTags
+ */
+export function applyTagTaxonomy(tags: string[], taxonomy: CompiledTagTaxonomy): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+
+  for (const tag of tags) {
+    const canonical = canonicalTag(tag, taxonomy);
+    if (!canonical) continue;
+
+    const key = tagKey(canonical);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    result.push(canonical);
+    if (taxonomy.maxTags !== undefined && result.length >= taxonomy.maxTags) break;
+  }
+
+  return result;
+}
+
+/**
+ * Split a stored tags field ("a; b" or "a, b") into tags
+ */
+export function splitTags(tags: string | null | undefined): string[] {
+  return tags ? tags.split(/[;,]/).map(tag => tag.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Categories of a tag with their parent categories ("Sport/Football" → also "Sport")
+ */
+export function tagCategories(tag: string, taxonomy: CompiledTagTaxonomy): string[] {
+  const categories: string[] = [];
+  for (const category of taxonomy.categories.get(tagKey(tag)) ?? []) {
+    const parts = category.split('/').map(part => part.trim()).filter(Boolean);
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const path = parts.slice(0, depth).join('/');
+      if (!categories.includes(path)) categories.push(path);
+    }
+  }
+  return categories;
+}
+
+/**
+ * Tag and category frequency over the tags fields of a set of images
+ * Stored tags are run through the current taxonomy (without the maxTags limit), so the
+ * report shows what the rules merge and drop before a job is re-normalized
+ * @param limit - Maximum number of tags listed (categories are not limited)
+ */
+export function buildTagReport(
+  tagFields: Array<string | null | undefined>,
+  taxonomy: CompiledTagTaxonomy,
+  limit: number
+): Omit<TagReport, 'jobId'> {
+  const unlimited: CompiledTagTaxonomy = { ...taxonomy, maxTags: undefined };
+  const tags = new Map<string, { tag: string; count: number; variants: Set<string> }>();
+  const categoryCounts = new Map<string, number>();
+  let imagesWithTags = 0;
+
+  for (const field of tagFields) {
+    const imageCategories = new Set<string>();
+    const imageTags = new Set<string>();
+
+    for (const raw of splitTags(field)) {
+      const canonical = canonicalTag(raw, unlimited);
+      if (!canonical) continue;
+
+      const key = tagKey(canonical);
+      const entry = tags.get(key) ?? { tag: canonical, count: 0, variants: new Set<string>() };
+      if (raw !== canonical) entry.variants.add(raw);
+      if (!imageTags.has(key)) {
+        imageTags.add(key);
+        entry.count++;
+      }
+      tags.set(key, entry);
+
+      for (const category of tagCategories(canonical, unlimited)) {
+        imageCategories.add(category);
+      }
+    }
+
+    if (imageTags.size > 0) imagesWithTags++;
+    for (const category of Array.from(imageCategories)) {
+      categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+    }
+  }
+
+  const sortedTags = Array.from(tags.values())
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+    .map(({ tag, count, variants }) => ({
+      tag,
+      count,
+      variants: Array.from(variants).sort(),
+      categories: tagCategories(tag, unlimited),
+    }));
+
+  return {
+    totalImages: tagFields.length,
+    imagesWithTags,
+    distinctTags: tags.size,
+    tags: sortedTags,
+    categories: Array.from(categoryCounts, ([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category)),
+  };
+}
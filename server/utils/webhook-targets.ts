@@ -0,0 +1,117 @@
+/**
+ * Webhook target checks
+ * Webhooks must use http or https and may not reach loopback, private or link-local
+ * addresses, unless their host is listed in webhooks.allowedHosts
+ */
+
+import { isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+// [first address, prefix length] of the IPv4 ranges webhooks may not reach
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([start, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(start) / size);
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped addresses, written either dotted (::ffff:127.0.0.1) or in hex (::ffff:7f00:1)
+  const mapped = lower.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isBlockedIpv4(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isBlockedIpv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (lower === '::' || lower === '::1') return true;
+  // Unique local (fc00::/7) and link-local (fe80::/10)
+  return /^f[cd][0-9a-f]{0,2}:/.test(lower) || /^fe[89ab][0-9a-f]?:/.test(lower);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or unspecified
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return false;
+}
+
+// Hostname without the brackets URL keeps around IPv6 literals
+function hostnameOf(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(host => host.toLowerCase() === hostname);
+}
+
+/**
+ * Why a webhook URL may not be used, judged from the URL alone (null when it may)
+ */
+export function getWebhookUrlError(url: string, allowedHosts: string[] = []): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `Invalid webhook URL "${url}"`;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `Webhook URL "${url}" must use http or https`;
+  }
+
+  const hostname = hostnameOf(parsed);
+  if (isAllowedHost(hostname, allowedHosts)) {
+    return null;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return `Webhook URL "${url}" targets a loopback, private or link-local address`;
+  }
+
+  return null;
+}
+
+/**
+ * getWebhookUrlError, plus a DNS check that the host doesn't resolve to a blocked address
+ * Hosts that don't resolve are let through - the delivery itself will fail
+ */
+export async function resolveWebhookUrlError(url: string, allowedHosts: string[] = []): Promise<string | null> {
+  const error = getWebhookUrlError(url, allowedHosts);
+  if (error) {
+    return error;
+  }
+
+  const hostname = hostnameOf(new URL(url));
+  if (isIP(hostname) || isAllowedHost(hostname, allowedHosts)) {
+    return null;
+  }
+
+  const addresses = await lookup(hostname, { all: true }).catch(() => []);
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `Webhook URL "${url}" resolves to a loopback, private or link-local address`;
+  }
+
+  return null;
+}
@@ -0,0 +1,151 @@
+/**
+ * XMP sidecar generation
+ * Writes an image's metadata as a standalone .xmp file with the same field mapping the
+ * canvas extractor embeds through exiftool, so DAM tools (Lightroom, Photo Mechanic)
+ * can ingest it for images delivered separately
+ */
+
+import path from 'path';
+import type { ScrapedImage } from '../../shared/schema';
+import { splitTags } from './tag-taxonomy';
+
+const NAMESPACES: Record<string, string> = {
+  dc: 'http://purl.org/dc/elements/1.1/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+  Iptc4xmpExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+};
+
+// Full dates and timestamps are written to every date property, like the exiftool mapping
+const FULL_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:[+-]\d{2}:\d{2}|Z)?)?$/;
+// XMP dates may also be a year or a month, which only photoshop:DateCreated is used for
+const PARTIAL_DATE_REGEX = /^\d{4}(?:-\d{2})?$/;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function simple(property: string, value: string): string {
+  return `   <${property}>${escapeXml(value)}</${property}>`;
+}
+
+// Language alternative (dc:title, dc:description, dc:rights, xmpRights:UsageTerms)
+function langAlt(property: string, value: string): string {
+  return [
+    `   <${property}>`,
+    '    <rdf:Alt>',
+    `     <rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li>`,
+    '    </rdf:Alt>',
+    `   </${property}>`,
+  ].join('\n');
+}
+
+// Unordered (rdf:Bag) or ordered (rdf:Seq) list
+function list(property: string, values: string[], kind: 'Bag' | 'Seq'): string {
+  return [
+    `   <${property}>`,
+    `    <rdf:${kind}>`,
+    ...values.map(value => `     <rdf:li>${escapeXml(value)}</rdf:li>`),
+    `    </rdf:${kind}>`,
+    `   </${property}>`,
+  ].join('\n');
+}
+
+/**
+ * XMP packet with an image's metadata
+ * Title → dc:title and photoshop:Headline, people (or the subject) → Iptc4xmpExt:PersonInImage,
+ * comments → dc:description and tiff:ImageDescription, authors → dc:creator and tiff:Artist,
+ * copyright → dc:rights and tiff:Copyright, tags → dc:subject, date taken →
+ * photoshop:DateCreated (plus exif:DateTimeOriginal and xmp:CreateDate for full dates).
+ * City, country, credit line and usage terms are added when known.
+ */
+export function buildXmpSidecar(image: ScrapedImage): string {
+  const properties: string[] = [];
+
+  if (image.titleField) {
+    properties.push(langAlt('dc:title', image.titleField));
+    properties.push(simple('photoshop:Headline', image.titleField));
+  }
+
+  const people = image.people?.length ? image.people : image.subjectField ? [image.subjectField] : [];
+  if (people.length > 0) {
+    properties.push(list('Iptc4xmpExt:PersonInImage', people, 'Bag'));
+  }
+
+  if (image.comments) {
+    properties.push(langAlt('dc:description', image.comments));
+    properties.push(simple('tiff:ImageDescription', image.comments));
+  }
+
+  if (image.authors) {
+    properties.push(list('dc:creator', [image.authors], 'Seq'));
+    properties.push(simple('tiff:Artist', image.authors));
+  }
+
+  if (image.copyright) {
+    properties.push(langAlt('dc:rights', image.copyright));
+    properties.push(simple('tiff:Copyright', image.copyright));
+    properties.push(simple('xmpRights:Marked', 'True'));
+  }
+
+  const dateTaken = image.dateTaken?.trim();
+  if (dateTaken && FULL_DATE_REGEX.test(dateTaken)) {
+    properties.push(simple('photoshop:DateCreated', dateTaken));
+    properties.push(simple('exif:DateTimeOriginal', dateTaken));
+    properties.push(simple('xmp:CreateDate', dateTaken));
+  } else if (dateTaken && PARTIAL_DATE_REGEX.test(dateTaken)) {
+    properties.push(simple('photoshop:DateCreated', dateTaken));
+  }
+
+  const tags = splitTags(image.tags);
+  if (tags.length > 0) {
+    properties.push(list('dc:subject', tags, 'Bag'));
+  }
+
+  if (image.city) properties.push(simple('photoshop:City', image.city));
+  if (image.country) properties.push(simple('photoshop:Country', image.country));
+  if (image.rights?.creditLine) properties.push(simple('photoshop:Credit', image.rights.creditLine));
+
+  const usageTerms = [...(image.rights?.usageTerms ?? []), ...(image.rights?.restrictions ?? [])];
+  if (usageTerms.length > 0) {
+    properties.push(langAlt('xmpRights:UsageTerms', usageTerms.join('. ')));
+  }
+
+  const namespaces = Object.entries(NAMESPACES)
+    .map(([prefix, uri]) => `    xmlns:${prefix}="${uri}"`)
+    .join('\n');
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    `${namespaces}>`,
+    ...properties,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * File name of an image's sidecar: the extracted canvas file's name with an .xmp extension
+ * (the pairing DAM tools look for), or the image ID when no canvas was extracted
+ */
+export function xmpSidecarName(image: Pick<ScrapedImage, 'imageId' | 'canvasImagePath'>): string {
+  const baseName = image.canvasImagePath
+    ? path.basename(image.canvasImagePath, path.extname(image.canvasImagePath))
+    : image.imageId.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return `${baseName}.xmp`;
+}
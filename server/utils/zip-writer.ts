@@ -0,0 +1,177 @@
+/**
+ * Streaming ZIP archive writer
+ * Writes entries to an output stream as they are added and the central directory on finish,
+ * so large bundles are never held in memory. No ZIP64: entries and archive stay under 4 GB.
+ */
+
+import type { Writable } from 'stream';
+import { crc32, deflateRawSync } from 'zlib';
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_VERSION = 20;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_ZIP_SIZE = 0xffffffff;
+
+export interface ZipEntryOptions {
+  // Store without compressing (already compressed data such as JPEG or WebP)
+  store?: boolean;
+  modifiedAt?: Date;
+}
+
+interface CentralDirectoryEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// MS-DOS time and date fields (2-second resolution, years from 1980)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private entries: CentralDirectoryEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private finished = false;
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Add a file to the archive
+   * @param name - path inside the archive, "/"-separated
+   */
+  async addFile(name: string, data: Buffer | string, options: ZipEntryOptions = {}): Promise<void> {
+    if (this.finished) {
+      throw new Error('Cannot add files to a finished ZIP archive');
+    }
+    if (this.names.has(name)) {
+      throw new Error(`Duplicate ZIP entry "${name}"`);
+    }
+
+    const content = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    const compressed = options.store ? null : deflateRawSync(content);
+    // Keep incompressible data stored rather than growing it
+    const body = compressed && compressed.length < content.length ? compressed : content;
+    const method = body === content ? STORED : DEFLATED;
+    const crc = crc32(content);
+    const fileName = Buffer.from(name, 'utf8');
+    const { time, date } = dosDateTime(options.modifiedAt ?? new Date());
+
+    if (this.offset + 30 + fileName.length + body.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB');
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    this.entries.push({
+      name: fileName,
+      method,
+      time,
+      date,
+      crc,
+      compressedSize: body.length,
+      size: content.length,
+      offset: this.offset,
+    });
+    this.names.add(name);
+
+    await this.write(Buffer.concat([header, fileName]));
+    await this.write(body);
+  }
+
+  /**
+   * Write the central directory and end the output stream
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(UTF8_NAMES, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, internal and external attributes stay 0
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    await new Promise<void>(resolve => this.output.end(resolve));
+  }
+
+  // Write respecting backpressure, so slow clients do not buffer the whole archive
+  private async write(chunk: Buffer): Promise<void> {
+    // A destroyed or ended stream never drains, so waiting on it would hang
+    this.assertWritable();
+    this.offset += chunk.length;
+    if (this.output.write(chunk)) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error) => {
+        this.output.off('drain', onDrain);
+        this.output.off('error', onError);
+        this.output.off('close', onClose);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onDrain = () => settle();
+      const onError = (error: Error) => settle(error);
+      // A client that disconnects never drains
+      const onClose = () => settle(new Error('ZIP output closed before the archive was finished'));
+      this.output.once('drain', onDrain);
+      this.output.once('error', onError);
+      this.output.once('close', onClose);
+      // Destroyed during the write, before the listeners were attached
+      if (this.output.destroyed) onClose();
+    });
+  }
+
+  private assertWritable(): void {
+    if (this.output.destroyed || this.output.writableEnded) {
+      throw new Error('ZIP output closed before the archive was finished');
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { createHmac, randomUUID } from "crypto";
+import type { ScrapeConfig, WebhookEvent } from "../shared/schema";
+import type { ScraperConfig } from "./types";
+import { storage } from "./storage";
+import { resolveWebhookUrlError } from "./utils/webhook-targets";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_DELAY_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent;
+  jobId: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+};
+
+/**
+ * HMAC-SHA256 signature sent in X-Webhook-Signature
+ * Receivers verify it over "<X-Webhook-Timestamp>.<raw body>" with the shared secret
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Webhook dispatcher - notifies the job's and the globally configured webhook URLs
+ * Deliveries run in the background, retry with exponential backoff and are recorded in webhook_deliveries
+ */
+class WebhookDispatcher {
+  private warnedAboutMissingSecret = false;
+
+  /**
+   * Queue a notification for every webhook URL of the job (never throws)
+   */
+  notify(
+    jobId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    jobConfig: ScrapeConfig,
+    scraperConfig: ScraperConfig | null
+  ): void {
+    const urls = new Set([...(scraperConfig?.webhooks?.urls ?? []), ...(jobConfig.webhooks?.urls ?? [])]);
+
+    for (const url of urls) {
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        event,
+        jobId,
+        timestamp: new Date().toISOString(),
+        data,
+      };
+
+      this.deliver(url, payload, scraperConfig).catch((error) => {
+        console.error(`⚠️  Webhook delivery ${payload.id} to ${url} could not be recorded:`, error instanceof Error ? error.message : error);
+      });
+    }
+  }
+
+  /**
+   * Progress notification interval in scraped images (0 = disabled)
+   */
+  getProgressInterval(jobConfig: ScrapeConfig, scraperConfig: ScraperConfig | null): number {
+    return jobConfig.webhooks?.progressEvery ?? scraperConfig?.webhooks?.progressEvery ?? 0;
+  }
+
+  private async deliver(url: string, payload: WebhookPayload, scraperConfig: ScraperConfig | null): Promise<void> {
+    const maxAttempts = scraperConfig?.webhooks?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const retryBaseDelayMs = scraperConfig?.webhooks?.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    const timeoutMs = scraperConfig?.webhooks?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const secret = process.env.WEBHOOK_SECRET || scraperConfig?.webhooks?.secret || "";
+
+    if (!secret && !this.warnedAboutMissingSecret) {
+      console.warn("⚠️  No webhook secret configured (WEBHOOK_SECRET or webhooks.secret) - payloads are sent unsigned");
+      this.warnedAboutMissingSecret = true;
+    }
+
+    await storage.createWebhookDelivery(payload.id, payload.jobId, payload.event, url, payload);
+
+    // Checked on every delivery: configured URLs skip the route checks and DNS answers can change
+    const targetError = await resolveWebhookUrlError(url, scraperConfig?.webhooks?.allowedHosts);
+    if (targetError) {
+      await storage.updateWebhookDelivery(payload.id, {
+        status: "failed",
+        attempts: 0,
+        lastStatusCode: null,
+        lastError: targetError,
+      });
+      console.error(`❌ Webhook ${payload.event} for job ${payload.jobId} not sent: ${targetError}`);
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    let lastStatusCode: number | null = null;
+    let lastError: string | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "User-Agent": "smartframe-scraper-webhooks",
+        "X-Webhook-Event": payload.event,
+        "X-Webhook-Delivery": payload.id,
+        "X-Webhook-Timestamp": timestamp,
+      };
+      if (secret) {
+        headers["X-Webhook-Signature"] = signWebhookPayload(secret, timestamp, body);
+      }
+
+      let retryable = true;
+      lastStatusCode = null;
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers,
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        lastStatusCode = response.status;
+        await response.arrayBuffer().catch(() => undefined);
+
+        if (response.ok) {
+          await storage.updateWebhookDelivery(payload.id, {
+            status: "delivered",
+            attempts: attempt,
+            lastStatusCode,
+            lastError: null,
+            deliveredAt: new Date(),
+          });
+          console.log(`📨 Webhook ${payload.event} for job ${payload.jobId} delivered to ${url}`);
+          return;
+        }
+
+        lastError = `HTTP ${response.status}`;
+        // Other client errors will not succeed on retry
+        retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      const finalAttempt = attempt === maxAttempts || !retryable;
+      await storage.updateWebhookDelivery(payload.id, {
+        status: finalAttempt ? "failed" : "pending",
+        attempts: attempt,
+        lastStatusCode,
+        lastError,
+      });
+
+      if (finalAttempt) break;
+
+      const delay = retryBaseDelayMs * Math.pow(2, attempt - 1);
+      console.log(`⚠️  Webhook ${payload.event} to ${url} failed (${lastError}, attempt ${attempt}/${maxAttempts}) - retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    console.error(`❌ Webhook ${payload.event} for job ${payload.jobId} to ${url} failed: ${lastError}`);
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
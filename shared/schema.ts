@@ -1,5 +1,36 @@
 import { z } from "zod";
 
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+// Search facets applied to SmartFrame search URLs before navigation
+export const searchFiltersSchema = z.object({
+  dateFrom: isoDateSchema.optional(),
+  dateTo: isoDateSchema.optional(),
+  photographer: z.string().trim().min(1).optional(),
+  collection: z.string().trim().min(1).optional(),
+}).refine(
+  (filters) => !filters.dateFrom || !filters.dateTo || filters.dateFrom <= filters.dateTo,
+  { message: "dateFrom must not be after dateTo", path: ["dateTo"] }
+);
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+// Per-job webhook targets, notified in addition to the globally configured ones
+export const jobWebhooksSchema = z.object({
+  urls: z
+    .array(
+      z
+        .string()
+        .url("Webhook URLs must be valid URLs")
+        .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https")
+    )
+    .max(10),
+  // Send a progress notification every N scraped images (0 or unset disables progress webhooks)
+  progressEvery: z.number().int().min(0).optional(),
+});
+
+export type JobWebhooks = z.infer<typeof jobWebhooksSchema>;
+
 export const scrapeConfigSchema = z.object({
   url: z.string().url("Please enter a valid URL"),
   maxImages: z.number().min(0).max(5000).default(0),
@@ -7,15 +38,57 @@ export const scrapeConfigSchema = z.object({
   sortBy: z.enum(["relevance", "newest", "oldest"]).default("relevance"),
   autoScroll: z.boolean().default(true),
   scrollDelay: z.number().min(500).max(5000).default(1000),
-  concurrency: z.number().min(1).max(20).default(5),
+  concurrency: z.number().min(1).max(20).default(1),
   canvasExtraction: z.enum(["none", "thumbnail", "full"]).default("none"),
+  // "http" reads image pages without a browser (metadata-only jobs); the browser is used only as a fallback
+  metadataMode: z.enum(["browser", "http"]).default("browser").optional(),
   orderedSequential: z.boolean().default(false).optional(),
   interTabDelayMin: z.number().min(1000).max(10000).default(3000).optional(),
   interTabDelayMax: z.number().min(1000).max(10000).default(5000).optional(),
+  filters: searchFiltersSchema.optional(),
+  webhooks: jobWebhooksSchema.optional(),
+  // Re-scrape images already in the catalog and record metadata changes as revisions
+  recheckKnownImages: z.boolean().default(false).optional(),
+  // Parse captions with this locale pack instead of caption.defaultLocale
+  captionLocale: z.string().min(1).optional(),
 });
 
 export type ScrapeConfig = z.infer<typeof scrapeConfigSchema>;
 
+export const labelValueSchema = z.object({ label: z.string(), value: z.string() });
+export type LabelValue = z.infer<typeof labelValueSchema>;
+
+// Page data the clean fields are derived from, kept so jobs can be re-normalized without re-scraping
+export const rawMetadataSchema = z.object({
+  title: z.string().nullable(),
+  caption: z.string().nullable(),
+  keywords: z.array(z.string()),
+  labelValues: z.array(labelValueSchema),
+  contentPartner: z.string().nullable(),
+  city: z.string().nullable(),
+  country: z.string().nullable(),
+  nextData: z.unknown().optional(),
+  // JSON intercepted from SmartFrame API responses (null when nothing was intercepted)
+  networkMetadata: z.record(z.unknown()).nullable(),
+});
+export type RawMetadata = z.infer<typeof rawMetadataSchema>;
+
+// Rights and licensing parsed from the copyright, credit and caption text (see rights-parser.ts)
+export const imageRightsSchema = z.object({
+  // Agency of a "Photographer/Agency" credit, otherwise the copyright owner
+  rightsHolder: z.string().nullable(),
+  year: z.number().int().nullable(),
+  agency: z.string().nullable(),
+  creditLine: z.string().nullable(),
+  // Canonical terms: "Editorial use only", "Royalty free", "CC BY-NC 4.0", ...
+  usageTerms: z.array(z.string()),
+  // Restriction wording as written: "No sales", "Not for use in France", ...
+  restrictions: z.array(z.string()),
+  // ISO 8601 date or timestamp before which the image may not be published
+  embargoUntil: z.string().nullable(),
+});
+export type ImageRights = z.infer<typeof imageRightsSchema>;
+
 export const scrapedImageSchema = z.object({
   imageId: z.string(),
   hash: z.string(),
@@ -32,14 +105,318 @@ export const scrapedImageSchema = z.object({
   authors: z.string().nullable(),
   dateTaken: z.string().nullable(),
   copyright: z.string().nullable(),
+  
+  // Structured location, event and credit fields (also folded into the generated caption)
+  city: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
+  location: z.string().nullable().optional(),
+  event: z.string().nullable().optional(),
+  contentPartner: z.string().nullable().optional(),
+  featuring: z.string().nullable().optional(),
+  
+  // Individual person names from featuring/subject, canonicalized (see person-names.ts)
+  people: z.array(z.string()).nullable().optional(),
+
+  // EDTF form of dateTaken, keeping seasons, decades and approximate dates (see date-normalization.ts)
+  dateTakenEdtf: z.string().nullable().optional(),
+
+  // Rights holder, usage terms, restrictions and embargo (null when the text names none)
+  rights: imageRightsSchema.nullable().optional(),
+  
+  // Local path of the extracted canvas image, when canvas extraction succeeded
+  canvasImagePath: z.string().nullable().optional(),
+  
+  // Raw page metadata (only included in JSON exports)
+  rawMetadata: rawMetadataSchema.nullable().optional(),
 });
 
 export type ScrapedImage = z.infer<typeof scrapedImageSchema>;
 
+// Catalog record of an image across all jobs (GET /api/images/:imageId)
+export const catalogImageSchema = scrapedImageSchema.extend({
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+  // Last time a re-scrape found different metadata (null if it never changed)
+  lastChangedAt: z.string().nullable(),
+  jobIds: z.array(z.string()),
+});
+
+export type CatalogImage = z.infer<typeof catalogImageSchema>;
+
+export const cleanMetadataFieldSchema = z.enum([
+  "titleField",
+  "subjectField",
+  "tags",
+  "comments",
+  "authors",
+  "dateTaken",
+  "copyright",
+]);
+export type CleanMetadataField = z.infer<typeof cleanMetadataFieldSchema>;
+
+export const structuredMetadataFieldSchema = z.enum([
+  "city",
+  "country",
+  "location",
+  "event",
+  "contentPartner",
+  "featuring",
+]);
+export type StructuredMetadataField = z.infer<typeof structuredMetadataFieldSchema>;
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// One rule mapping SmartFrame metadata labels to image fields (label-mappings.json)
+export const labelMappingRuleSchema = z.object({
+  // Exact label names, compared case-insensitively
+  aliases: z.array(z.string().min(1)).default([]),
+  // Regular expression tested case-insensitively against the label
+  pattern: z.string().refine(isValidRegex, "Invalid regular expression").optional(),
+  // Only apply when the value matches this regular expression
+  valuePattern: z.string().refine(isValidRegex, "Invalid regular expression").optional(),
+  fields: z.array(z.union([cleanMetadataFieldSchema, structuredMetadataFieldSchema])).min(1),
+  // first-wins keeps the first value in precedence order, append joins all of them
+  mode: z.enum(["first-wins", "append"]).default("first-wins"),
+  separator: z.string().default(", "),
+  transform: z.enum(["date", "location-city", "location-country"]).optional(),
+  // Rules with higher precedence are applied first (ties keep file order)
+  precedence: z.number().int().default(0),
+}).refine((rule) => rule.aliases.length > 0 || rule.pattern !== undefined, {
+  message: "A rule needs aliases or a pattern",
+});
+export type LabelMappingRule = z.infer<typeof labelMappingRuleSchema>;
+
+// Body of PUT /api/label-mappings
+export const labelMappingRulesSchema = z.object({
+  rules: z.array(labelMappingRuleSchema),
+});
+
+// A SmartFrame label that no rule maps (GET /api/scrape/job/:jobId/unmapped-labels)
+export const unmappedLabelSchema = z.object({
+  label: z.string(),
+  count: z.number(),
+  sampleValue: z.string(),
+});
+export type UnmappedLabel = z.infer<typeof unmappedLabelSchema>;
+
+const localeLabelsSchema = z.array(z.string().trim().min(1)).min(1);
+
+// A caption locale pack (locales/<code>.json or .yaml); the code comes from the file name
+export const localePackSchema = z.object({
+  code: z.string().regex(/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/, "Locale codes look like 'it' or 'pt-BR'"),
+  name: z.string().trim().min(1),
+  // Caption labels, matched at the start of a line with or without a trailing colon
+  featuring: localeLabelsSchema,
+  where: localeLabelsSchema,
+  when: localeLabelsSchema,
+  credit: localeLabelsSchema,
+  // Month names by month, January first; each month may list several forms
+  months: z.array(z.array(z.string().trim().min(1)).min(1)).length(12).optional(),
+  // Frequent short words, used to detect the language of captions
+  stopwords: z.array(z.string().trim().min(1)).optional(),
+});
+export type LocalePack = z.infer<typeof localePackSchema>;
+
+// Canonical person name -> other spellings (person-aliases.json, GET/PUT /api/person-aliases)
+export const personAliasesSchema = z.object({
+  aliases: z.record(z.string().trim().min(1), z.array(z.string().trim().min(1))),
+});
+export type PersonAliases = z.infer<typeof personAliasesSchema>["aliases"];
+
+const tagListSchema = z.array(z.string().trim().min(1));
+
+// Tag normalization rules (tag-taxonomy.json, GET/PUT /api/tag-taxonomy)
+export const tagTaxonomySchema = z.object({
+  // Canonical tag -> other spellings merged into it
+  synonyms: z.record(z.string().trim().min(1), tagListSchema).default({}),
+  // Tags dropped from every image, compared like synonyms (case and accents ignored)
+  stopwords: tagListSchema.default([]),
+  // Category -> tags in it; "Sport/Football" is a subcategory of "Sport"
+  categories: z.record(z.string().trim().min(1), tagListSchema).default({}),
+  // Tags shorter than this, or without any letter or digit, are dropped as junk (no junk filtering when unset)
+  minTagLength: z.number().int().min(1).optional(),
+  // Keep at most this many tags per image, in source order
+  maxTags: z.number().int().min(1).optional(),
+});
+export type TagTaxonomy = z.infer<typeof tagTaxonomySchema>;
+
+export const tagReportQuerySchema = z.object({
+  // Job to report on (the whole catalog when omitted)
+  jobId: z.string().trim().optional().transform((value) => value || undefined),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+export type TagReportQuery = z.infer<typeof tagReportQuerySchema>;
+
+// Tag frequency across a job or the catalog (GET /api/tags/report)
+export const tagReportSchema = z.object({
+  jobId: z.string().nullable(),
+  totalImages: z.number(),
+  imagesWithTags: z.number(),
+  distinctTags: z.number(),
+  tags: z.array(z.object({
+    tag: z.string(),
+    count: z.number(),
+    // Stored spellings the taxonomy merges into this tag
+    variants: z.array(z.string()),
+    categories: z.array(z.string()),
+  })),
+  categories: z.array(z.object({
+    category: z.string(),
+    // Images with a tag in the category or one of its subcategories
+    count: z.number(),
+  })),
+});
+export type TagReport = z.infer<typeof tagReportSchema>;
+
+// Entry of GET /api/locales
+export const localeInfoSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+});
+export type LocaleInfo = z.infer<typeof localeInfoSchema>;
+
+// Query string of GET /api/scrape/job/:jobId/images
+export const jobImagesQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  q: z.string().trim().optional().transform((value) => value || undefined),
+  hasCanvas: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  missingField: cleanMetadataFieldSchema.optional(),
+  // Only images whose metadata changed at or after this time
+  changedSince: z.coerce.date().optional(),
+  // Only images featuring this person (matched after alias resolution)
+  person: z.string().trim().optional().transform((value) => value || undefined),
+});
+export type JobImagesQuery = z.infer<typeof jobImagesQuerySchema>;
+
+// One changed field between two scraped versions of an image
+export const metadataFieldChangeSchema = z.object({
+  field: z.union([cleanMetadataFieldSchema, structuredMetadataFieldSchema, z.literal("labelValues"), z.literal("caption"), z.literal("people"), z.literal("dateTakenEdtf"), z.literal("rights")]),
+  before: z.string().nullable(),
+  after: z.string().nullable(),
+});
+export type MetadataFieldChange = z.infer<typeof metadataFieldChangeSchema>;
+
+// A scraped version of an image (GET /api/images/:imageId/history)
+export const imageRevisionSchema = z.object({
+  id: z.string(),
+  imageId: z.string(),
+  titleField: z.string().nullable(),
+  subjectField: z.string().nullable(),
+  tags: z.string().nullable(),
+  comments: z.string().nullable(),
+  authors: z.string().nullable(),
+  dateTaken: z.string().nullable(),
+  copyright: z.string().nullable(),
+  labelValues: z.array(labelValueSchema).nullable(),
+  // Raw SmartFrame caption (null for versions not scraped from a page)
+  caption: z.string().nullable(),
+  // Empty for the first revision of an image
+  changes: z.array(metadataFieldChangeSchema),
+  createdAt: z.string(),
+});
+export type ImageRevision = z.infer<typeof imageRevisionSchema>;
+
+// Body of POST /api/scrape/job/:jobId/renormalize
+export const renormalizeJobRequestSchema = z.object({
+  // Report the changes without writing them
+  dryRun: z.boolean().default(false),
+});
+export type RenormalizeJobRequest = z.infer<typeof renormalizeJobRequestSchema>;
+
+// Re-normalization result of one image whose clean fields changed
+export const renormalizedImageSchema = z.object({
+  imageId: z.string(),
+  // "raw" when rebuilt from stored raw page metadata, "stored" when re-normalized from the clean fields
+  source: z.enum(["raw", "stored"]),
+  changes: z.array(metadataFieldChangeSchema),
+});
+export type RenormalizedImage = z.infer<typeof renormalizedImageSchema>;
+
+export const renormalizeReportSchema = z.object({
+  jobId: z.string(),
+  dryRun: z.boolean(),
+  totalImages: z.number(),
+  changedImages: z.number(),
+  // Number of images whose value changed, per field
+  fieldCounts: z.record(z.number()),
+  images: z.array(renormalizedImageSchema),
+});
+export type RenormalizeReport = z.infer<typeof renormalizeReportSchema>;
+
+export const qualityIssueTypeSchema = z.enum([
+  "missingField",
+  "shortTitle",
+  "mojibake",
+  "unparsedDate",
+  "duplicateCaption",
+]);
+export type QualityIssueType = z.infer<typeof qualityIssueTypeSchema>;
+
+export const qualityIssueSchema = z.object({
+  type: qualityIssueTypeSchema,
+  // Field the issue was found in (the caption's field for duplicate captions)
+  field: cleanMetadataFieldSchema,
+});
+export type QualityIssue = z.infer<typeof qualityIssueSchema>;
+
+// Quality score of one image, 100 when no issue was found
+export const imageQualitySchema = z.object({
+  imageId: z.string(),
+  score: z.number(),
+  issues: z.array(qualityIssueSchema),
+});
+export type ImageQuality = z.infer<typeof imageQualitySchema>;
+
+// Query string of GET /api/scrape/job/:jobId/quality
+export const jobQualityQuerySchema = z.object({
+  // Images scoring below this are reported as low quality
+  threshold: z.coerce.number().int().min(0).max(100).default(70),
+});
+export type JobQualityQuery = z.infer<typeof jobQualityQuerySchema>;
+
+export const jobQualityReportSchema = z.object({
+  jobId: z.string(),
+  threshold: z.number(),
+  totalImages: z.number(),
+  averageScore: z.number(),
+  lowQualityImages: z.number(),
+  // Number of images with at least one issue of each type
+  issueCounts: z.record(qualityIssueTypeSchema, z.number()),
+  // Number of images missing each clean field
+  missingFieldCounts: z.record(cleanMetadataFieldSchema, z.number()),
+  // Low-quality images, worst first
+  images: z.array(imageQualitySchema),
+});
+export type JobQualityReport = z.infer<typeof jobQualityReportSchema>;
+
+// Query string of GET /api/images
+export const catalogImagesQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  changedSince: z.coerce.date().optional(),
+  person: z.string().trim().optional().transform((value) => value || undefined),
+});
+export type CatalogImagesQuery = z.infer<typeof catalogImagesQuerySchema>;
+
+export const jobLinkStatusSchema = z.enum(["pending", "done", "failed"]);
+export type JobLinkStatus = z.infer<typeof jobLinkStatusSchema>;
+
 export const scrapeJobSchema = z.object({
   id: z.string(),
   url: z.string().url(),
-  status: z.enum(["pending", "scraping", "completed", "error"]),
+  status: z.enum(["pending", "scraping", "paused", "completed", "cancelled", "error"]),
+  // URL actually navigated to after sort order and search facets were applied
+  effectiveUrl: z.string().nullable(),
+  // Schedule that created the job (null for jobs started by hand)
+  scheduleId: z.string().nullable(),
   progress: z.number().min(0).max(100),
   totalImages: z.number(),
   scrapedImages: z.number(),
@@ -52,5 +429,131 @@ export const scrapeJobSchema = z.object({
 
 export type ScrapeJob = z.infer<typeof scrapeJobSchema>;
 
-export const exportFormatSchema = z.enum(["json", "csv"]);
+// Job without its images, as returned by GET /api/scrape/jobs
+export type ScrapeJobSummary = Omit<ScrapeJob, "images">;
+
+// Recurring scrape: a cron expression plus the config every run is started with
+export const scheduledScrapeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  config: scrapeConfigSchema,
+  enabled: z.boolean(),
+  lastRunAt: z.string().nullable(),
+  nextRunAt: z.string().nullable(),
+  lastJobId: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type ScheduledScrape = z.infer<typeof scheduledScrapeSchema>;
+
+// Body of POST /api/schedules (cron syntax is validated on the server)
+export const insertScheduledScrapeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  cron: z.string().trim().min(1, "Cron expression is required"),
+  config: scrapeConfigSchema,
+  enabled: z.boolean().default(true),
+});
+
+export type InsertScheduledScrape = z.infer<typeof insertScheduledScrapeSchema>;
+
+// Body of PATCH /api/schedules/:id
+export const updateScheduledScrapeSchema = insertScheduledScrapeSchema.partial();
+export type UpdateScheduledScrape = z.infer<typeof updateScheduledScrapeSchema>;
+
+export const webhookEventSchema = z.enum(["completed", "error", "progress"]);
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+export const webhookDeliveryStatusSchema = z.enum(["pending", "delivered", "failed"]);
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+// One webhook notification and the outcome of its delivery attempts
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  event: webhookEventSchema,
+  url: z.string(),
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number(),
+  lastStatusCode: z.number().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.string(),
+  deliveredAt: z.string().nullable(),
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+// "xmp" is a ZIP of one XMP sidecar per image, "zip" the full bundle (see exportManifestSchema)
+export const exportFormatSchema = z.enum(["json", "csv", "xmp", "zip"]);
 export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+// manifest.json of a ZIP bundle export
+export const exportManifestSchema = z.object({
+  jobId: z.string(),
+  url: z.string(),
+  createdAt: z.string(),
+  totalImages: z.number(),
+  // Every other entry of the archive with its size in bytes and SHA-256 checksum
+  files: z.array(z.object({
+    path: z.string(),
+    size: z.number(),
+    sha256: z.string(),
+  })),
+  // Images whose extracted canvas file is no longer on disk
+  missingImages: z.array(z.string()),
+});
+export type ExportManifest = z.infer<typeof exportManifestSchema>;
+
+// Server-sent events streamed from GET /api/scrape/job/:jobId/events
+export type JobEvent =
+  | {
+      type: "status";
+      jobId: string;
+      status: ScrapeJob["status"];
+      error?: string | null;
+    }
+  | {
+      type: "progress";
+      jobId: string;
+      progress: number;
+      scrapedImages: number;
+      totalImages: number;
+    }
+  | {
+      type: "image-added";
+      jobId: string;
+      image: ScrapedImage;
+    }
+  | {
+      type: "image-failed";
+      jobId: string;
+      imageId: string;
+      url: string;
+      reason: string;
+    }
+  | {
+      type: "retry-round-started";
+      jobId: string;
+      round: number;
+      maxRounds: number;
+      failedImages: number;
+    }
+  | {
+      type: "tab-throughput";
+      jobId: string;
+      tabs: Array<{
+        tab: number;
+        processed: number;
+        failed: number;
+        averageSeconds: number;
+        imagesPerMinute: number;
+      }>;
+    }
+  | {
+      type: "completed";
+      jobId: string;
+      scrapedImages: number;
+      completedAt: string;
+    };
+
+export type JobEventType = JobEvent["type"];
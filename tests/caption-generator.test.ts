@@ -0,0 +1,95 @@
+import {
+  generateCaption,
+  compileCaptionTemplate,
+  renderCaptionTemplate,
+  CaptionTemplateError,
+  DEFAULT_CAPTION_TEMPLATE,
+} from '../server/utils/caption-generator';
+import { loadCaptionTemplates } from '../server/utils/config-loader';
+import type { ScraperConfig } from '../server/types';
+
+describe('Caption generation', () => {
+  it('should keep the fixed Featuring/Where/When/Credit layout', () => {
+    const caption = generateCaption({
+      title: 'Lee outside ITV Studios',
+      featuring: 'Lee Latchford-Evans',
+      city: 'London',
+      country: 'United Kingdom',
+      dateTaken: '2016-07-18',
+      photographer: 'Rocky',
+      copyright: 'Rocky/WENN.com',
+    });
+
+    expect(caption).toBe([
+      'Lee outside ITV Studios',
+      'Featuring: Lee Latchford-Evans',
+      'Where: London, United Kingdom',
+      'When: 2016-07-18',
+      'Credit: Rocky/WENN.com',
+    ].join('\n'));
+  });
+
+  it('should leave out missing fields without blank lines', () => {
+    expect(generateCaption({ title: 'Premiere', country: 'France', photographer: 'Jane Doe' }))
+      .toBe('Premiere\nWhere: France\nCredit: Jane Doe');
+    expect(generateCaption({})).toBe('');
+  });
+});
+
+describe('Caption templates', () => {
+  const data = {
+    title: 'Film premiere',
+    featuring: 'Anna Schmidt',
+    city: 'Berlin',
+    country: 'Germany',
+    dateTaken: '2024-09-05',
+    photographer: 'Foto Agentur',
+    event: 'Berlinale',
+  };
+
+  it('should substitute fields and derived location and credit', () => {
+    expect(renderCaptionTemplate('{{featuring}} at {{event}}, {{location}} ({{credit}})', data))
+      .toBe('Anna Schmidt at Berlinale, Berlin, Germany (Foto Agentur)');
+  });
+
+  it('should prefer the stored location and copyright', () => {
+    expect(renderCaptionTemplate('{{location}} / {{credit}}', { ...data, location: 'Zoo Palast', copyright: '© Agentur' }))
+      .toBe('Zoo Palast / © Agentur');
+  });
+
+  it('should render sections only when the field has a value', () => {
+    const template = '{{title}}{{#tags}} [{{tags}}]{{/tags}}{{^tags}} (untagged){{/tags}}';
+
+    expect(renderCaptionTemplate(template, data)).toBe('Film premiere (untagged)');
+    expect(renderCaptionTemplate(template, { ...data, tags: 'film, premiere' })).toBe('Film premiere [film, premiere]');
+  });
+
+  it('should drop lines holding only a section tag', () => {
+    const template = 'Title: {{title}}\n{{#copyright}}\nCopyright: {{copyright}}\n{{/copyright}}\nBy {{photographer}}';
+
+    expect(renderCaptionTemplate(template, data)).toBe('Title: Film premiere\nBy Foto Agentur');
+  });
+
+  it('should reject unknown fields and unbalanced sections', () => {
+    expect(() => compileCaptionTemplate('{{headline}}')).toThrow(CaptionTemplateError);
+    expect(() => compileCaptionTemplate('{{#title}}{{title}}')).toThrow('Unclosed section');
+    expect(() => compileCaptionTemplate('{{#title}}{{/event}}')).toThrow('Unexpected');
+  });
+
+  it('should load configured templates next to the default one and skip invalid ones', () => {
+    const config = {
+      caption: {
+        templates: {
+          compact: '{{title}} - {{featuring}}',
+          broken: '{{#title}}',
+          'bad name': '{{title}}',
+        },
+      },
+    } as unknown as ScraperConfig;
+
+    expect(loadCaptionTemplates(config)).toEqual({
+      default: DEFAULT_CAPTION_TEMPLATE,
+      compact: '{{title}} - {{featuring}}',
+    });
+  });
+});
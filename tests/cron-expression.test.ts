@@ -0,0 +1,39 @@
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from '../server/utils/cron-expression';
+
+describe('Cron expressions', () => {
+  // Local time, matching how schedules are evaluated on the server
+  const from = new Date(2024, 0, 15, 10, 30); // Monday 15 Jan 2024, 10:30
+
+  it('should find the next daily run', () => {
+    expect(getNextCronRun('0 7 * * *', from)).toEqual(new Date(2024, 0, 16, 7, 0));
+    expect(getNextCronRun('@daily', from)).toEqual(new Date(2024, 0, 16, 0, 0));
+  });
+
+  it('should support steps, ranges and weekday names', () => {
+    expect(getNextCronRun('*/15 * * * *', from)).toEqual(new Date(2024, 0, 15, 10, 45));
+    expect(getNextCronRun('0 9 * * sat,sun', from)).toEqual(new Date(2024, 0, 20, 9, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month OR Friday - Friday 19 Jan comes first
+    expect(getNextCronRun('0 0 1 * 5', from)).toEqual(new Date(2024, 0, 19, 0, 0));
+  });
+
+  it('should treat a day field starting with * as unrestricted', () => {
+    // Only Fridays - '*/1' does not widen the match to every day of the month
+    expect(getNextCronRun('0 0 */1 * 5', from)).toEqual(new Date(2024, 0, 19, 0, 0));
+    // Odd days of the month only - '*/1' does not widen the match to every weekday
+    expect(getNextCronRun('0 0 */2 * */1', from)).toEqual(new Date(2024, 0, 17, 0, 0));
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(isValidCronExpression('0 7 * *')).toBe(false);
+    expect(isValidCronExpression('61 * * * *')).toBe(false);
+    expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 7 * * mon-fri')).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { normalizeDate, parseDate } from '../server/utils/date-normalization';
+import { transformToCleanMetadata } from '../server/utils/metadata-normalizer';
+
+describe('Date parsing', () => {
+  it('should parse full dates in many formats', () => {
+    expect(parseDate('25 August 2012')).toMatchObject({ start: '2012-08-25', end: '2012-08-25', precision: 'day', iso: '2012-08-25' });
+    expect(parseDate('January 20th, 2024')?.iso).toBe('2024-01-20');
+    expect(parseDate('12/06/2023')?.iso).toBe('2023-06-12');
+    expect(parseDate('0012-08-25')?.iso).toBe('2012-08-25');
+  });
+
+  it('should keep the precision of partial dates', () => {
+    expect(parseDate('June 2023')).toMatchObject({ precision: 'month', start: '2023-06-01', end: '2023-06-30', iso: '2023-06', edtf: '2023-06' });
+    expect(parseDate('1985')).toMatchObject({ precision: 'year', start: '1985-01-01', end: '1985-12-31', iso: '1985' });
+    expect(parseDate('Summer 1985')).toMatchObject({
+      precision: 'season', start: '1985-06-01', end: '1985-08-31', iso: '1985-06/1985-08', edtf: '1985-22',
+    });
+    expect(parseDate('winter 2020')).toMatchObject({ start: '2020-12-01', end: '2021-02-28', edtf: '2020-24' });
+    expect(parseDate('the 1960s')).toMatchObject({ precision: 'decade', iso: '1960/1969', edtf: '196X' });
+  });
+
+  it('should mark approximate and uncertain dates', () => {
+    expect(parseDate('c. 1970s')).toMatchObject({
+      precision: 'decade', approximate: true, start: '1970-01-01', end: '1979-12-31', iso: '1970/1979', edtf: '197X~',
+    });
+    expect(parseDate('circa 1900')).toMatchObject({ approximate: true, iso: '1900', edtf: '1900~' });
+    expect(parseDate('1985?')).toMatchObject({ uncertain: true, approximate: false, edtf: '1985?' });
+  });
+
+  it('should parse ranges', () => {
+    expect(parseDate('12-14 June 2023')).toMatchObject({
+      precision: 'day', interval: true, start: '2023-06-12', end: '2023-06-14', iso: '2023-06-12/2023-06-14',
+    });
+    expect(parseDate('June 12-14, 2023')?.iso).toBe('2023-06-12/2023-06-14');
+    expect(parseDate('12 June - 3 July 2023')?.iso).toBe('2023-06-12/2023-07-03');
+    expect(parseDate('1985-87')).toMatchObject({ precision: 'year', iso: '1985/1987' });
+    expect(parseDate('c. 1970-1975')?.edtf).toBe('1970~/1975~');
+    expect(parseDate('14 June - 12 June 2023')).toBeNull();
+  });
+
+  it('should keep time zones of timestamps', () => {
+    expect(parseDate('2023-06-12T18:30:00+0200')).toMatchObject({
+      precision: 'time', timezone: '+02:00', iso: '2023-06-12T18:30:00+02:00',
+    });
+    expect(parseDate('2023:06:12 18:30:00')).toMatchObject({ timezone: null, iso: '2023-06-12T18:30:00' });
+    expect(parseDate('2023-06-12 18:30Z')?.timezone).toBe('Z');
+  });
+
+  it('should read back its own EDTF output', () => {
+    for (const text of ['c. 1970s', 'Summer 1985', '12-14 June 2023', 'c. 1970-1975', '1985?']) {
+      const parsed = parseDate(text)!;
+      expect(parseDate(normalizeDate(text))).toMatchObject({
+        start: parsed.start, end: parsed.end, precision: parsed.precision, iso: parsed.iso, edtf: parsed.edtf,
+      });
+    }
+  });
+
+  it('should return null for text that is not a date', () => {
+    expect(parseDate('random text')).toBeNull();
+    expect(parseDate('')).toBeNull();
+    expect(normalizeDate(null)).toBeNull();
+  });
+
+  it('should store ISO 8601 and EDTF forms in clean metadata', () => {
+    const clean = transformToCleanMetadata({ title: 'Festival crowd', dateTaken: 'Summer 1985' });
+    expect(clean.dateTaken).toBe('1985-06/1985-08');
+    expect(clean.dateTakenEdtf).toBe('1985-22');
+  });
+});
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { canvasImageFiles, uniqueEntryNames, writeExportBundle } from '../server/utils/export-bundle';
+import { xmpSidecarName } from '../server/utils/xmp-sidecar';
+import { readZip, scrapedImage } from './fixtures';
+
+describe('ZIP bundle export', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-bundle-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should find archived original PNGs next to the canvas image', () => {
+    const canvas = path.join(outputDir, 'abc_canvas_full.jpg');
+    fs.writeFileSync(canvas, 'jpeg');
+    fs.writeFileSync(path.join(outputDir, 'abc_canvas_full_original.png'), 'png');
+
+    expect(canvasImageFiles(canvas)).toEqual([canvas, path.join(outputDir, 'abc_canvas_full_original.png')]);
+    expect(canvasImageFiles(path.join(outputDir, 'gone_canvas_full.jpg'))).toEqual([]);
+  });
+
+  it('should bundle the exports, images, sidecars and a checksum manifest', async () => {
+    const canvas = path.join(outputDir, 'abc_canvas_full.webp');
+    fs.writeFileSync(canvas, Buffer.from([0x52, 0x49, 0x46, 0x46]));
+
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+
+    const manifest = await writeExportBundle(output, {
+      jobId: 'job-1',
+      url: 'https://smartframe.io/search',
+      csv: 'ImageID\nabc\n',
+      json: '{"jobId":"job-1"}',
+      images: [
+        scrapedImage({ imageId: 'abc', canvasImagePath: canvas }),
+        scrapedImage({ imageId: 'def', canvasImagePath: null }),
+        scrapedImage({ imageId: 'ghi', canvasImagePath: path.join(outputDir, 'ghi_canvas_full.jpg') }),
+      ],
+      includeXmp: true,
+    });
+    const entries = readZip(Buffer.concat(chunks));
+
+    expect(Array.from(entries.keys())).toEqual([
+      'smartframe-export-job-1.csv',
+      'smartframe-export-job-1.json',
+      'images/abc_canvas_full.webp',
+      'images/abc_canvas_full.xmp',
+      'images/def.xmp',
+      'images/ghi_canvas_full.xmp',
+      'manifest.json',
+    ]);
+    expect(entries.get('images/abc_canvas_full.webp')).toEqual(fs.readFileSync(canvas));
+    expect(manifest.missingImages).toEqual(['ghi']);
+    expect(JSON.parse(entries.get('manifest.json')!.toString())).toEqual(manifest);
+
+    for (const file of manifest.files) {
+      const data = entries.get(file.path)!;
+      expect(file.size).toBe(data.length);
+      expect(file.sha256).toBe(createHash('sha256').update(data).digest('hex'));
+    }
+  });
+
+  it('should leave out sidecars unless asked for', async () => {
+    const output = new PassThrough().resume();
+    const manifest = await writeExportBundle(output, {
+      jobId: 'job-1', url: 'https://smartframe.io/search', csv: '', json: '{}', images: [scrapedImage({ imageId: 'def', canvasImagePath: null })], includeXmp: false,
+    });
+
+    expect(manifest.files.map(file => file.path)).toEqual(['smartframe-export-job-1.csv', 'smartframe-export-job-1.json']);
+  });
+
+  it('should prefix clashing image names with the image ID, keeping sidecars paired', async () => {
+    fs.mkdirSync(path.join(outputDir, 'a'));
+    fs.mkdirSync(path.join(outputDir, 'b'));
+    fs.writeFileSync(path.join(outputDir, 'a', 'abc_canvas_full.jpg'), 'first');
+    fs.writeFileSync(path.join(outputDir, 'b', 'abc_canvas_full.jpg'), 'second');
+
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+
+    const manifest = await writeExportBundle(output, {
+      jobId: 'job-1',
+      url: 'https://smartframe.io/search',
+      csv: '',
+      json: '{}',
+      images: [
+        scrapedImage({ imageId: 'abc', canvasImagePath: path.join(outputDir, 'a', 'abc_canvas_full.jpg') }),
+        scrapedImage({ imageId: 'abc', canvasImagePath: path.join(outputDir, 'b', 'abc_canvas_full.jpg') }),
+        scrapedImage({ imageId: 'x/y', canvasImagePath: null }),
+        scrapedImage({ imageId: 'x_y', canvasImagePath: null }),
+      ],
+      includeXmp: true,
+    });
+    const entries = readZip(Buffer.concat(chunks));
+
+    expect(manifest.files.map(file => file.path).slice(2)).toEqual([
+      'images/abc_canvas_full.jpg',
+      'images/abc_canvas_full.xmp',
+      'images/abc_abc_canvas_full.jpg',
+      'images/abc_abc_canvas_full.xmp',
+      'images/x_y.xmp',
+      'images/x_y_x_y.xmp',
+    ]);
+    expect(entries.get('images/abc_abc_canvas_full.jpg')!.toString()).toBe('second');
+  });
+
+  it('should keep sidecar names unique when only sidecars are archived', () => {
+    const usedNames = new Set<string>();
+    const names = [
+      scrapedImage({ imageId: 'x/y', canvasImagePath: null }),
+      scrapedImage({ imageId: 'x_y', canvasImagePath: null }),
+      scrapedImage({ imageId: 'x_y', canvasImagePath: null }),
+    ].flatMap(image => uniqueEntryNames(usedNames, image.imageId, [xmpSidecarName(image)]));
+
+    expect(names).toEqual(['x_y.xmp', 'x_y_x_y.xmp', 'x_y-2_x_y.xmp']);
+  });
+
+  it('should stop without reading more images once the output is closed', async () => {
+    const canvas = path.join(outputDir, 'abc_canvas_full.jpg');
+    fs.writeFileSync(canvas, 'jpeg');
+    const output = new PassThrough();
+    output.destroy();
+
+    await expect(writeExportBundle(output, {
+      jobId: 'job-1', url: 'https://smartframe.io/search', csv: '', json: '{}', images: [scrapedImage({ imageId: 'abc', canvasImagePath: canvas })], includeXmp: false,
+    })).rejects.toThrow('closed');
+  });
+});
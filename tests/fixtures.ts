@@ -0,0 +1,51 @@
+/**
+ * Shared test fixtures: a fully described scraped image and a reader for ZIP archives
+ */
+
+import { inflateRawSync } from 'zlib';
+import type { ScrapedImage } from '../shared/schema';
+
+// Every clean field filled in; the URLs and SmartFrame ID follow the image ID
+export function scrapedImage(overrides: Partial<ScrapedImage> = {}): ScrapedImage {
+  const imageId = overrides.imageId ?? 'img-1';
+  return {
+    imageId,
+    hash: 'hash',
+    url: `https://smartframe.io/image/${imageId}`,
+    copyLink: `https://smartframe.io/image/${imageId}`,
+    smartframeId: imageId,
+    thumbnailUrl: null,
+    titleField: 'Harry Styles arrives at the premiere',
+    subjectField: 'Harry Styles',
+    tags: 'Premiere; Film & TV',
+    comments: 'Harry Styles at the "My Policeman" premiere <London>\n\nAuthor: Jane Doe',
+    authors: 'Jane Doe',
+    dateTaken: '2022-10-15',
+    dateTakenEdtf: '2022-10-15',
+    copyright: '© 2022 Jane Doe/WENN',
+    ...overrides,
+  };
+}
+
+// Entries read back through the central directory
+export function readZip(archive: Buffer): Map<string, Buffer> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const entries = new Map<string, Buffer>();
+  let offset = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? inflateRawSync(data) : data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
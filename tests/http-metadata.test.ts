@@ -0,0 +1,57 @@
+import { parseImagePageHtml, extractNextData } from '../server/utils/http-metadata';
+
+describe('HTTP metadata parser', () => {
+  const page = `
+    <html><body>
+      <h1>WENN</h1>
+      <h1>Premiere of &quot;Film&quot; &amp; party</h1>
+      <section>
+        <p>Stars arrive at the premiere<br>Featuring: Jane Doe<br>Where: London, United Kingdom<br>When: 18 Jul 2016</p>
+      </section>
+      <ul>
+        <li><strong>Photographer:</strong> John Smith</li>
+        <li><strong>Credit:</strong><button type="button">WENN.com</button></li>
+      </ul>
+      <div><h6 class="headline">SmartFrame Content Partner</h6><h2 class="headline">WENN</h2></div>
+      <div><h2>Keywords</h2><button type="button">premiere</button><button type="button">View all</button></div>
+      <script id="__NEXT_DATA__" type="application/json">{"props":{"pageProps":{"image":{"metadata":{"photographer":"John Smith","city":"London","tags":["film"]}}}}}</script>
+    </body></html>
+  `;
+
+  it('should read title, caption and label/value pairs from the markup', () => {
+    const result = parseImagePageHtml(page);
+
+    expect(result.title).toBe('Premiere of "Film" & party');
+    expect(result.caption).toContain('Featuring: Jane Doe');
+    expect(result.labelValues).toEqual(expect.arrayContaining([
+      { label: 'Photographer', value: 'John Smith' },
+      { label: 'Credit', value: 'WENN.com' },
+      { label: 'Featuring', value: 'Jane Doe' },
+      { label: 'Where', value: 'London, United Kingdom' },
+    ]));
+    expect(result.contentPartner).toBe('WENN');
+    expect(result.keywords).toEqual(['premiere']);
+  });
+
+  it('should map __NEXT_DATA__ image metadata', () => {
+    const nextData = extractNextData(page);
+
+    expect(nextData?.photographer).toBe('John Smith');
+    expect(nextData?.city).toBe('London');
+    expect(nextData?.tags).toEqual(['film']);
+  });
+
+  it('should leave numeric entities beyond the Unicode range as written', () => {
+    const result = parseImagePageHtml('<html><body><h1>Caf&#233; &#99999999; &#x110000;</h1></body></html>');
+
+    expect(result.title).toBe('Café &#99999999; &#x110000;');
+  });
+
+  it('should return no data for pages without metadata', () => {
+    const result = parseImagePageHtml('<html><body><h1>502 Bad Gateway</h1></body></html>');
+
+    expect(result.labelValues).toEqual([]);
+    expect(result.nextData).toBeNull();
+    expect(result.caption).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { applyLabelMappings, compileLabelMappingRules, findUnmappedLabels, type LabelMappedFields } from '../server/utils/label-mapping';
+import { loadLabelMappingRules } from '../server/utils/config-loader';
+import { labelMappingRulesSchema, labelMappingRuleSchema } from '../shared/schema';
+import type { ScraperConfig } from '../server/types';
+
+describe('Label mapping rules', () => {
+  const { rules } = labelMappingRulesSchema.parse(
+    JSON.parse(fs.readFileSync(path.join(process.cwd(), 'label-mappings.json'), 'utf-8'))
+  );
+  const compiled = compileLabelMappingRules(rules);
+
+  it('should map the bundled SmartFrame labels to fields', () => {
+    const target: LabelMappedFields = {};
+    applyLabelMappings(target, [
+      { label: 'Photographer', value: 'John Smith' },
+      { label: 'Where', value: 'London, United Kingdom' },
+      { label: 'Date taken', value: '18 Jul 2016' },
+      { label: 'Event', value: 'Film premiere' },
+    ], compiled);
+
+    expect(target).toMatchObject({
+      authors: 'John Smith',
+      location: 'London, United Kingdom',
+      city: 'London',
+      country: 'United Kingdom',
+      dateTaken: '2016-07-18',
+      event: 'Film premiere',
+      titleField: 'Film premiere',
+    });
+    expect(target.copyright).toBeUndefined();
+  });
+
+  it('should map dates to ISO 8601 and keep the EDTF form separately', () => {
+    const target: LabelMappedFields = {};
+    applyLabelMappings(target, [{ label: 'When', value: 'Summer 1985' }], compiled);
+
+    expect(target).toEqual({ dateTaken: '1985-06/1985-08', dateTakenEdtf: '1985-22' });
+  });
+
+  it('should keep existing values and let higher precedence rules win', () => {
+    const target: LabelMappedFields = { titleField: 'Page title' };
+    applyLabelMappings(target, [
+      { label: 'Where', value: 'Paris, France' },
+      { label: 'City', value: 'Versailles' },
+      { label: 'Headline', value: 'Other title' },
+    ], compiled);
+
+    expect(target.titleField).toBe('Page title');
+    expect(target.city).toBe('Versailles');
+  });
+
+  it('should support regex labels and append mode', () => {
+    const custom = compileLabelMappingRules([
+      labelMappingRuleSchema.parse({ pattern: '^keyword \\d+$', fields: ['tags'], mode: 'append' }),
+    ]);
+    const target: LabelMappedFields = {};
+    const unmapped = applyLabelMappings(target, [
+      { label: 'Keyword 1', value: 'film' },
+      { label: 'Keyword 2', value: 'premiere' },
+      { label: 'Keyword 3', value: 'film' },
+      { label: 'Agency', value: 'WENN' },
+    ], custom);
+
+    expect(target.tags).toBe('film, premiere');
+    expect(unmapped).toEqual(['Agency']);
+  });
+
+  it('should count unmapped labels across images', () => {
+    expect(findUnmappedLabels([
+      [{ label: 'Agency', value: 'WENN' }, { label: 'Photographer', value: 'John Smith' }],
+      [{ label: 'agency', value: 'PA' }, { label: 'Collection', value: 'Archive' }],
+    ], compiled)).toEqual([
+      { label: 'Agency', count: 2, sampleValue: 'WENN' },
+      { label: 'Collection', count: 1, sampleValue: 'Archive' },
+    ]);
+  });
+
+  it('should reject rules without aliases or pattern, and invalid regexes', () => {
+    expect(labelMappingRuleSchema.safeParse({ fields: ['tags'] }).success).toBe(false);
+    expect(labelMappingRuleSchema.safeParse({ pattern: '(', fields: ['tags'] }).success).toBe(false);
+  });
+
+  it('should fall back to the bundled rules when the rules file is missing', () => {
+    const config = { metadata: { labelMappingsFile: 'missing-label-mappings.json' } } as unknown as ScraperConfig;
+    expect(loadLabelMappingRules(config)).toEqual(rules);
+  });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadLocalePacks } from '../server/utils/config-loader';
+import { detectLocale, getLocalePatterns, parseMultiParagraphCaption, registerLocalePacks } from '../server/utils/metadata-normalizer';
+import type { ScraperConfig } from '../server/types';
+
+describe('Locale packs', () => {
+  let localesDir: string;
+
+  const configFor = (supportedLocales?: string[]) => ({
+    caption: { localesDir, supportedLocales },
+  }) as ScraperConfig;
+
+  beforeEach(() => {
+    localesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'locale-packs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(localesDir, { recursive: true, force: true });
+    registerLocalePacks(Object.fromEntries(loadLocalePacks(null).map(({ code, name, ...patterns }) => [code, patterns])));
+  });
+
+  it('should load every pack shipped in locales/', () => {
+    const codes = loadLocalePacks(null).map(pack => pack.code);
+
+    expect(codes).toEqual(['de', 'en', 'es', 'fr', 'it', 'nl', 'pl', 'pt']);
+  });
+
+  it('should load JSON and YAML packs, taking the code from the file name', () => {
+    fs.writeFileSync(path.join(localesDir, 'sv.json'), JSON.stringify({
+      name: 'Swedish',
+      featuring: ['Med'],
+      where: ['Var', 'Plats'],
+      when: ['När', 'Datum'],
+      credit: ['Foto'],
+    }));
+    fs.writeFileSync(path.join(localesDir, 'da.yaml'), [
+      'name: Danish',
+      'featuring: [Med]',
+      'where: [Hvor, Sted]',
+      'when: [Hvornår, Dato]',
+      'credit: [Foto]',
+      'stopwords: [og, til, på]',
+    ].join('\n'));
+
+    const packs = loadLocalePacks(configFor());
+
+    expect(packs.map(pack => pack.code)).toEqual(['da', 'sv']);
+    expect(packs[0]).toMatchObject({ name: 'Danish', where: ['Hvor', 'Sted'], stopwords: ['og', 'til', 'på'] });
+  });
+
+  it('should skip invalid packs and packs not in supportedLocales', () => {
+    fs.writeFileSync(path.join(localesDir, 'sv.json'), JSON.stringify({ name: 'Swedish', featuring: ['Med'] }));
+    fs.writeFileSync(path.join(localesDir, 'fi.json'), '{ not json');
+    fs.writeFileSync(path.join(localesDir, 'da.json'), JSON.stringify({
+      name: 'Danish', featuring: ['Med'], where: ['Hvor'], when: ['Dato'], credit: ['Foto'],
+    }));
+    fs.writeFileSync(path.join(localesDir, 'no.json'), JSON.stringify({
+      name: 'Norwegian', featuring: ['Med'], where: ['Hvor'], when: ['Dato'], credit: ['Foto'],
+    }));
+
+    const packs = loadLocalePacks(configFor(['sv', 'fi', 'da']));
+
+    expect(packs.map(pack => pack.code)).toEqual(['da']);
+  });
+
+  it('should return no packs when the directory is missing', () => {
+    fs.rmSync(localesDir, { recursive: true });
+
+    expect(loadLocalePacks(configFor())).toEqual([]);
+  });
+
+  it('should parse captions with registered packs and keep English available', () => {
+    fs.writeFileSync(path.join(localesDir, 'sv.json'), JSON.stringify({
+      name: 'Swedish',
+      featuring: ['Med'],
+      where: ['Var'],
+      when: ['När'],
+      credit: ['Foto'],
+      stopwords: ['och', 'på', 'vid'],
+    }));
+
+    const packs = loadLocalePacks(configFor());
+    registerLocalePacks(Object.fromEntries(packs.map(({ code, name, ...patterns }) => [code, patterns])));
+
+    const caption = `Premiär i Stockholm
+
+Med: Alicia Vikander
+Var: Stockholm, Sverige
+När: 12 mars 2024
+Foto: Agentur`;
+
+    expect(Object.keys(getLocalePatterns()).sort()).toEqual(['en', 'sv']);
+    expect(detectLocale(caption)).toBe('sv');
+    expect(parseMultiParagraphCaption(caption)).toMatchObject({
+      featuring: 'Alicia Vikander',
+      where: 'Stockholm, Sverige',
+      credit: 'Agentur',
+    });
+  });
+});
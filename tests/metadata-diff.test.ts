@@ -0,0 +1,89 @@
+import { diffMetadataSnapshots, diffNormalizedFields, diffRawMetadata, diffStructuredFields, type MetadataSnapshot } from '../server/utils/metadata-diff';
+import { scrapedImage } from './fixtures';
+
+describe('Metadata diffs', () => {
+  const base: MetadataSnapshot = {
+    titleField: 'Premiere',
+    subjectField: 'Jane Doe',
+    tags: 'film, premiere',
+    comments: 'Jane Doe at the premiere',
+    authors: 'John Smith',
+    dateTaken: '2024-01-15',
+    copyright: '© Agency',
+    labelValues: [
+      { label: 'Photographer', value: 'John Smith' },
+      { label: 'City', value: 'London' },
+    ],
+  };
+
+  it('should report no changes for identical snapshots', () => {
+    expect(diffMetadataSnapshots(base, { ...base })).toEqual([]);
+  });
+
+  it('should list changed clean fields with before and after values', () => {
+    const current = { ...base, comments: 'Jane Doe arrives at the premiere', tags: 'film, premiere, red carpet' };
+    expect(diffMetadataSnapshots(base, current)).toEqual([
+      { field: 'tags', before: 'film, premiere', after: 'film, premiere, red carpet' },
+      { field: 'comments', before: 'Jane Doe at the premiere', after: 'Jane Doe arrives at the premiere' },
+    ]);
+  });
+
+  it('should treat empty strings, whitespace and null as the same value', () => {
+    const previous = { ...base, copyright: '' };
+    const current = { ...base, copyright: null, titleField: ' Premiere ' };
+    expect(diffMetadataSnapshots(previous, current)).toEqual([]);
+  });
+
+  it('should ignore label order but detect changed label values', () => {
+    const reordered = { ...base, labelValues: [...base.labelValues!].reverse() };
+    expect(diffMetadataSnapshots(base, reordered)).toEqual([]);
+
+    const corrected = { ...base, labelValues: [{ label: 'Photographer', value: 'Jon Smith' }, base.labelValues![1]] };
+    expect(diffMetadataSnapshots(base, corrected).map(change => change.field)).toEqual(['labelValues']);
+  });
+
+  it('should skip label values when either version has none', () => {
+    expect(diffMetadataSnapshots({ ...base, labelValues: null }, base)).toEqual([]);
+  });
+
+  it('should detect SmartFrame edits from the raw label values and caption only', () => {
+    const raw = { labelValues: base.labelValues, caption: 'Jane Doe at the premiere\nWhere: London' };
+
+    expect(diffRawMetadata(raw, { ...raw, labelValues: [...base.labelValues!].reverse() })).toEqual([]);
+    expect(diffRawMetadata(raw, { ...raw, caption: 'Jane Doe arrives at the premiere\nWhere: London' })).toEqual([
+      {
+        field: 'caption',
+        before: 'Jane Doe at the premiere\nWhere: London',
+        after: 'Jane Doe arrives at the premiere\nWhere: London',
+      },
+    ]);
+    expect(diffRawMetadata(raw, { ...raw, labelValues: null }).map(change => change.field)).toEqual(['labelValues']);
+  });
+
+  it('should diff structured fields, treating missing and null alike', () => {
+    expect(diffStructuredFields(
+      { city: 'London', event: null },
+      { city: 'London', country: 'United Kingdom', event: '' }
+    )).toEqual([
+      { field: 'country', before: null, after: 'United Kingdom' },
+    ]);
+  });
+
+  it('should list every normalized field a re-normalization changes', () => {
+    const stored = scrapedImage({ city: 'London', people: ['Harry Styles'], dateTakenEdtf: '1985-06/1985-08' });
+
+    expect(diffNormalizedFields(stored, { ...stored })).toEqual([]);
+    expect(diffNormalizedFields(stored, {
+      ...stored,
+      tags: 'Premiere',
+      country: 'United Kingdom',
+      people: null,
+      dateTakenEdtf: '1985-22',
+    })).toEqual([
+      { field: 'tags', before: 'Premiere; Film & TV', after: 'Premiere' },
+      { field: 'country', before: null, after: 'United Kingdom' },
+      { field: 'people', before: '["Harry Styles"]', after: null },
+      { field: 'dateTakenEdtf', before: '1985-06/1985-08', after: '1985-22' },
+    ]);
+  });
+});
@@ -2,11 +2,14 @@ import {
   parseMultiParagraphCaption,
   detectLocale,
   cleanComments,
-  LOCALE_PATTERNS,
+  normalizeDateTaken,
+  getLocalePatterns,
   type ParsedCaption,
   type CaptionLocale,
 } from '../server/utils/metadata-normalizer';
 
+// Parses with the locale packs shipped in locales/, registered when the normalizer loads
+
 describe('Multi-paragraph caption parsing', () => {
   describe('English captions', () => {
     it('should parse English multi-paragraph captions with all fields', () => {
@@ -208,6 +211,167 @@ Das Model zeigte die neueste Kollektion.`;
     });
   });
 
+  describe('Italian captions', () => {
+    it('should parse Italian multi-paragraph captions', () => {
+      const input = `Arrivi alla Mostra del Cinema di Venezia
+
+Con: Monica Bellucci
+Dove: Venezia, Italia
+Quando: 2 settembre 2023
+Crediti: Cinzia Camela/WENN.com
+
+L'attrice arriva sul red carpet della prima del film in concorso.`;
+
+      const result = parseMultiParagraphCaption(input, 'it');
+
+      expect(result.title).toBe('Arrivi alla Mostra del Cinema di Venezia');
+      expect(result.featuring).toBe('Monica Bellucci');
+      expect(result.where).toBe('Venezia, Italia');
+      expect(result.when).toBe('2 settembre 2023');
+      expect(result.credit).toBe('Cinzia Camela/WENN.com');
+      expect(result.description[0]).toContain('red carpet');
+    });
+
+    it('should not treat words starting with a label as labels', () => {
+      const input = `Concerto a Milano
+
+Nella foto: Laura Pausini
+Luogo: Milano, Italia
+Data: 14 luglio 2024
+Foto di: Agenzia Fotogramma
+
+Concerto sold out allo stadio di San Siro.`;
+
+      const result = parseMultiParagraphCaption(input, 'it');
+
+      expect(result.featuring).toBe('Laura Pausini');
+      expect(result.where).toBe('Milano, Italia');
+      expect(result.when).toBe('14 luglio 2024');
+      expect(result.credit).toBe('Agenzia Fotogramma');
+      expect(result.description[0]).toContain('Concerto sold out');
+    });
+  });
+
+  describe('Portuguese captions', () => {
+    it('should parse Portuguese multi-paragraph captions', () => {
+      const input = `Estreia de novela no Rio de Janeiro
+
+Com: Gisele Bündchen
+Onde: Rio de Janeiro, Brasil
+Quando: 25 de agosto de 2012
+Crédito: Daniel Ramalho/WENN.com
+
+A modelo chega à festa de lançamento da nova coleção.`;
+
+      const result = parseMultiParagraphCaption(input, 'pt');
+
+      expect(result.title).toBe('Estreia de novela no Rio de Janeiro');
+      expect(result.featuring).toBe('Gisele Bündchen');
+      expect(result.where).toBe('Rio de Janeiro, Brasil');
+      expect(result.when).toBe('25 de agosto de 2012');
+      expect(result.credit).toBe('Daniel Ramalho/WENN.com');
+      expect(result.description[0]).toContain('festa de lançamento');
+    });
+
+    it('should parse Portuguese captions with alternative patterns', () => {
+      const input = `Festival de cinema em Lisboa
+
+Na foto: Joaquim de Almeida
+Local: Lisboa, Portugal
+Data: 3 de março de 2024
+Foto de: Agência Lusa
+
+O ator posa para os fotógrafos no tapete vermelho.`;
+
+      const result = parseMultiParagraphCaption(input, 'pt');
+
+      expect(result.featuring).toBe('Joaquim de Almeida');
+      expect(result.where).toBe('Lisboa, Portugal');
+      expect(result.when).toBe('3 de março de 2024');
+      expect(result.credit).toBe('Agência Lusa');
+    });
+  });
+
+  describe('Dutch captions', () => {
+    it('should parse Dutch multi-paragraph captions', () => {
+      const input = `Première in Amsterdam
+
+Met: Carice van Houten
+Waar: Amsterdam, Nederland
+Wanneer: 12 maart 2024
+Fotograaf: Patrick Harbron/WENN.com
+
+De actrice komt aan bij de première van haar nieuwe film in het Tuschinski Theater.`;
+
+      const result = parseMultiParagraphCaption(input, 'nl');
+
+      expect(result.title).toBe('Première in Amsterdam');
+      expect(result.featuring).toBe('Carice van Houten');
+      expect(result.where).toBe('Amsterdam, Nederland');
+      expect(result.when).toBe('12 maart 2024');
+      expect(result.credit).toBe('Patrick Harbron/WENN.com');
+      expect(result.description[0]).toContain('Tuschinski Theater');
+    });
+
+    it('should parse Dutch captions with alternative patterns', () => {
+      const input = `Koningsdag in Maastricht
+
+Op de foto: Koning Willem-Alexander
+Locatie: Maastricht, Nederland
+Datum: 27 april 2024
+Foto door: ANP
+
+De koning bezoekt de festiviteiten op het Vrijthof.`;
+
+      const result = parseMultiParagraphCaption(input, 'nl');
+
+      expect(result.featuring).toBe('Koning Willem-Alexander');
+      expect(result.where).toBe('Maastricht, Nederland');
+      expect(result.when).toBe('27 april 2024');
+      expect(result.credit).toBe('ANP');
+    });
+  });
+
+  describe('Polish captions', () => {
+    it('should parse Polish multi-paragraph captions', () => {
+      const input = `Gala rozdania nagród w Warszawie
+
+Na zdjęciu: Joanna Kulig
+Gdzie: Warszawa, Polska
+Kiedy: 5 października 2023 r.
+Autor: Jacek Kurnikowski/AKPA
+
+Aktorka pozuje na ściance podczas gali w Teatrze Polskim.`;
+
+      const result = parseMultiParagraphCaption(input, 'pl');
+
+      expect(result.title).toBe('Gala rozdania nagród w Warszawie');
+      expect(result.featuring).toBe('Joanna Kulig');
+      expect(result.where).toBe('Warszawa, Polska');
+      expect(result.when).toBe('5 października 2023 r');
+      expect(result.credit).toBe('Jacek Kurnikowski/AKPA');
+      expect(result.description[0]).toContain('Teatrze Polskim');
+    });
+
+    it('should parse Polish captions with alternative patterns', () => {
+      const input = `Festiwal filmowy w Gdyni
+
+Występują: Andrzej Seweryn
+Miejsce: Gdynia, Polska
+Data: 19 września 2024
+Fot.: Michał Wargin
+
+Aktor podczas konferencji prasowej festiwalu.`;
+
+      const result = parseMultiParagraphCaption(input, 'pl');
+
+      expect(result.featuring).toBe('Andrzej Seweryn');
+      expect(result.where).toBe('Gdynia, Polska');
+      expect(result.when).toBe('19 września 2024');
+      expect(result.credit).toBe('Michał Wargin');
+    });
+  });
+
   describe('Locale detection', () => {
     it('should detect English locale', () => {
       const text = `Event Description
@@ -249,6 +413,60 @@ Kredit: Fotograf`;
       expect(detectLocale(text)).toBe('de');
     });
 
+    it('should detect Italian locale', () => {
+      const text = `Sfilata della settimana della moda di Milano
+Con: Bianca Balti
+Dove: Milano, Italia
+Quando: 21 febbraio 2024
+Crediti: Agenzia`;
+      
+      expect(detectLocale(text)).toBe('it');
+    });
+
+    it('should detect Portuguese locale', () => {
+      const text = `Estreia do filme no Rio de Janeiro
+Com: Rodrigo Santoro
+Onde: Rio de Janeiro, Brasil
+Quando: 10 de maio de 2024
+Crédito: Agência`;
+      
+      expect(detectLocale(text)).toBe('pt');
+    });
+
+    it('should detect Dutch locale', () => {
+      const text = `Première van de nieuwe film
+Met: Famke Janssen
+Waar: Amsterdam, Nederland
+Wanneer: 8 mei 2024
+Fotograaf: Agentschap`;
+      
+      expect(detectLocale(text)).toBe('nl');
+    });
+
+    it('should detect Polish locale', () => {
+      const text = `Premiera filmu w Krakowie
+Na zdjęciu: Maciej Stuhr
+Gdzie: Kraków, Polska
+Kiedy: 3 czerwca 2024
+Autor: Agencja`;
+      
+      expect(detectLocale(text)).toBe('pl');
+    });
+
+    it('should detect locale from running text without labels', () => {
+      expect(detectLocale('Il cantante arriva alla conferenza stampa della band nel centro di Roma')).toBe('it');
+      expect(detectLocale('De zanger komt aan bij het concert van de band tijdens het festival')).toBe('nl');
+      expect(detectLocale('Piosenkarka pozuje na ściance podczas premiery filmu w Warszawie')).toBe('pl');
+    });
+
+    it('should not read domains as Portuguese labels', () => {
+      const text = `Lee outside ITV Studios
+Featuring: Lee Latchford-Evans
+Credit: Rocky/WENN.com`;
+      
+      expect(detectLocale(text)).toBe('en');
+    });
+
     it('should default to English when no clear match', () => {
       const text = `Just some random text without any metadata patterns at all`;
       
@@ -433,27 +651,71 @@ Description paragraph two.`;
     });
   });
 
-  describe('LOCALE_PATTERNS export', () => {
-    it('should export LOCALE_PATTERNS constant', () => {
-      expect(LOCALE_PATTERNS).toBeDefined();
-      expect(LOCALE_PATTERNS.en).toBeDefined();
-      expect(LOCALE_PATTERNS.es).toBeDefined();
-      expect(LOCALE_PATTERNS.fr).toBeDefined();
-      expect(LOCALE_PATTERNS.de).toBeDefined();
+  describe('getLocalePatterns', () => {
+    it('should hold every bundled locale pack without registering them', () => {
+      const patterns = getLocalePatterns();
+      expect(patterns).toBeDefined();
+      expect(patterns.en).toBeDefined();
+      expect(patterns.es).toBeDefined();
+      expect(patterns.fr).toBeDefined();
+      expect(patterns.de).toBeDefined();
+      expect(patterns.it).toBeDefined();
+      expect(patterns.pt).toBeDefined();
+      expect(patterns.nl).toBeDefined();
+      expect(patterns.pl).toBeDefined();
     });
 
     it('should have all required fields for each locale', () => {
-      const locales = ['en', 'es', 'fr', 'de'];
-      const fields = ['featuring', 'where', 'when', 'credit'];
+      const patterns = getLocalePatterns();
+      const locales = ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl'];
+      const fields = ['featuring', 'where', 'when', 'credit'] as const;
       
       locales.forEach(locale => {
         fields.forEach(field => {
-          expect(LOCALE_PATTERNS[locale][field as keyof CaptionLocale]).toBeDefined();
-          expect(Array.isArray(LOCALE_PATTERNS[locale][field as keyof CaptionLocale])).toBe(true);
-          expect(LOCALE_PATTERNS[locale][field as keyof CaptionLocale].length).toBeGreaterThan(0);
+          expect(patterns[locale][field as keyof CaptionLocale]).toBeDefined();
+          expect(Array.isArray(patterns[locale][field])).toBe(true);
+          expect(patterns[locale][field].length).toBeGreaterThan(0);
         });
       });
     });
+
+    it('should have twelve months for each non-English locale', () => {
+      const patterns = getLocalePatterns();
+      ['es', 'fr', 'de', 'it', 'pt', 'nl', 'pl'].forEach(locale => {
+        expect(patterns[locale].months).toHaveLength(12);
+      });
+    });
+  });
+
+  describe('Localized date normalization', () => {
+    it('should normalize Italian dates', () => {
+      expect(normalizeDateTaken('2 settembre 2023')).toBe('2023-09-02');
+    });
+
+    it('should normalize Portuguese dates with connectors', () => {
+      expect(normalizeDateTaken('25 de agosto de 2012')).toBe('2012-08-25');
+      expect(normalizeDateTaken('3 de março de 2024')).toBe('2024-03-03');
+    });
+
+    it('should normalize Dutch dates', () => {
+      expect(normalizeDateTaken('12 maart 2024')).toBe('2024-03-12');
+    });
+
+    it('should normalize Polish genitive dates with the year suffix', () => {
+      expect(normalizeDateTaken('5 października 2023 r.')).toBe('2023-10-05');
+      expect(normalizeDateTaken('19 września 2024')).toBe('2024-09-19');
+    });
+
+    it('should normalize Spanish, French and German dates', () => {
+      expect(normalizeDateTaken('10 de diciembre de 2021')).toBe('2021-12-10');
+      expect(normalizeDateTaken('14 juillet 2022')).toBe('2022-07-14');
+      expect(normalizeDateTaken('25. März 2024')).toBe('2024-03-25');
+    });
+
+    it('should leave English dates unchanged', () => {
+      expect(normalizeDateTaken('25 August 2012')).toBe('2012-08-25');
+      expect(normalizeDateTaken('January 20, 2024')).toBe('2024-01-20');
+    });
   });
 
   describe('Real-world SmartFrame examples', () => {
@@ -0,0 +1,63 @@
+import { buildQualityReport, captionKey, scoreImageQuality } from '../server/utils/metadata-quality';
+import { scrapedImage } from './fixtures';
+
+describe('Metadata quality', () => {
+  it('should score a complete image 100', () => {
+    expect(scoreImageQuality(scrapedImage())).toEqual({ imageId: 'img-1', score: 100, issues: [] });
+  });
+
+  it('should report missing fields, weighting the title and caption higher', () => {
+    const quality = scoreImageQuality(scrapedImage({ titleField: null, tags: '', comments: null }));
+
+    expect(quality.issues).toEqual([
+      { type: 'missingField', field: 'titleField' },
+      { type: 'missingField', field: 'tags' },
+      { type: 'missingField', field: 'comments' },
+    ]);
+    expect(quality.score).toBe(50);
+  });
+
+  it('should flag short titles and mojibake remnants', () => {
+    expect(scoreImageQuality(scrapedImage({ titleField: 'IMG_0042' })).issues).toEqual([{ type: 'shortTitle', field: 'titleField' }]);
+    expect(scoreImageQuality(scrapedImage({ subjectField: 'BeyoncÃ© Knowles' })).issues).toEqual([{ type: 'mojibake', field: 'subjectField' }]);
+    expect(scoreImageQuality(scrapedImage({ comments: 'Fans â€ outside' })).issues).toEqual([{ type: 'mojibake', field: 'comments' }]);
+  });
+
+  it('should flag dates the parser cannot read', () => {
+    expect(scoreImageQuality(scrapedImage({ dateTaken: 'sometime last week', dateTakenEdtf: null })).issues)
+      .toEqual([{ type: 'unparsedDate', field: 'dateTaken' }]);
+    // Images stored before the EDTF column only have the ISO value of a parsed date
+    expect(scoreImageQuality(scrapedImage({ dateTaken: '2012-08-25', dateTakenEdtf: undefined })).issues).toEqual([]);
+    expect(scoreImageQuality(scrapedImage({ dateTaken: '1970/1979', dateTakenEdtf: null })).issues).toEqual([]);
+    expect(scoreImageQuality(scrapedImage({ dateTaken: 'Summer 2012', dateTakenEdtf: undefined })).issues)
+      .toEqual([{ type: 'unparsedDate', field: 'dateTaken' }]);
+  });
+
+  it('should compare captions without the appended metadata lines', () => {
+    expect(captionKey('Crowds  at the Parade\n\nAuthor: Jane Doe\nDate: 2022-10-15')).toBe('crowds at the parade');
+    expect(captionKey('Author: Jane Doe')).toBeNull();
+  });
+
+  it('should count issues per image and list low-quality images worst first', () => {
+    const report = buildQualityReport('job-1', [
+      scrapedImage(),
+      scrapedImage({ imageId: 'img-2', comments: 'Crowds at the parade\n\nAuthor: Jane Doe' }),
+      scrapedImage({ imageId: 'img-3', comments: 'Crowds at the parade\n\nAuthor: Sam Park', titleField: 'Parade' }),
+      scrapedImage({ imageId: 'img-4', titleField: null, subjectField: null, tags: null, comments: 'A quiet street' }),
+    ], 80);
+
+    expect(report).toMatchObject({
+      jobId: 'job-1',
+      threshold: 80,
+      totalImages: 4,
+      lowQualityImages: 2,
+      issueCounts: { missingField: 1, shortTitle: 1, mojibake: 0, unparsedDate: 0, duplicateCaption: 2 },
+      missingFieldCounts: { titleField: 1, subjectField: 1, tags: 1, comments: 0 },
+    });
+    expect(report.images.map(({ imageId, score }) => ({ imageId, score }))).toEqual([
+      { imageId: 'img-4', score: 55 },
+      { imageId: 'img-3', score: 70 },
+    ]);
+    expect(report.averageScore).toBe(78);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  canonicalPersonName,
+  compilePersonAliases,
+  extractPersonNames,
+  normalizePersonName,
+  peopleIncludes,
+  splitPersonNames,
+} from '../server/utils/person-names';
+import { diffPeople } from '../server/utils/metadata-diff';
+import { transformToCleanMetadata } from '../server/utils/metadata-normalizer';
+
+describe('Person name normalization', () => {
+  const noAliases = compilePersonAliases({});
+
+  it('should treat different spellings of one name as the same person', () => {
+    expect(extractPersonNames('Harry Styles', noAliases)).toEqual(['Harry Styles']);
+    expect(extractPersonNames('Styles, Harry', noAliases)).toEqual(['Harry Styles']);
+    expect(extractPersonNames('HARRY STYLES', noAliases)).toEqual(['Harry Styles']);
+    expect(extractPersonNames('harry styles', noAliases)).toEqual(['Harry Styles']);
+  });
+
+  it('should split featuring text into individual names', () => {
+    expect(extractPersonNames('Harry Styles, Zayn Malik and Niall Horan', noAliases))
+      .toEqual(['Harry Styles', 'Zayn Malik', 'Niall Horan']);
+    expect(extractPersonNames('Kate Moss & Jamie Hince; Lila Grace Moss', noAliases))
+      .toEqual(['Kate Moss', 'Jamie Hince', 'Lila Grace Moss']);
+    expect(extractPersonNames('(L-R) Ant McPartlin with Declan Donnelly', noAliases))
+      .toEqual(['Ant McPartlin', 'Declan Donnelly']);
+  });
+
+  it('should remove duplicates and keep text order', () => {
+    expect(extractPersonNames('Adele, ADELE, Ed Sheeran', noAliases)).toEqual(['Adele', 'Ed Sheeran']);
+  });
+
+  it('should canonicalize casing of single-case names', () => {
+    expect(normalizePersonName("CONAN O'BRIEN")).toBe("Conan O'Brien");
+    expect(normalizePersonName('jean-luc godard')).toBe('Jean-Luc Godard');
+    expect(normalizePersonName('LUDWIG VAN BEETHOVEN')).toBe('Ludwig van Beethoven');
+    expect(normalizePersonName('paul mccartney')).toBe('Paul McCartney');
+    expect(normalizePersonName('MARTIN LUTHER KING JR.')).toBe('Martin Luther King Jr.');
+  });
+
+  it('should keep mixed-case names as written', () => {
+    expect(normalizePersonName('Ruth Bader Ginsburg')).toBe('Ruth Bader Ginsburg');
+    expect(normalizePersonName('LeBron James')).toBe('LeBron James');
+  });
+
+  it('should keep name suffixes after a comma', () => {
+    expect(splitPersonNames('Robert Downey, Jr.')).toEqual(['Robert Downey Jr.']);
+    expect(splitPersonNames('Jane Doe, John Smith, Jr.')).toEqual(['Jane Doe', 'John Smith Jr.']);
+    expect(splitPersonNames('Downey, Robert, Jr.')).toEqual(['Robert Downey Jr.']);
+  });
+
+  it('should only read "Last, First" when the second part looks like a given name', () => {
+    expect(extractPersonNames('Rowling, J.K.', noAliases)).toEqual(['J.K. Rowling']);
+    expect(extractPersonNames('Adele, Drake', noAliases)).toEqual(['Adele', 'Drake']);
+    expect(extractPersonNames('Madonna, Sting', noAliases)).toEqual(['Madonna', 'Sting']);
+  });
+
+  it('should not reorder around a name from the alias dictionary', () => {
+    const aliases = compilePersonAliases({ Adele: ['Adele Adkins'], 'Kate Moss': [] });
+
+    expect(extractPersonNames('Adele, Harry', aliases)).toEqual(['Adele', 'Harry']);
+    expect(extractPersonNames('Moss, Kate', aliases)).toEqual(['Kate Moss']);
+  });
+
+  it('should skip segments that are not names', () => {
+    expect(extractPersonNames('Guests arrive at the opening night of the new musical in the West End', noAliases)).toEqual([]);
+    expect(extractPersonNames('---', noAliases)).toEqual([]);
+    expect(extractPersonNames(null, noAliases)).toEqual([]);
+  });
+
+  describe('Alias dictionary', () => {
+    const aliases = compilePersonAliases({
+      'Harry Styles': ['Harry Edward Styles', 'H. Styles'],
+      'Beyoncé': ['Beyonce Knowles', 'Beyoncé Knowles-Carter'],
+    });
+
+    it('should map listed spellings to the canonical name', () => {
+      expect(extractPersonNames('Harry Edward Styles and h. styles', aliases)).toEqual(['Harry Styles']);
+      expect(extractPersonNames('BEYONCE KNOWLES, Jay-Z', aliases)).toEqual(['Beyoncé', 'Jay-Z']);
+    });
+
+    it('should match names without diacritics to the canonical name', () => {
+      expect(canonicalPersonName('beyonce', aliases)).toBe('Beyoncé');
+      expect(canonicalPersonName('styles, harry', aliases)).toBe('Harry Styles');
+    });
+  });
+
+  it('should find people in a list ignoring case, diacritics and dots', () => {
+    expect(peopleIncludes(['Beyoncé', 'Jay-Z'], 'beyonce')).toBe(true);
+    expect(peopleIncludes(['J.K. Rowling'], 'j k rowling')).toBe(true);
+    // Whole names only, and LIKE wildcards are plain characters
+    expect(peopleIncludes(['Harry Styles'], 'Harry')).toBe(false);
+    expect(peopleIncludes(['Harry Styles'], 'Harry%')).toBe(false);
+    expect(peopleIncludes(null, 'Harry Styles')).toBe(false);
+  });
+
+  it('should only take people from a subject parsed out of the title', () => {
+    expect(transformToCleanMetadata({ title: 'Harry Styles at the Glastonbury Festival' }).parsedSubject).toBe('Harry Styles');
+    // A title without a subject is only the subject field's fallback
+    const clean = transformToCleanMetadata({ title: 'Glastonbury Festival 2023' });
+    expect(clean.subjectField).toBe('Glastonbury Festival 2023');
+    expect(clean.parsedSubject).toBeNull();
+  });
+
+  it('should report people list changes', () => {
+    expect(diffPeople({ people: ['Harry Styles'] }, { people: ['Harry Styles'] })).toEqual([]);
+    expect(diffPeople({ people: null }, { people: [] })).toEqual([]);
+    expect(diffPeople({ people: null }, { people: ['Harry Styles'] })).toEqual([
+      { field: 'people', before: null, after: '["Harry Styles"]' },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { parseEmbargoDate, parseRights } from '../server/utils/rights-parser';
+import { diffRights } from '../server/utils/metadata-diff';
+
+describe('Rights parsing', () => {
+  it('should split a photographer/agency copyright into holder, year, agency and credit line', () => {
+    expect(parseRights({ copyright: '© 2016 Rocky/WENN.com. All rights reserved' })).toEqual({
+      rightsHolder: 'WENN.com',
+      year: 2016,
+      agency: 'WENN.com',
+      creditLine: 'Rocky/WENN.com',
+      usageTerms: [],
+      restrictions: [],
+      embargoUntil: null,
+    });
+  });
+
+  it('should keep a plain copyright owner as the rights holder', () => {
+    const rights = parseRights({ copyright: 'Copyright 2021 Jane Doe', contentPartner: 'Splash News' });
+
+    expect(rights).toMatchObject({ rightsHolder: 'Jane Doe', year: 2021, agency: 'Splash News', creditLine: 'Jane Doe' });
+  });
+
+  it('should recognize known agencies and "via" credits', () => {
+    expect(parseRights({ copyright: 'John Smith via Getty Images' })).toMatchObject({
+      rightsHolder: 'Getty Images',
+      agency: 'Getty Images',
+    });
+    expect(parseRights({ copyright: '© Reuters' })).toMatchObject({ rightsHolder: 'Reuters', agency: 'Reuters' });
+  });
+
+  it('should collect usage terms and restriction wording from copyright and caption', () => {
+    const rights = parseRights({
+      copyright: '© 2023 Pat Lee/PA Wire. Editorial use only',
+      caption: 'Fans gather outside the stadium.\nNo sales. Not for use in France. Mandatory credit: Pat Lee/PA Wire',
+    });
+
+    expect(rights?.usageTerms).toEqual(['Editorial use only']);
+    expect(rights?.restrictions).toEqual(['No sales', 'Not for use in France', 'Mandatory credit: Pat Lee/PA Wire']);
+    expect(rights?.rightsHolder).toBe('PA Wire');
+  });
+
+  it('should ignore rights wording inside caption prose', () => {
+    expect(parseRights({ caption: 'The crowd cheered as the band said the venue would not let us out' })).toBeNull();
+    expect(parseRights({ caption: 'There was no online coverage of the non-commercial event' })).toBeNull();
+    expect(parseRights({ copyright: 'Jane Doe. No online use' })?.restrictions).toEqual(['No online use']);
+  });
+
+  it('should record an embargo without a date as a restriction', () => {
+    expect(parseRights({ caption: 'Fans at the launch.\nEmbargoed until further notice' })).toMatchObject({
+      restrictions: ['Embargoed until further notice'],
+      embargoUntil: null,
+    });
+  });
+
+  it('should normalize Creative Commons licences', () => {
+    expect(parseRights({ copyright: 'Photo by Ana Ruiz, licensed under CC BY-SA 4.0' })?.usageTerms).toEqual(['CC BY-SA 4.0']);
+  });
+
+  it('should prefer an explicit credit line from the caption or labels', () => {
+    expect(parseRights({ copyright: '© 2019 Acme Photos', caption: 'Crowds at the parade\nCredit: Sam Park/Acme Photos' }))
+      .toMatchObject({ creditLine: 'Sam Park/Acme Photos', rightsHolder: 'Acme Photos' });
+    expect(parseRights({ labelValues: [{ label: 'Photo credit', value: 'Kim Ray' }] }))
+      .toMatchObject({ creditLine: 'Kim Ray', rightsHolder: null });
+  });
+
+  it('should read embargo dates with and without a time', () => {
+    expect(parseRights({ caption: 'Embargoed until 00:01 GMT on Friday 16 June 2023' })?.embargoUntil)
+      .toBe('2023-06-16T00:01:00Z');
+    expect(parseRights({ copyright: '© 2024 Studio X. Not for publication before 3 March 2024' })?.embargoUntil)
+      .toBe('2024-03-03');
+    expect(parseEmbargoDate('12 June 2023 at 9.30pm BST')).toBe('2023-06-12T21:30:00+01:00');
+    expect(parseEmbargoDate('further notice')).toBeNull();
+  });
+
+  it('should not read the day and month of a dotted date as a time', () => {
+    expect(parseEmbargoDate('16.06.2023')).toBe('2023-06-16');
+    expect(parseEmbargoDate('16.06.2023 09:00 CET')).toBe('2023-06-16T09:00:00+01:00');
+    expect(parseEmbargoDate('16 June 2023 at 9.30.')).toBe('2023-06-16T09:30:00');
+  });
+
+  it('should return null when nothing names rights', () => {
+    expect(parseRights({ caption: 'Harry Styles arrives at the premiere' })).toBeNull();
+    expect(parseRights({})).toBeNull();
+  });
+
+  it('should report rights changes', () => {
+    const rights = parseRights({ copyright: '© 2016 Rocky/WENN.com' });
+
+    expect(diffRights({ rights }, { rights: { ...rights! } })).toEqual([]);
+    expect(diffRights({ rights: null }, { rights })).toEqual([
+      { field: 'rights', before: null, after: JSON.stringify(rights) },
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { buildSearchUrl } from '../server/utils/search-url-builder';
+
+describe('SmartFrame search URL builder', () => {
+  const searchUrl = 'https://smartframe.com/search?searchQuery=steps&sortBy=relevance';
+
+  it('should apply a non-default sort order', () => {
+    const result = new URL(buildSearchUrl(searchUrl, { sortBy: 'newest' }));
+
+    expect(result.searchParams.get('sortBy')).toBe('newest');
+    expect(result.searchParams.get('searchQuery')).toBe('steps');
+  });
+
+  it('should not override an explicit URL sort with the default sort', () => {
+    const url = 'https://smartframe.com/search?searchQuery=steps&sortBy=oldest';
+    const result = new URL(buildSearchUrl(url, { sortBy: 'relevance' }));
+
+    expect(result.searchParams.get('sortBy')).toBe('oldest');
+  });
+
+  it('should add the default sort when the URL has none', () => {
+    const url = 'https://smartframe.com/search?searchQuery=steps';
+    const result = new URL(buildSearchUrl(url, { sortBy: 'relevance' }));
+
+    expect(result.searchParams.get('sortBy')).toBe('relevance');
+  });
+
+  it('should apply date range, photographer and collection facets', () => {
+    const result = new URL(buildSearchUrl(searchUrl, {
+      sortBy: 'relevance',
+      filters: {
+        dateFrom: '2017-01-01',
+        dateTo: '2017-12-31',
+        photographer: 'Joe Bloggs',
+        collection: 'WENN',
+      },
+    }));
+
+    expect(result.searchParams.get('dateFrom')).toBe('2017-01-01');
+    expect(result.searchParams.get('dateTo')).toBe('2017-12-31');
+    expect(result.searchParams.get('photographer')).toBe('Joe Bloggs');
+    expect(result.searchParams.get('collection')).toBe('WENN');
+  });
+
+  it('should leave image detail pages untouched', () => {
+    const imageUrl = 'https://smartframe.com/search/image/6dfbdbe8ed6ff2eb8f8e8ee3c2cef8f4/wenn48oSlG1U';
+
+    expect(buildSearchUrl(imageUrl, { sortBy: 'newest' })).toBe(imageUrl);
+  });
+
+  it('should return unparseable URLs unchanged', () => {
+    expect(buildSearchUrl('not a url', { sortBy: 'newest' })).toBe('not a url');
+  });
+});
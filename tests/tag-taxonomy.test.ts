@@ -0,0 +1,74 @@
+import {
+  applyTagTaxonomy,
+  buildTagReport,
+  compileTagTaxonomy,
+  EMPTY_TAG_TAXONOMY,
+  tagCategories,
+} from '../server/utils/tag-taxonomy';
+import { normalizeTags } from '../server/utils/metadata-normalizer';
+import { tagTaxonomySchema } from '../shared/schema';
+
+describe('Tag taxonomy', () => {
+  const taxonomy = compileTagTaxonomy(tagTaxonomySchema.parse({
+    synonyms: {
+      Football: ['soccer', 'association football'],
+      'Red Carpet': ['red-carpet'],
+    },
+    stopwords: ['photo', 'stock'],
+    categories: {
+      'Sport/Football': ['Soccer', 'Premier League'],
+      Entertainment: ['Red Carpet'],
+    },
+    minTagLength: 2,
+    maxTags: 4,
+  }));
+
+  it('should merge synonyms and case variants into the canonical tag', () => {
+    expect(applyTagTaxonomy(['football', 'Football', 'Soccer', 'red-carpet', 'RED CARPET'], taxonomy))
+      .toEqual(['Football', 'Red Carpet']);
+  });
+
+  it('should drop stop-words and junk tokens', () => {
+    expect(applyTagTaxonomy(['Photo', 'STOCK', '...', 'x', '---', 'Arsenal'], taxonomy)).toEqual(['Arsenal']);
+    expect(applyTagTaxonomy(['2024', 'F1'], taxonomy)).toEqual(['2024', 'F1']);
+  });
+
+  it('should keep at most maxTags tags in source order', () => {
+    expect(applyTagTaxonomy(['a1', 'b2', 'c3', 'd4', 'e5'], taxonomy)).toEqual(['a1', 'b2', 'c3', 'd4']);
+  });
+
+  it('should list parent categories of nested categories', () => {
+    expect(tagCategories('Football', taxonomy)).toEqual(['Sport', 'Sport/Football']);
+    expect(tagCategories('premier league', taxonomy)).toEqual(['Sport', 'Sport/Football']);
+    expect(tagCategories('Arsenal', taxonomy)).toEqual([]);
+  });
+
+  it('should normalize tags fields with and without a taxonomy', () => {
+    expect(normalizeTags('Soccer, soccer; Photo, Arsenal', taxonomy)).toBe('Football; Arsenal');
+    // Without a taxonomy, tags are only de-duplicated
+    expect(normalizeTags('Soccer, soccer; Photo, 42, x, F1', EMPTY_TAG_TAXONOMY)).toBe('Soccer; Photo; 42; x; F1');
+    expect(normalizeTags('stock; photo', taxonomy)).toBeNull();
+  });
+
+  it('should report tag and category frequency with merged variants', () => {
+    const report = buildTagReport([
+      'Football; Arsenal',
+      'soccer, Red Carpet, photo',
+      'Premier League; Soccer',
+      null,
+    ], taxonomy, 2);
+
+    expect(report.totalImages).toBe(4);
+    expect(report.imagesWithTags).toBe(3);
+    expect(report.distinctTags).toBe(4);
+    expect(report.tags).toEqual([
+      { tag: 'Football', count: 3, variants: ['Soccer', 'soccer'], categories: ['Sport', 'Sport/Football'] },
+      { tag: 'Arsenal', count: 1, variants: [], categories: [] },
+    ]);
+    expect(report.categories).toEqual([
+      { category: 'Sport', count: 3 },
+      { category: 'Sport/Football', count: 3 },
+      { category: 'Entertainment', count: 1 },
+    ]);
+  });
+});
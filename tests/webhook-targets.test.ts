@@ -0,0 +1,43 @@
+import { getWebhookUrlError, isPrivateAddress, resolveWebhookUrlError } from '../server/utils/webhook-targets';
+
+describe('Webhook targets', () => {
+  it('should accept public http and https URLs', () => {
+    expect(getWebhookUrlError('https://hooks.example.com/scraper')).toBeNull();
+    expect(getWebhookUrlError('http://203.0.113.7:8080/notify')).toBeNull();
+  });
+
+  it('should reject other schemes', () => {
+    expect(getWebhookUrlError('ftp://hooks.example.com/scraper')).toMatch(/http or https/);
+    expect(getWebhookUrlError('file:///etc/passwd')).toMatch(/http or https/);
+  });
+
+  it('should reject loopback, private and link-local targets', () => {
+    expect(getWebhookUrlError('http://localhost:3000/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://127.0.0.1/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://2130706433/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://10.1.2.3/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://172.20.0.1/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://192.168.1.10/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://169.254.169.254/latest/meta-data')).toMatch(/private/);
+    expect(getWebhookUrlError('http://[::1]/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://[::ffff:127.0.0.1]/hook')).toMatch(/private/);
+    expect(getWebhookUrlError('http://[fe80::1]/hook')).toMatch(/private/);
+  });
+
+  it('should let allowlisted hosts through', () => {
+    expect(getWebhookUrlError('http://192.168.1.10/hook', ['192.168.1.10'])).toBeNull();
+    expect(getWebhookUrlError('http://Localhost:3000/hook', ['localhost'])).toBeNull();
+  });
+
+  it('should classify addresses', () => {
+    expect(isPrivateAddress('172.15.255.255')).toBe(false);
+    expect(isPrivateAddress('172.31.255.255')).toBe(true);
+    expect(isPrivateAddress('fd12:3456::1')).toBe(true);
+    expect(isPrivateAddress('2001:db8::1')).toBe(false);
+  });
+
+  it('should check IP literals without a DNS lookup', async () => {
+    await expect(resolveWebhookUrlError('http://10.0.0.1/hook')).resolves.toMatch(/private/);
+    await expect(resolveWebhookUrlError('http://203.0.113.7/hook')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { buildXmpSidecar, xmpSidecarName } from '../server/utils/xmp-sidecar';
+import { scrapedImage } from './fixtures';
+
+describe('XMP sidecars', () => {
+  it('should map the clean fields to the same properties as the embedded metadata', () => {
+    const xmp = buildXmpSidecar(scrapedImage());
+
+    expect(xmp).toContain('<dc:title>\n    <rdf:Alt>\n     <rdf:li xml:lang="x-default">Harry Styles arrives at the premiere</rdf:li>');
+    expect(xmp).toContain('<photoshop:Headline>Harry Styles arrives at the premiere</photoshop:Headline>');
+    expect(xmp).toContain('<Iptc4xmpExt:PersonInImage>\n    <rdf:Bag>\n     <rdf:li>Harry Styles</rdf:li>');
+    expect(xmp).toContain('<dc:creator>\n    <rdf:Seq>\n     <rdf:li>Jane Doe</rdf:li>');
+    expect(xmp).toContain('<tiff:Copyright>© 2022 Jane Doe/WENN</tiff:Copyright>');
+    expect(xmp).toContain('<exif:DateTimeOriginal>2022-10-15</exif:DateTimeOriginal>');
+    expect(xmp).toContain('<rdf:li>Premiere</rdf:li>\n     <rdf:li>Film &amp; TV</rdf:li>');
+  });
+
+  it('should escape XML in values', () => {
+    expect(buildXmpSidecar(scrapedImage())).toContain(
+      '<tiff:ImageDescription>Harry Styles at the &quot;My Policeman&quot; premiere &lt;London&gt;\n\nAuthor: Jane Doe</tiff:ImageDescription>'
+    );
+  });
+
+  it('should write partial dates only as the creation date and skip ranges', () => {
+    const partial = buildXmpSidecar(scrapedImage({ dateTaken: '1985-06' }));
+    expect(partial).toContain('<photoshop:DateCreated>1985-06</photoshop:DateCreated>');
+    expect(partial).not.toContain('exif:DateTimeOriginal');
+
+    expect(buildXmpSidecar(scrapedImage({ dateTaken: '1985-06/1985-08' }))).not.toContain('DateCreated');
+  });
+
+  it('should prefer the people list and add rights details', () => {
+    const xmp = buildXmpSidecar(scrapedImage({
+      people: ['Harry Styles', 'Emma Corrin'],
+      rights: {
+        rightsHolder: 'WENN', year: 2022, agency: 'WENN', creditLine: 'Jane Doe/WENN',
+        usageTerms: ['Editorial use only'], restrictions: ['No sales'], embargoUntil: null,
+      },
+    }));
+
+    expect(xmp).toContain('<rdf:li>Harry Styles</rdf:li>\n     <rdf:li>Emma Corrin</rdf:li>');
+    expect(xmp).toContain('<photoshop:Credit>Jane Doe/WENN</photoshop:Credit>');
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">Editorial use only. No sales</rdf:li>');
+  });
+
+  it('should leave out empty fields', () => {
+    const xmp = buildXmpSidecar(scrapedImage({ titleField: null, subjectField: null, tags: null, comments: null }));
+    expect(xmp).not.toContain('dc:title');
+    expect(xmp).not.toContain('PersonInImage');
+    expect(xmp).not.toContain('dc:subject');
+    expect(xmp.startsWith('<?xpacket begin="\uFEFF"')).toBe(true);
+  });
+
+  it('should name sidecars after the extracted canvas file', () => {
+    expect(xmpSidecarName({ imageId: 'abc-123', canvasImagePath: '/data/canvas/abc-123_canvas_full.jpg' }))
+      .toBe('abc-123_canvas_full.xmp');
+    expect(xmpSidecarName({ imageId: 'abc/123', canvasImagePath: null })).toBe('abc_123.xmp');
+  });
+});
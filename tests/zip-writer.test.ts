@@ -0,0 +1,61 @@
+import { PassThrough } from 'stream';
+import { ZipWriter } from '../server/utils/zip-writer';
+import { readZip } from './fixtures';
+
+async function writeZip(files: Array<{ name: string; data: Buffer | string; store?: boolean }>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+
+  const zip = new ZipWriter(output);
+  for (const file of files) {
+    await zip.addFile(file.name, file.data, { store: file.store });
+  }
+  await zip.finish();
+  return Buffer.concat(chunks);
+}
+
+describe('ZIP writer', () => {
+  it('should write entries that read back unchanged', async () => {
+    const text = 'caption '.repeat(200);
+    const binary = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+    const entries = readZip(await writeZip([
+      { name: 'export.csv', data: text },
+      { name: 'images/abc_canvas_full.jpg', data: binary, store: true },
+      { name: 'sidecars/Beyoncé.xmp', data: '<x:xmpmeta/>' },
+    ]));
+
+    expect(Array.from(entries.keys())).toEqual(['export.csv', 'images/abc_canvas_full.jpg', 'sidecars/Beyoncé.xmp']);
+    expect(entries.get('export.csv')!.toString()).toBe(text);
+    expect(entries.get('images/abc_canvas_full.jpg')).toEqual(binary);
+    expect(entries.get('sidecars/Beyoncé.xmp')!.toString()).toBe('<x:xmpmeta/>');
+  });
+
+  it('should compress text and store data that does not shrink', async () => {
+    const archive = await writeZip([{ name: 'a.txt', data: 'a'.repeat(1000) }, { name: 'b.bin', data: Buffer.from([1, 2, 3]) }]);
+
+    // Method field of each local file header
+    expect(archive.readUInt16LE(8)).toBe(8);
+    expect(archive.length).toBeLessThan(1000);
+    expect(readZip(archive).get('b.bin')).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('should reject duplicate names and files added after finishing', async () => {
+    const zip = new ZipWriter(new PassThrough().resume());
+    await zip.addFile('a.txt', 'a');
+    await expect(zip.addFile('a.txt', 'b')).rejects.toThrow('Duplicate ZIP entry "a.txt"');
+    await zip.finish();
+    await expect(zip.addFile('b.txt', 'b')).rejects.toThrow('finished');
+  });
+
+  it('should reject instead of waiting when the output is closed between entries', async () => {
+    // Paused with a tiny buffer, so every write asks to wait for drain
+    const output = new PassThrough({ highWaterMark: 1 });
+    const zip = new ZipWriter(output);
+    const first = zip.addFile('a.txt', 'a');
+    output.destroy();
+    await expect(first).rejects.toThrow('closed');
+    await expect(zip.addFile('b.txt', 'b')).rejects.toThrow('closed');
+    await expect(zip.finish()).rejects.toThrow('closed');
+  });
+});